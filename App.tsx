@@ -1,18 +1,72 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { AttendanceRecord, RegisteredUser } from './types';
-import WebcamDisplay from './components/WebcamDisplay';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { AttendanceRecord, CameraFeed, ConfirmedFace, DetectorKind, EvidenceSnapshot, FaceMatch, KioskMode, LiveEvent, LiveStatus, LivenessResult, Permission, Principal, RecognitionSettings, RegisteredUser, Session, UnknownFace } from './types';
+import CameraFeeds from './components/CameraFeeds';
+import CameraSettings from './components/CameraSettings';
+import DetectorSettings from './components/DetectorSettings';
 import RegistrationPanel from './components/RegistrationPanel';
+import BulkImportPanel from './components/BulkImportPanel';
 import AttendanceTable from './components/AttendanceTable';
-import { ATTENDANCE_COOLDOWN_MS } from './constants';
-
-const API_URL = 'http://localhost:5000/api';
+import SessionPanel from './components/SessionPanel';
+import SessionRoll from './components/SessionRoll';
+import KioskModeSelector from './components/KioskModeSelector';
+import ReportsPanel from './components/ReportsPanel';
+import LoginScreen from './components/LoginScreen';
+import AccessPanel from './components/AccessPanel';
+import WebhooksPanel from './components/WebhooksPanel';
+import UnknownFacesPanel from './components/UnknownFacesPanel';
+import SettingsPanel from './components/SettingsPanel';
+import PrivacyPanel from './components/PrivacyPanel';
+import { enqueue, startOutbox, subscribePending } from './services/outbox';
+import { api, onUnauthorized } from './services/api';
+import { fetchPrincipal, logout } from './services/auth';
+import { connectLiveSync } from './services/liveSync';
+import { getCameraFeeds, getDetector, getDeviceId, setCameraFeeds, setDetector } from './services/device';
+import { recognitionModel } from './services/models';
+import { fetchSettings, getCachedSettings } from './services/settings';
 
 const App: React.FC = () => {
   const [registeredUsers, setRegisteredUsers] = useState<RegisteredUser[]>([]);
+  // Records logged or corrected in this browser; the attendance table pages through the rest from the server
   const [attendanceLog, setAttendanceLog] = useState<AttendanceRecord[]>([]);
   const [isModelsLoaded, setIsModelsLoaded] = useState(false);
   const [lastLoggedTimestamps, setLastLoggedTimestamps] = useState<Record<string, number>>({});
   const [isMobile, setIsMobile] = useState(window.innerWidth <= 768);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [kioskMode, setKioskMode] = useState<KioskMode>('attendance');
+  const [cameraFeeds, setCameraFeedsState] = useState<CameraFeed[]>(getCameraFeeds);
+  const [detector, setDetectorState] = useState<DetectorKind>(getDetector);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [principal, setPrincipal] = useState<Principal | null>(null);
+  const [isAuthChecked, setIsAuthChecked] = useState(false);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus | null>(null);
+  // Bumped when live updates were missed, so the attendance table reloads from the server
+  const [attendanceRefreshKey, setAttendanceRefreshKey] = useState(0);
+  const [settings, setSettings] = useState<RecognitionSettings>(getCachedSettings);
+
+  const can = (permission: Permission) => Boolean(principal?.permissions.includes(permission));
+
+  // Find out who is signed in, and return to the sign-in screen whenever the server stops accepting
+  // our credentials (expired login session or revoked kiosk token)
+  useEffect(() => {
+    fetchPrincipal()
+      .then(setPrincipal)
+      .catch(error => console.error('Error checking sign-in:', error))
+      .finally(() => setIsAuthChecked(true));
+    return onUnauthorized(() => setPrincipal(null));
+  }, []);
+
+  const handleSignOut = useCallback(async () => {
+    try {
+      await logout();
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+    setPrincipal(null);
+    setRegisteredUsers([]);
+    setAttendanceLog([]);
+    setSessions([]);
+  }, []);
 
   useEffect(() => {
     const handleResize = () => {
@@ -23,191 +77,278 @@ const App: React.FC = () => {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  const handleFaceRegistered = useCallback((name: string, descriptor: Float32Array) => {
-    setRegisteredUsers(prevUsers => [...prevUsers, { name, descriptor }]);
+  const handleFaceRegistered = useCallback((user: RegisteredUser) => {
+    setRegisteredUsers(prevUsers => [...prevUsers, user]);
   }, []);
 
-  // Function to update CSV file
-  const updateCSV = useCallback((records: AttendanceRecord[]) => {
+  const handleUserUpdated = useCallback((updatedUser: RegisteredUser) => {
+    setRegisteredUsers(prevUsers => prevUsers.map(user => user.id === updatedUser.id ? updatedUser : user));
+  }, []);
+
+  const handleUserDeleted = useCallback((id: string) => {
+    setRegisteredUsers(prevUsers => prevUsers.filter(user => user.id !== id));
+  }, []);
+
+  // Bulk imports both create new people and add samples to ones already on the roster
+  const handleUsersImported = useCallback((users: RegisteredUser[]) => {
+    setRegisteredUsers(prevUsers => {
+      const imported = new Map(users.map(user => [user.id, user]));
+      const merged = prevUsers.map(user => imported.get(user.id) || user);
+      return [...merged, ...users.filter(user => !prevUsers.some(existing => existing.id === user.id))];
+    });
+  }, []);
+
+  // Queue attendance record for the server. Writes go through the offline outbox so nothing is
+  // lost while the server is unreachable; the record id doubles as the idempotency key.
+  const saveAttendanceRecord = async (record: AttendanceRecord, mode: KioskMode, evidence: EvidenceSnapshot) => {
     try {
-      // Format the data
-      const headers = "Name,Date,Time\n";
-      const rows = records
-        .map(record => {
-          const date = record.timestamp.toLocaleDateString();
-          const time = record.timestamp.toLocaleTimeString();
-          return `"${record.name}","${date}","${time}"`;
-        })
-        .join("\n");
-      const csvContent = headers + rows;
-
-      // Create blob with BOM for Excel compatibility
-      const BOM = "\uFEFF";
-      const blob = new Blob([BOM + csvContent], { 
-        type: 'text/csv;charset=utf-8;' 
-      });
-
-      // Create a temporary link element
-      const link = document.createElement('a');
-      const url = URL.createObjectURL(blob);
-      
-      // Set link properties
-      link.href = url;
-      link.download = `attendance_log_${new Date().toISOString().split('T')[0]}.csv`;
-      
-      // Append link to body
-      document.body.appendChild(link);
-      
-      // Trigger download
-      if (isMobile) {
-        // For mobile devices, create a data URL
-        const reader = new FileReader();
-        reader.onload = function(e) {
-          const dataUrl = e.target?.result as string;
-          const newWindow = window.open();
-          if (newWindow) {
-            newWindow.document.write(`
-              <html>
-                <head>
-                  <title>Attendance Log Updated</title>
-                  <meta name="viewport" content="width=device-width, initial-scale=1">
-                  <style>
-                    body { font-family: Arial, sans-serif; padding: 20px; text-align: center; }
-                    .download-btn {
-                      background-color: #4CAF50;
-                      color: white;
-                      padding: 10px 20px;
-                      border: none;
-                      border-radius: 5px;
-                      cursor: pointer;
-                      font-size: 16px;
-                      margin: 20px 0;
-                    }
-                    .download-btn:hover {
-                      background-color: #45a049;
-                    }
-                  </style>
-                </head>
-                <body>
-                  <h2>Attendance Log Updated</h2>
-                  <p>Click the button below to download the updated attendance log:</p>
-                  <a href="${dataUrl}" download="attendance_log.csv" class="download-btn">
-                    Download Updated CSV
-                  </a>
-                </body>
-              </html>
-            `);
-          }
-        };
-        reader.readAsDataURL(blob);
-      } else {
-        // For desktop, trigger click
-        link.click();
-      }
-      
-      // Clean up
-      setTimeout(() => {
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-      }, 100);
+      await enqueue('/attendance', {
+        id: record.id,
+        name: record.name,
+        userId: record.userId,
+        sessionId: record.sessionId,
+        type: mode === 'attendance' ? null : mode,
+        timestamp: record.timestamp,
+        liveness: record.liveness,
+        recognition: record.recognition,
+        evidence
+      }, record.id);
     } catch (error) {
-      console.error("Error updating CSV:", error);
+      console.error('Error queueing attendance record:', error);
     }
-  }, [isMobile]);
+  };
 
-  // Load attendance records from server
+  // In `auto` kiosk mode the server decides whether a record is a check-in or a check-out, and it
+  // reports which evidence images it kept, so local records are updated once the outbox delivers them.
   useEffect(() => {
-    const fetchAttendanceRecords = async () => {
-      try {
-        const response = await fetch(`${API_URL}/attendance`);
-        const data = await response.json();
-        setAttendanceLog(data.map((record: any) => ({
-          id: record._id,
-          name: record.name,
-          timestamp: new Date(record.timestamp)
-        })));
-      } catch (error) {
-        console.error('Error fetching attendance records:', error);
-      }
+    const stopOutbox = startOutbox((_entry, saved) => {
+      if (!saved) return;
+      setAttendanceLog(prevLog => prevLog.map(r => r.id === saved.id ? { ...r, type: saved.type, sessionId: saved.sessionId, evidence: saved.evidence, recordedBy: saved.recordedBy } : r));
+    });
+    const unsubscribe = subscribePending(setPendingSyncCount);
+    return () => {
+      stopOutbox();
+      unsubscribe();
     };
+  }, []);
 
-    fetchAttendanceRecords();
+  const activeSession = sessions.find(session => session.id === activeSessionId) || null;
+  // Roll view follows the picked session, or the one currently running
+  const rollSession = activeSession || sessions.find(session =>
+    !session.closedAt && Date.parse(session.startTime) <= Date.now() && Date.now() <= Date.parse(session.endTime)
+  ) || null;
+
+  const handleCameraFeedsChange = useCallback((feeds: CameraFeed[]) => {
+    setCameraFeedsState(feeds);
+    setCameraFeeds(feeds);
   }, []);
 
-  // Save attendance record to server
-  const saveAttendanceRecord = async (record: AttendanceRecord) => {
-    try {
-      await fetch(`${API_URL}/attendance`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: record.name,
-          timestamp: record.timestamp
-        }),
-      });
-    } catch (error) {
-      console.error('Error saving attendance record:', error);
+  const handleDetectorChange = useCallback((kind: DetectorKind) => {
+    setDetectorState(kind);
+    setDetector(kind);
+  }, []);
+
+  const handleFaceRecognized = useCallback((user: RegisteredUser, liveness: LivenessResult, match: FaceMatch, captureEvidence: () => EvidenceSnapshot) => {
+    const cooldownMs = settings.attendanceCooldownMinutes * 60 * 1000;
+    if (Date.now() - (lastLoggedTimestamps[user.id] || 0) < cooldownMs) {
+      return;
     }
-  };
+    // Snapshot while the video still shows the recognized face
+    const evidence = captureEvidence();
 
-  const handleFaceRecognized = useCallback((name: string) => {
     setAttendanceLog(prevLog => {
       const now = Date.now();
-      const lastLoggedTime = lastLoggedTimestamps[name] || 0;
+      const lastLoggedTime = lastLoggedTimestamps[user.id] || 0;
 
-      if (now - lastLoggedTime < ATTENDANCE_COOLDOWN_MS) {
+      if (now - lastLoggedTime < cooldownMs) {
         return prevLog;
       }
       
-      setLastLoggedTimestamps(prevTimestamps => ({ ...prevTimestamps, [name]: now }));
+      setLastLoggedTimestamps(prevTimestamps => ({ ...prevTimestamps, [user.id]: now }));
       
       const newRecord: AttendanceRecord = {
-        id: `${name}-${now}`,
-        name,
+        id: `${user.name}-${now}`,
+        name: user.name,
+        userId: user.id,
+        // Without a kiosk-picked session the server assigns whichever session is running
+        sessionId: activeSession && !activeSession.closedAt ? activeSession.id : null,
+        type: kioskMode === 'check-in' || kioskMode === 'check-out' ? kioskMode : null,
         timestamp: new Date(),
+        liveness,
+        thumbnailUrl: evidence.thumbnail,
+        recognition: {
+          ...match,
+          threshold: settings.matchThreshold,
+          deviceId: getDeviceId(),
+          appVersion: __APP_VERSION__,
+          model: recognitionModel(),
+        },
       };
       
-      const updatedLog = [newRecord, ...prevLog];
-      
       // Save to server
-      saveAttendanceRecord(newRecord);
-      
-      // Update CSV file with new record
-      updateCSV(updatedLog);
-      
-      return updatedLog;
+      saveAttendanceRecord(newRecord, kioskMode, evidence);
+
+      return [newRecord, ...prevLog];
     });
-  }, [lastLoggedTimestamps, updateCSV]);
+  }, [lastLoggedTimestamps, activeSession, kioskMode, settings]);
+
+  // Faces confirmed from an uploaded photo or video are logged at the time the file was taken. The
+  // cooldown does not apply: the user reviewed each one, and they may be hours in the past.
+  const handleUploadConfirmed = useCallback((faces: ConfirmedFace[]) => {
+    const newRecords: AttendanceRecord[] = faces.map(({ user, match, timestamp, evidence }) => ({
+      id: `${user.name}-${timestamp.getTime()}`,
+      name: user.name,
+      userId: user.id,
+      // Without a picked session the server assigns the one running when the file was taken
+      sessionId: activeSession && !activeSession.closedAt ? activeSession.id : null,
+      type: kioskMode === 'check-in' || kioskMode === 'check-out' ? kioskMode : null,
+      timestamp,
+      thumbnailUrl: evidence.thumbnail,
+      recognition: {
+        ...match,
+        threshold: settings.matchThreshold,
+        deviceId: getDeviceId(),
+        appVersion: __APP_VERSION__,
+        model: recognitionModel(),
+      },
+    }));
+    newRecords.forEach((record, i) => saveAttendanceRecord(record, kioskMode, faces[i].evidence));
+
+    setAttendanceLog(prevLog => [...newRecords, ...prevLog].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+  }, [activeSession, kioskMode, settings]);
+
+  // Unknown faces are reported once per tracked face, with the descriptor so the server can group
+  // sightings of the same person for an admin to enroll later
+  const handleUnknownFace = useCallback((face: UnknownFace, descriptor: Float32Array, captureEvidence: () => EvidenceSnapshot) => {
+    const now = Date.now();
+    const id = `unknown-${crypto.randomUUID()}`;
+    enqueue('/unknown-faces', {
+      id,
+      timestamp: new Date(now).toISOString(),
+      recognition: {
+        ...face,
+        threshold: settings.matchThreshold,
+        deviceId: getDeviceId(),
+        appVersion: __APP_VERSION__,
+        model: recognitionModel(),
+      },
+      descriptor: Array.from(descriptor),
+      evidence: captureEvidence(),
+    }, id).catch(error => console.error('Error queueing unknown face report:', error));
+  }, [settings]);
+
+  // Load registered users from server so every client shares one roster
+  const fetchRegisteredUsers = useCallback(async () => {
+    try {
+      setRegisteredUsers(await api.users.list());
+    } catch (error) {
+      console.error('Error fetching registered users:', error);
+    }
+  }, []);
 
   useEffect(() => {
-    // Load registered users from localStorage on mount (optional persistence)
-    const storedUsers = localStorage.getItem('registeredUsers');
-    if (storedUsers) {
-      try {
-        const parsedUsers: RegisteredUser[] = JSON.parse(storedUsers).map((user: any) => ({
-            ...user,
-            // Descriptors are plain arrays in JSON, convert back to Float32Array
-            descriptor: new Float32Array(Object.values(user.descriptor)) 
-        }));
-        setRegisteredUsers(parsedUsers);
-      } catch (error) {
-        console.error("Failed to load registered users from localStorage:", error);
-      }
+    if (principal?.permissions.includes('users:read')) fetchRegisteredUsers();
+  }, [principal, fetchRegisteredUsers]);
+
+  // Load scheduled sessions from server
+  const fetchSessions = useCallback(async () => {
+    try {
+      setSessions(await api.sessions.list());
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
     }
   }, []);
 
   useEffect(() => {
-    // Save registered users to localStorage when they change (optional persistence)
-    if (registeredUsers.length > 0) {
-      localStorage.setItem('registeredUsers', JSON.stringify(registeredUsers));
+    if (principal?.permissions.includes('sessions:read')) fetchSessions();
+  }, [principal, fetchSessions]);
+
+  // Settings are applied as soon as they arrive; until then the kiosk runs with the ones it last had
+  const refreshSettings = useCallback(async () => {
+    try {
+      setSettings(await fetchSettings());
+    } catch (error) {
+      console.error('Error fetching settings:', error);
     }
-  }, [registeredUsers]);
+  }, []);
 
-  const handleAttendanceRecord = (record: AttendanceRecord) => {
-    setAttendanceLog(prev => [record, ...prev]);
-  };
+  useEffect(() => {
+    if (principal?.permissions.includes('settings:read')) refreshSettings();
+  }, [principal, refreshSettings]);
+
+  // A manual entry, correction or void saved by an admin; the log stays newest first
+  const handleRecordChanged = useCallback((record: AttendanceRecord) => {
+    setAttendanceLog(prevLog => [record, ...prevLog.filter(r => r.id !== record.id)]
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+  }, []);
+
+  // Records erased along with a person; the log reloads so loaded pages drop them too
+  const handleRecordsDeleted = useCallback((isDeleted: (record: AttendanceRecord) => boolean) => {
+    setAttendanceLog(prevLog => prevLog.filter(record => !isDeleted(record)));
+    setAttendanceRefreshKey(key => key + 1);
+  }, []);
+
+  const handlePersonErased = useCallback((userId: string) => {
+    handleUserDeleted(userId);
+    handleRecordsDeleted(record => record.userId === userId);
+  }, [handleUserDeleted, handleRecordsDeleted]);
+
+  const handleSessionChanged = useCallback((session: Session) => {
+    setSessions(prevSessions => prevSessions.some(s => s.id === session.id)
+      ? prevSessions.map(s => s.id === session.id ? session : s)
+      : [...prevSessions, session]);
+  }, []);
+
+  // Changes made on other kiosks and admin screens show up here as they happen
+  const handleLiveEvent = useCallback((event: LiveEvent) => {
+    switch (event.type) {
+      case 'attendance.created':
+      case 'attendance.updated':
+        handleRecordChanged(event.record);
+        break;
+      case 'attendance.deleted':
+        handleRecordsDeleted(record => event.ids.includes(record.id));
+        break;
+      case 'person.created':
+      case 'person.updated':
+        fetchRegisteredUsers();
+        break;
+      case 'person.deleted':
+        handleUserDeleted(event.id);
+        break;
+      case 'session.created':
+      case 'session.updated':
+        handleSessionChanged(event.session);
+        break;
+      case 'session.deleted':
+        setSessions(prevSessions => prevSessions.filter(s => s.id !== event.id));
+        setActiveSessionId(prevId => prevId === event.id ? null : prevId);
+        break;
+      case 'settings.updated':
+        if (event.deviceId === null || event.deviceId === getDeviceId()) refreshSettings();
+        break;
+      case 'reset':
+        if (principal?.permissions.includes('users:read')) fetchRegisteredUsers();
+        if (principal?.permissions.includes('sessions:read')) fetchSessions();
+        if (principal?.permissions.includes('settings:read')) refreshSettings();
+        setAttendanceRefreshKey(key => key + 1);
+        break;
+    }
+  }, [principal, handleRecordChanged, handleRecordsDeleted, handleUserDeleted, handleSessionChanged, fetchRegisteredUsers, fetchSessions, refreshSettings]);
+
+  const handleLiveEventRef = useRef(handleLiveEvent);
+  handleLiveEventRef.current = handleLiveEvent;
+
+  useEffect(() => {
+    if (!principal) {
+      setLiveStatus(null);
+      return;
+    }
+    return connectLiveSync(event => handleLiveEventRef.current(event), setLiveStatus);
+  }, [principal]);
+
+  // Recognition runs on devices that may log attendance and can see who is enrolled
+  const canRecognize = can('attendance:write') && can('users:read');
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-700 text-gray-100 flex flex-col items-center p-2 sm:p-4 space-y-4 sm:space-y-6">
@@ -218,37 +359,131 @@ const App: React.FC = () => {
         <p className="text-slate-400 mt-2 text-sm sm:text-base">
           Automatically mark attendance using your webcam. Register faces and see live logging.
         </p>
+        {principal && (
+          <p className="mt-2 text-xs sm:text-sm text-slate-400">
+            {principal.kind === 'token' ? 'Kiosk' : 'Signed in as'} <span className="text-slate-200">{principal.name}</span> ({principal.role})
+            <button onClick={handleSignOut} className="ml-3 text-sky-400 hover:text-sky-300">Sign out</button>
+            {liveStatus && (
+              <span
+                className={`ml-3 ${liveStatus === 'live' ? 'text-green-400' : liveStatus === 'unavailable' ? 'text-slate-400' : 'text-yellow-400'}`}
+                title={liveStatus === 'unavailable' ? 'This server cannot push changes; reload to see changes from other devices' : 'Changes from other devices appear automatically while live'}
+              >
+                ● {liveStatus === 'live' ? 'Live' : liveStatus === 'connecting' ? 'Connecting...' : liveStatus === 'unavailable' ? 'Live updates off' : 'Reconnecting...'}
+              </span>
+            )}
+          </p>
+        )}
+        {pendingSyncCount > 0 && (
+          <p className="inline-block mt-2 px-3 py-1 rounded-full bg-yellow-700 bg-opacity-40 text-yellow-300 text-xs sm:text-sm">
+            ⏳ {pendingSyncCount} {pendingSyncCount === 1 ? 'record' : 'records'} pending sync
+          </p>
+        )}
       </header>
 
-      {!isModelsLoaded && (
-         <div className="w-full max-w-3xl p-4 sm:p-6 bg-slate-800 rounded-xl shadow-2xl text-center">
-            <div className="animate-pulse text-sky-400 text-sm sm:text-base">Loading AI Models... Please wait.</div>
-         </div>
-      )}
+      {!isAuthChecked ? (
+        <div className="animate-pulse text-sky-400 text-sm sm:text-base">Checking sign-in...</div>
+      ) : !principal ? (
+        <LoginScreen onSignedIn={setPrincipal} />
+      ) : (
+        <>
+          {canRecognize && !isModelsLoaded && (
+             <div className="w-full max-w-3xl p-4 sm:p-6 bg-slate-800 rounded-xl shadow-2xl text-center">
+                <div className="animate-pulse text-sky-400 text-sm sm:text-base">Loading AI Models... Please wait.</div>
+             </div>
+          )}
 
-      <div className={`w-full max-w-5xl grid grid-cols-1 md:grid-cols-3 gap-4 sm:gap-6 transition-opacity duration-500 ${isModelsLoaded ? 'opacity-100' : 'opacity-0 h-0 overflow-hidden'}`}>
-        <div className="md:col-span-2 bg-slate-800 p-3 sm:p-6 rounded-xl shadow-2xl">
-          <WebcamDisplay
-            onFaceRecognized={handleFaceRecognized}
-            registeredUsers={registeredUsers}
-            onModelsLoaded={setIsModelsLoaded}
-            isMobile={isMobile}
-            onAttendanceRecord={handleAttendanceRecord}
-          />
-        </div>
-        
-        <div className="space-y-4 sm:space-y-6">
-          <RegistrationPanel 
-            onFaceRegistered={handleFaceRegistered} 
-            isModelsLoaded={isModelsLoaded}
-            isMobile={isMobile}
-          />
-          <AttendanceTable 
-            attendanceLog={attendanceLog}
-            isMobile={isMobile}
-          />
-        </div>
-      </div>
+          <div className={`w-full max-w-5xl grid grid-cols-1 md:grid-cols-3 gap-4 sm:gap-6 transition-opacity duration-500 ${isModelsLoaded || !canRecognize ? 'opacity-100' : 'opacity-0 h-0 overflow-hidden'}`}>
+            {canRecognize && (
+              <div className="md:col-span-2 bg-slate-800 p-3 sm:p-6 rounded-xl shadow-2xl space-y-3">
+                <KioskModeSelector
+                  mode={kioskMode}
+                  onModeChange={setKioskMode}
+                />
+                <CameraSettings feeds={cameraFeeds} onFeedsChange={handleCameraFeedsChange} />
+                <DetectorSettings
+                  detector={detector}
+                  onDetectorChange={handleDetectorChange}
+                  feeds={cameraFeeds}
+                  minConfidence={settings.minConfidence}
+                />
+                <CameraFeeds
+                  feeds={cameraFeeds}
+                  onFaceRecognized={handleFaceRecognized}
+                  onUnknownFace={handleUnknownFace}
+                  onUploadConfirmed={handleUploadConfirmed}
+                  registeredUsers={registeredUsers}
+                  onModelsLoaded={setIsModelsLoaded}
+                  settings={settings}
+                  detector={detector}
+                  isMobile={isMobile}
+                />
+              </div>
+            )}
+
+            <div className={`space-y-4 sm:space-y-6 ${canRecognize ? '' : 'md:col-start-2'}`}>
+              {can('sessions:read') && (
+                <SessionPanel
+                  sessions={sessions}
+                  registeredUsers={registeredUsers}
+                  activeSessionId={activeSessionId}
+                  onActiveSessionChange={setActiveSessionId}
+                  onSessionChanged={handleSessionChanged}
+                  canManage={can('sessions:write')}
+                />
+              )}
+              {can('users:write') && (
+                <>
+                  <RegistrationPanel 
+                    registeredUsers={registeredUsers}
+                    onFaceRegistered={handleFaceRegistered} 
+                    onUserUpdated={handleUserUpdated}
+                    onUserDeleted={handleUserDeleted}
+                    isModelsLoaded={isModelsLoaded}
+                    minConfidence={settings.minConfidence}
+                    isMobile={isMobile}
+                  />
+                  <BulkImportPanel
+                    registeredUsers={registeredUsers}
+                    onUsersImported={handleUsersImported}
+                    isModelsLoaded={isModelsLoaded}
+                    minConfidence={settings.minConfidence}
+                  />
+                </>
+              )}
+              {can('attendance:read') && (
+                <AttendanceTable 
+                  attendanceLog={attendanceLog}
+                  registeredUsers={registeredUsers}
+                  isMobile={isMobile}
+                  canViewEvidence={can('evidence:read')}
+                  canEdit={can('attendance:edit')}
+                  onRecordChanged={handleRecordChanged}
+                  refreshKey={attendanceRefreshKey}
+                />
+              )}
+              {rollSession && (
+                <SessionRoll
+                  session={rollSession}
+                  attendanceLog={attendanceLog}
+                />
+              )}
+              {can('reports:read') && <ReportsPanel />}
+              {can('access:manage') && <AccessPanel principal={principal} />}
+              {can('users:write') && can('evidence:read') && (
+                <UnknownFacesPanel
+                  registeredUsers={registeredUsers}
+                  canBackfill={can('attendance:edit')}
+                  onUserEnrolled={(user) => handleUsersImported([user])}
+                  onRecordChanged={handleRecordChanged}
+                />
+              )}
+              {can('settings:manage') && <SettingsPanel />}
+              {can('privacy:manage') && <PrivacyPanel registeredUsers={registeredUsers} onPersonErased={handlePersonErased} />}
+              {can('webhooks:manage') && <WebhooksPanel />}
+            </div>
+          </div>
+        </>
+      )}
       
       <footer className="text-center text-slate-500 mt-auto pt-4 text-xs sm:text-sm">
         <p>Powered by React, Tailwind CSS, and face-api.js</p>
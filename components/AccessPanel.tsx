@@ -0,0 +1,172 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Account, ApiToken, Principal } from '../types';
+import { api } from '../services/api';
+
+interface AccessPanelProps {
+  principal: Principal;
+}
+
+// Staff accounts and kiosk API tokens, managed by admins
+const AccessPanel: React.FC<AccessPanelProps> = ({ principal }) => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<Account['role']>('viewer');
+  const [tokenName, setTokenName] = useState('');
+  const [newToken, setNewToken] = useState<ApiToken | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchAccess = useCallback(async () => {
+    try {
+      const [accounts, tokens] = await Promise.all([api.accounts.list(), api.tokens.list()]);
+      setAccounts(accounts);
+      setTokens(tokens);
+    } catch (error) {
+      console.error('Error fetching access settings:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAccess();
+  }, [fetchAccess]);
+
+  const run = async (action: () => Promise<void>) => {
+    setMessage(null);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error('Error updating access settings:', error);
+      setMessage(error.message || 'Request failed');
+    }
+  };
+
+  const createAccount = () => run(async () => {
+    const account = await api.accounts.create({ username: username.trim(), password, role });
+    setAccounts(prev => [...prev, account]);
+    setUsername('');
+    setPassword('');
+  });
+
+  const deleteAccount = (account: Account) => {
+    if (!window.confirm(`Delete the account ${account.username}?`)) return;
+    run(async () => {
+      await api.accounts.remove(account.id);
+      setAccounts(prev => prev.filter(a => a.id !== account.id));
+    });
+  };
+
+  const resetPassword = (account: Account) => {
+    const newPassword = window.prompt(`New password for ${account.username} (at least 8 characters):`);
+    if (!newPassword) return;
+    run(async () => {
+      await api.accounts.update(account.id, { password: newPassword });
+      setMessage(`✅ Password changed for ${account.username}.`);
+    });
+  };
+
+  const createToken = () => run(async () => {
+    const token = await api.tokens.create(tokenName.trim());
+    const { token: _secret, ...listed } = token;
+    setTokens(prev => [...prev, listed]);
+    setNewToken(token);
+    setTokenName('');
+  });
+
+  const revokeToken = (token: ApiToken) => {
+    if (!window.confirm(`Revoke the token for ${token.name}? That kiosk will stop logging attendance.`)) return;
+    run(async () => {
+      await api.tokens.remove(token.id);
+      setTokens(prev => prev.filter(t => t.id !== token.id));
+    });
+  };
+
+  const inputClassName = "px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm outline-none focus:ring-2 focus:ring-sky-500";
+
+  return (
+    <div className="bg-slate-800 p-4 sm:p-6 rounded-xl shadow-2xl space-y-4">
+      <h2 className="text-lg sm:text-xl font-semibold text-sky-300">Access</h2>
+
+      <div>
+        <h3 className="text-sm font-semibold text-sky-300 mb-2">Staff accounts</h3>
+        <ul className="max-h-40 overflow-y-auto divide-y divide-slate-700 rounded-md border border-slate-700 mb-2">
+          {accounts.map(account => (
+            <li key={account.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+              <span className="truncate text-slate-200">
+                {account.username}
+                <span className="ml-2 text-xs text-slate-500">{account.role}</span>
+              </span>
+              <div className="flex gap-3 shrink-0">
+                <button onClick={() => resetPassword(account)} className="text-sky-400 hover:text-sky-300 text-xs">Reset password</button>
+                {account.id !== principal.id && (
+                  <button onClick={() => deleteAccount(account)} className="text-red-400 hover:text-red-300 text-xs">Delete</button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+        <div className="grid grid-cols-2 gap-2">
+          <input type="text" value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Username" className={inputClassName} />
+          <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" className={inputClassName} />
+          <select value={role} onChange={(e) => setRole(e.target.value as Account['role'])} className={inputClassName}>
+            <option value="viewer">Viewer (reports)</option>
+            <option value="admin">Admin</option>
+          </select>
+          <button
+            onClick={createAccount}
+            disabled={!username.trim() || !password}
+            className="bg-sky-500 hover:bg-sky-600 text-white font-semibold py-1.5 px-3 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Add Account
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-sky-300 mb-2">Kiosk tokens</h3>
+        {tokens.length > 0 && (
+          <ul className="max-h-40 overflow-y-auto divide-y divide-slate-700 rounded-md border border-slate-700 mb-2">
+            {tokens.map(token => (
+              <li key={token.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                <span className="truncate text-slate-200">
+                  {token.name}
+                  <span className="ml-2 text-xs text-slate-500">{token.hint}…</span>
+                </span>
+                <button onClick={() => revokeToken(token)} className="text-red-400 hover:text-red-300 text-xs shrink-0">Revoke</button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={tokenName}
+            onChange={(e) => setTokenName(e.target.value)}
+            placeholder="Device name, e.g. Front door"
+            className={`flex-1 min-w-0 ${inputClassName}`}
+          />
+          <button
+            onClick={createToken}
+            disabled={!tokenName.trim()}
+            className="bg-sky-500 hover:bg-sky-600 text-white font-semibold py-1.5 px-3 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Create Token
+          </button>
+        </div>
+        {newToken && (
+          <div className="mt-2 p-2 rounded-md bg-slate-900 text-xs space-y-1">
+            <p className="text-yellow-300">Copy this token into the {newToken.name} kiosk now. It will not be shown again.</p>
+            <code className="block break-all text-slate-200 select-all">{newToken.token}</code>
+            <button onClick={() => setNewToken(null)} className="text-slate-400 hover:text-slate-300">Done</button>
+          </div>
+        )}
+      </div>
+
+      {message && (
+        <p className={`text-xs sm:text-sm p-2 rounded-md ${message.startsWith('✅') ? 'text-green-300' : 'text-red-300'}`}>{message}</p>
+      )}
+    </div>
+  );
+};
+
+export default AccessPanel;
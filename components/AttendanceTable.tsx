@@ -1,60 +1,166 @@
-import React, { useEffect, useState } from 'react';
-import { AttendanceRecord } from '../types';
+import React, { Fragment, useEffect, useMemo, useRef, useState } from 'react';
+import { AttendanceQuery, AttendanceRecord, RegisteredUser, ShiftDay, ShiftInterval } from '../types';
+import { BORDERLINE_MATCH_MARGIN } from '../constants';
+import { api } from '../services/api';
+import { evidenceUrl } from '../utils/evidence';
+import { mergeRecords } from '../utils/attendance';
+import EvidenceModal from './EvidenceModal';
+import RecordForm from './RecordForm';
+import RecordHistory from './RecordHistory';
+
+const formatLiveness = (record: AttendanceRecord) =>
+  record.liveness?.passed
+    ? `✓ Live (${record.liveness.method === 'blink' ? 'blink' : 'head movement'})`
+    : 'Not verified';
+
+const formatTime = (timestamp: string | null) =>
+  timestamp ? new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '?';
+
+const formatInterval = (interval: ShiftInterval) => `${formatTime(interval.checkIn)} - ${formatTime(interval.checkOut)}`;
+
+const formatType = (record: AttendanceRecord) =>
+  record.type === 'check-in' ? 'In' : record.type === 'check-out' ? 'Out' : '';
+
+const formatMatch = (record: AttendanceRecord) =>
+  record.recognition ? `${record.recognition.distance.toFixed(2)} / ${record.recognition.threshold.toFixed(2)}` : '';
+
+const SOURCE_LABELS: Record<NonNullable<AttendanceRecord['source']>, string> = {
+  manual: 'Manual',
+  backfill: 'Backfilled',
+};
+
+const SOURCE_TITLES: Record<NonNullable<AttendanceRecord['source']>, string> = {
+  manual: 'Entered by an admin',
+  backfill: 'Seen as an unknown face before this person was enrolled',
+};
+
+// Matches close to the threshold are the ones worth auditing
+const isBorderline = (record: AttendanceRecord) =>
+  Boolean(record.recognition && record.recognition.distance >= record.recognition.threshold - BORDERLINE_MATCH_MARGIN);
+
+const formatSource = (record: AttendanceRecord) => {
+  const recognition = record.recognition;
+  if (!recognition) return '';
+  return [
+    recognition.location && `Location: ${recognition.location}`,
+    recognition.camera && `Camera: ${recognition.camera}`,
+    record.recordedBy && `Recorded by: ${record.recordedBy.name}`,
+    `Detection score: ${recognition.detectionScore.toFixed(2)}`,
+    `Device: ${recognition.deviceId}`,
+    `App ${recognition.appVersion}, ${recognition.model}`,
+  ].filter(Boolean).join('\n');
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const formatVoid = (record: AttendanceRecord) =>
+  `Voided${record.voidedBy ? ` by ${record.voidedBy.name}` : ''}: ${record.voidReason}`;
 
 interface AttendanceTableProps {
   attendanceLog: AttendanceRecord[];
+  registeredUsers: RegisteredUser[];
   isMobile: boolean;
+  canViewEvidence: boolean;
+  canEdit: boolean;
+  onRecordChanged: (record: AttendanceRecord) => void;
+  refreshKey: number; // Changing it reloads the log from the server
 }
 
-const AttendanceTable: React.FC<AttendanceTableProps> = ({ attendanceLog, isMobile }) => {
-  const [attendanceLogState, setAttendanceLog] = useState<AttendanceRecord[]>(attendanceLog);
+const AttendanceTable: React.FC<AttendanceTableProps> = ({ attendanceLog, registeredUsers, isMobile, canViewEvidence, canEdit, onRecordChanged, refreshKey }) => {
+  const [view, setView] = useState<'log' | 'shifts'>('log');
+  const [shifts, setShifts] = useState<ShiftDay[]>([]);
+  const [evidenceRecord, setEvidenceRecord] = useState<AttendanceRecord | null>(null);
+  // The record open for inline editing or showing its history, if any
+  const [expanded, setExpanded] = useState<{ id: string; panel: 'edit' | 'history' } | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  // Server-side filters and the pages loaded for them so far
+  const [query, setQuery] = useState<AttendanceQuery>({ sort: 'newest', q: '' });
+  const [search, setSearch] = useState('');
+  const [loaded, setLoaded] = useState<AttendanceRecord[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // Bumped whenever the filters change so responses for old filters are dropped
+  const generationRef = useRef(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
+  const loadPage = async (cursor: string | null, generation: number) => {
+    setIsLoading(true);
+    try {
+      const page = await api.attendance.page(query, cursor);
+      if (generation !== generationRef.current) return;
+      setLoaded(prev => cursor ? [...prev, ...page.records] : page.records);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error fetching attendance page:', error);
+    } finally {
+      if (generation === generationRef.current) setIsLoading(false);
+    }
+  };
+
+  // Start over from the first page whenever the filters change or a reload is asked for
   useEffect(() => {
-    const fetchAttendance = async () => {
+    const generation = ++generationRef.current;
+    setLoaded([]);
+    setNextCursor(null);
+    scrollRef.current?.scrollTo({ top: 0 });
+    loadPage(null, generation);
+  }, [query, refreshKey]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(prev => prev.q === search ? prev : { ...prev, q: search }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Infinite scroll: load the next page once the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || isLoading) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadPage(nextCursor, generationRef.current);
+    }, { root: scrollRef.current });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, isLoading, query, view]);
+
+  // Records from the server plus anything logged or corrected in this browser since
+  const rows = useMemo(
+    () => mergeRecords(loaded, attendanceLog, query, Boolean(nextCursor)),
+    [loaded, attendanceLog, query, nextCursor]
+  );
+
+  const isFiltered = Boolean(query.q?.trim() || query.from || query.to);
+
+  // Paired check-in/check-out intervals, refreshed as new events are logged
+  useEffect(() => {
+    if (view !== 'shifts') return;
+
+    const fetchShifts = async () => {
       try {
-        const response = await fetch('/.netlify/functions/attendance');
-        if (!response.ok) throw new Error('Failed to fetch attendance records');
-        const data = await response.json();
-        setAttendanceLog(data);
+        setShifts(await api.shifts());
       } catch (error) {
-        console.error('Error fetching attendance:', error);
+        console.error('Error fetching shifts:', error);
       }
     };
 
-    fetchAttendance();
-  }, []);
+    fetchShifts();
+  }, [view, attendanceLog]);
 
+  // Exports are generated by the server's reporting endpoints, so the full log never has to be
+  // assembled in the browser
   const downloadCSV = () => {
-    if (attendanceLog.length === 0) {
-      alert("No attendance data to download.");
+    const hasData = view === 'log' ? rows.length > 0 : shifts.length > 0;
+    if (!hasData) {
+      alert(view === 'log' ? "No attendance data to download." : "No shift data to download.");
       return;
     }
 
     try {
-      // Format the data
-      const headers = "Name,Date,Time\n";
-      const rows = attendanceLog
-        .map(record => {
-          const date = record.timestamp.toLocaleDateString();
-          const time = record.timestamp.toLocaleTimeString();
-          return `"${record.name}","${date}","${time}"`;
-        })
-        .join("\n");
-      const csvContent = headers + rows;
-
-      // Create blob with BOM for Excel compatibility
-      const BOM = "\uFEFF";
-      const blob = new Blob([BOM + csvContent], { 
-        type: 'text/csv;charset=utf-8;' 
-      });
-
       // Create download link
       const link = document.createElement("a");
-      const url = URL.createObjectURL(blob);
-      
-      // Set link properties
-      link.setAttribute("href", url);
-      link.setAttribute("download", `attendance_log_${new Date().toISOString().split('T')[0]}.csv`);
+      // The export covers the date range picked in the filters
+      link.setAttribute("href", api.reportUrl(view === 'log' ? 'log' : 'shifts', { format: 'csv', from: query.from, to: query.to }));
+      link.setAttribute("download", "");
       
       // Handle mobile devices
       if (isMobile) {
@@ -70,28 +176,81 @@ const AttendanceTable: React.FC<AttendanceTableProps> = ({ attendanceLog, isMobi
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-
-      // Cleanup
-      setTimeout(() => {
-        URL.revokeObjectURL(url);
-      }, 100);
-
-      // Show success message
-      alert("Attendance log downloaded successfully!");
     } catch (error) {
       console.error("Error downloading CSV:", error);
       alert("Failed to download attendance log. Please try again.");
     }
   };
 
+  // Face thumbnail; admins can click it to open the full evidence
+  const renderThumbnail = (record: AttendanceRecord) => {
+    const url = evidenceUrl(record, 'thumbnail');
+    const image = url
+      ? <img src={url} alt="" className="w-10 h-10 rounded object-cover bg-slate-900" loading="lazy" />
+      : <div className="w-10 h-10 rounded bg-slate-700" />;
+    if (!canViewEvidence) return image;
+    return (
+      <button onClick={() => setEvidenceRecord(record)} title="Open evidence" className="shrink-0 hover:ring-2 hover:ring-sky-500 rounded">
+        {image}
+      </button>
+    );
+  };
+
+  const toggle = (id: string, panel: 'edit' | 'history') =>
+    setExpanded(current => current?.id === id && current.panel === panel ? null : { id, panel });
+
+  const handleSaved = (record: AttendanceRecord) => {
+    setExpanded(null);
+    setIsAdding(false);
+    onRecordChanged(record);
+  };
+
+  const renderActions = (record: AttendanceRecord) => (
+    <div className="flex gap-2 text-xs">
+      {canEdit && !record.voidedAt && (
+        <button onClick={() => toggle(record.id, 'edit')} className="text-sky-400 hover:text-sky-300">Edit</button>
+      )}
+      <button onClick={() => toggle(record.id, 'history')} className="text-slate-400 hover:text-slate-200">History</button>
+    </div>
+  );
+
+  const renderExpanded = (record: AttendanceRecord) => {
+    if (expanded?.id !== record.id) return null;
+    return expanded.panel === 'edit'
+      ? <RecordForm record={record} registeredUsers={registeredUsers} onSaved={handleSaved} onCancel={() => setExpanded(null)} />
+      : <RecordHistory recordId={record.id} />;
+  };
+
   return (
     <div className="bg-slate-800 p-4 sm:p-6 rounded-xl shadow-2xl">
+      {evidenceRecord && <EvidenceModal record={evidenceRecord} onClose={() => setEvidenceRecord(null)} />}
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 sm:gap-0 mb-3 sm:mb-4">
-        <h2 className="text-lg sm:text-xl font-semibold text-sky-300">Attendance Log</h2>
+        <div>
+          <h2 className="text-lg sm:text-xl font-semibold text-sky-300">Attendance Log</h2>
+          <div className="flex gap-2 mt-2">
+            {(['log', 'shifts'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-2 py-0.5 rounded text-xs ${view === option ? 'bg-sky-500 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+              >
+                {option === 'log' ? 'Log' : 'Shift Hours'}
+              </button>
+            ))}
+            {canEdit && view === 'log' && (
+              <button
+                onClick={() => setIsAdding(adding => !adding)}
+                className="px-2 py-0.5 rounded text-xs bg-slate-700 text-slate-300 hover:bg-slate-600"
+              >
+                + Mark present
+              </button>
+            )}
+          </div>
+        </div>
         <div className="flex flex-col items-end gap-2">
           <button
             onClick={downloadCSV}
-            disabled={attendanceLog.length === 0}
+            disabled={view === 'log' ? rows.length === 0 : shifts.length === 0}
             className="bg-green-500 hover:bg-green-600 text-white font-semibold py-2 px-3 sm:px-4 rounded-lg transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center sm:justify-start space-x-2 text-sm"
           >
             <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
@@ -104,19 +263,108 @@ const AttendanceTable: React.FC<AttendanceTableProps> = ({ attendanceLog, isMobi
           </p>
         </div>
       </div>
-      {attendanceLog.length === 0 ? (
-        <p className="text-slate-400 text-center py-4 text-sm sm:text-base">No attendance records yet. Recognized faces will appear here.</p>
+      {view === 'log' && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-3 text-sm">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name"
+            className="col-span-2 sm:col-span-1 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-slate-100 placeholder-slate-400 focus:ring-sky-500 focus:border-sky-500"
+          />
+          <input
+            type="date"
+            value={query.from || ''}
+            max={query.to || undefined}
+            onChange={(e) => setQuery(prev => ({ ...prev, from: e.target.value || undefined }))}
+            aria-label="From date"
+            className="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-slate-100 focus:ring-sky-500 focus:border-sky-500"
+          />
+          <input
+            type="date"
+            value={query.to || ''}
+            min={query.from || undefined}
+            onChange={(e) => setQuery(prev => ({ ...prev, to: e.target.value || undefined }))}
+            aria-label="To date"
+            className="px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-slate-100 focus:ring-sky-500 focus:border-sky-500"
+          />
+          <select
+            value={query.sort}
+            onChange={(e) => setQuery(prev => ({ ...prev, sort: e.target.value as AttendanceQuery['sort'] }))}
+            aria-label="Sort order"
+            className="col-span-2 sm:col-span-1 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-slate-100 focus:ring-sky-500 focus:border-sky-500"
+          >
+            <option value="newest">Newest first</option>
+            <option value="oldest">Oldest first</option>
+          </select>
+        </div>
+      )}
+      {isAdding && view === 'log' && (
+        <div className="mb-3">
+          <RecordForm record={null} registeredUsers={registeredUsers} onSaved={handleSaved} onCancel={() => setIsAdding(false)} />
+        </div>
+      )}
+      {view === 'shifts' ? (
+        shifts.length === 0 ? (
+          <p className="text-slate-400 text-center py-4 text-sm sm:text-base">No check-in/check-out records yet. Switch the kiosk to a shift mode to start tracking hours.</p>
+        ) : (
+          <div className="max-h-60 sm:max-h-80 overflow-y-auto rounded-md border border-slate-700 divide-y divide-slate-700">
+            {shifts.map(day => (
+              <div key={`${day.userId}-${day.date}`} className="p-3">
+                <div className="flex justify-between items-center">
+                  <span className="font-medium text-sky-300">{day.name}</span>
+                  <span className="text-sm text-slate-200">{day.totalHours.toFixed(2)} h</span>
+                </div>
+                <div className="text-xs text-slate-400 mt-1">{day.date}</div>
+                <ul className="text-xs text-slate-300 mt-1 space-y-0.5">
+                  {day.intervals.map((interval, index) => (
+                    <li key={index} className={interval.missingCheckOut || interval.missingCheckIn ? 'text-yellow-400' : ''}>
+                      {formatInterval(interval)}
+                      {interval.missingCheckOut && ' (missing check-out)'}
+                      {interval.missingCheckIn && ' (missing check-in)'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )
+      ) : rows.length === 0 ? (
+        <p className="text-slate-400 text-center py-4 text-sm sm:text-base">
+          {isLoading ? 'Loading records...' : isFiltered ? 'No records match these filters.' : 'No attendance records yet. Recognized faces will appear here.'}
+        </p>
       ) : (
-        <div className="max-h-60 sm:max-h-80 overflow-y-auto rounded-md border border-slate-700">
+        <div ref={scrollRef} className="max-h-60 sm:max-h-80 overflow-y-auto rounded-md border border-slate-700">
           {isMobile ? (
             // Mobile view: Card-based layout
             <div className="divide-y divide-slate-700">
-              {attendanceLog.map((record) => (
+              {rows.map((record) => (
                 <div key={record.id} className="p-3 hover:bg-slate-750 transition-colors">
-                  <div className="font-medium text-sky-300">{record.name}</div>
-                  <div className="text-xs text-slate-400 mt-1">
-                    {record.timestamp.toLocaleTimeString()} - {record.timestamp.toLocaleDateString()}
+                  <div className={`flex gap-3 ${record.voidedAt ? 'opacity-50' : ''}`}>
+                    {renderThumbnail(record)}
+                    <div className="flex-1 min-w-0">
+                      <div className={`font-medium text-sky-300 ${record.voidedAt ? 'line-through' : ''}`}>
+                        {record.name}
+                        {record.type && <span className="ml-2 text-xs text-slate-400">{formatType(record)}</span>}
+                        {record.source && <span className="ml-2 text-xs text-slate-400">{SOURCE_LABELS[record.source]}</span>}
+                      </div>
+                      <div className="text-xs text-slate-400 mt-1">
+                        {record.timestamp.toLocaleTimeString()} - {record.timestamp.toLocaleDateString()}
+                      </div>
+                      <div className={`text-xs mt-1 ${record.liveness?.passed ? 'text-green-400' : 'text-yellow-400'}`}>
+                        {formatLiveness(record)}
+                      </div>
+                      {record.recognition && (
+                        <div className={`text-xs mt-1 ${isBorderline(record) ? 'text-yellow-400' : 'text-slate-400'}`}>
+                          Match {formatMatch(record)}
+                          {record.recognition.location && ` · ${record.recognition.location}`}
+                        </div>
+                      )}
+                      {record.voidedAt && <div className="text-xs mt-1 text-red-300">{formatVoid(record)}</div>}
+                      <div className="mt-1">{renderActions(record)}</div>
+                    </div>
                   </div>
+                  {expanded?.id === record.id && <div className="mt-2">{renderExpanded(record)}</div>}
                 </div>
               ))}
             </div>
@@ -125,20 +373,48 @@ const AttendanceTable: React.FC<AttendanceTableProps> = ({ attendanceLog, isMobi
             <table className="w-full text-sm text-left text-slate-300">
               <thead className="text-xs text-sky-300 uppercase bg-slate-700 sticky top-0">
                 <tr>
+                  <th scope="col" className="px-4 py-3"><span className="sr-only">Photo</span></th>
                   <th scope="col" className="px-4 py-3">Name</th>
                   <th scope="col" className="px-4 py-3">Timestamp</th>
+                  <th scope="col" className="px-4 py-3">Type</th>
+                  <th scope="col" className="px-4 py-3">Liveness</th>
+                  <th scope="col" className="px-4 py-3">Match</th>
+                  <th scope="col" className="px-4 py-3">Location</th>
+                  <th scope="col" className="px-4 py-3"><span className="sr-only">Actions</span></th>
                 </tr>
               </thead>
               <tbody>
-                {attendanceLog.map((record) => (
-                  <tr key={record.id} className="bg-slate-800 border-b border-slate-700 hover:bg-slate-750 transition-colors">
-                    <td className="px-4 py-3 font-medium whitespace-nowrap">{record.name}</td>
-                    <td className="px-4 py-3">{record.timestamp.toLocaleTimeString()} - {record.timestamp.toLocaleDateString()}</td>
-                  </tr>
+                {rows.map((record) => (
+                  <Fragment key={record.id}>
+                    <tr
+                      className={`bg-slate-800 border-b border-slate-700 hover:bg-slate-750 transition-colors ${record.voidedAt ? 'opacity-50' : ''}`}
+                      title={record.voidedAt ? formatVoid(record) : undefined}
+                    >
+                      <td className="px-4 py-2">{renderThumbnail(record)}</td>
+                      <td className={`px-4 py-3 font-medium whitespace-nowrap ${record.voidedAt ? 'line-through' : ''}`}>
+                        {record.name}
+                        {record.source && <span className="ml-2 text-xs font-normal text-slate-400" title={SOURCE_TITLES[record.source]}>{SOURCE_LABELS[record.source]}</span>}
+                      </td>
+                      <td className="px-4 py-3">{record.timestamp.toLocaleTimeString()} - {record.timestamp.toLocaleDateString()}</td>
+                      <td className="px-4 py-3 text-xs">{formatType(record)}</td>
+                      <td className={`px-4 py-3 text-xs ${record.liveness?.passed ? 'text-green-400' : 'text-yellow-400'}`}>{formatLiveness(record)}</td>
+                      <td className={`px-4 py-3 text-xs whitespace-nowrap ${isBorderline(record) ? 'text-yellow-400' : ''}`} title={formatSource(record)}>{formatMatch(record)}</td>
+                      <td className="px-4 py-3 text-xs" title={formatSource(record)}>{record.recognition?.location || record.recordedBy?.name || ''}</td>
+                      <td className="px-4 py-3">{renderActions(record)}</td>
+                    </tr>
+                    {expanded?.id === record.id && (
+                      <tr className="bg-slate-800 border-b border-slate-700">
+                        <td colSpan={8} className="px-4 py-2">{renderExpanded(record)}</td>
+                      </tr>
+                    )}
+                  </Fragment>
                 ))}
               </tbody>
             </table>
           )}
+          <div ref={sentinelRef} className="py-2 text-center text-xs text-slate-500">
+            {isLoading ? 'Loading more...' : nextCursor ? '' : 'End of log'}
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,181 @@
+import React, { useState, useCallback } from 'react';
+import { RegisteredUser } from '../types';
+import { ImportRow, ImportStatus, analyzeRoster, collectPhotos, parseRoster } from '../utils/bulkImport';
+import { api } from '../services/api';
+
+interface BulkImportPanelProps {
+  registeredUsers: RegisteredUser[];
+  onUsersImported: (users: RegisteredUser[]) => void;
+  isModelsLoaded: boolean;
+  minConfidence: number;
+}
+
+const STATUS_LABELS: Record<ImportStatus, { label: string; className: string }> = {
+  'ok': { label: 'Ready', className: 'text-green-400' },
+  'duplicate': { label: 'Possible duplicate', className: 'text-yellow-400' },
+  'no-face': { label: 'No face', className: 'text-red-400' },
+  'multiple-faces': { label: 'Multiple faces', className: 'text-red-400' },
+  'missing-photo': { label: 'Missing photo', className: 'text-red-400' },
+  'unreadable': { label: 'Unreadable', className: 'text-red-400' },
+};
+
+const BulkImportPanel: React.FC<BulkImportPanelProps> = ({ registeredUsers, onUsersImported, isModelsLoaded, minConfidence }) => {
+  const [rosterFile, setRosterFile] = useState<File | null>(null);
+  const [photoFiles, setPhotoFiles] = useState<File[]>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [rosterErrors, setRosterErrors] = useState<string[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Dry run: match photos to the roster and check each one without saving anything
+  const analyze = useCallback(async () => {
+    setRows([]);
+    setRosterErrors([]);
+    setMessage(null);
+
+    try {
+      const { photos, rosterText: zippedRoster } = await collectPhotos(photoFiles);
+      const rosterText = rosterFile ? await rosterFile.text() : zippedRoster;
+      if (rosterText === null) {
+        setMessage('Please choose a roster CSV, or include one in the zip.');
+        return;
+      }
+
+      const { entries, errors } = parseRoster(rosterText);
+      setRosterErrors(errors);
+      if (entries.length === 0) return;
+
+      setProgress({ done: 0, total: entries.length });
+      setRows(await analyzeRoster(entries, photos, registeredUsers, minConfidence, done => setProgress({ done, total: entries.length })));
+    } catch (err: any) {
+      console.error('Error analyzing roster:', err);
+      setMessage(`Error reading files: ${err.message || 'Unknown error'}`);
+    } finally {
+      setProgress(null);
+    }
+  }, [photoFiles, rosterFile, registeredUsers]);
+
+  const importable = rows.filter(row => row.status === 'ok' || (includeDuplicates && row.status === 'duplicate'));
+
+  const enroll = useCallback(async () => {
+    setIsImporting(true);
+    setMessage(null);
+
+    try {
+      const { created, updated } = await api.users.import(importable.map(row => ({
+        externalId: row.entry.externalId,
+        name: row.entry.name,
+        group: row.entry.group || null,
+        descriptors: [Array.from(row.descriptor!)],
+      })));
+      onUsersImported([...created, ...updated]);
+      setRows([]);
+      setMessage(`✅ Enrolled ${created.length} new ${created.length === 1 ? 'person' : 'people'}, added samples for ${updated.length} existing.`);
+    } catch (err: any) {
+      console.error('Error importing roster:', err);
+      setMessage(`Error during import: ${err.message || 'Unknown error'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [importable, onUsersImported]);
+
+  const isAnalyzing = progress !== null;
+
+  return (
+    <div className="bg-slate-800 p-4 sm:p-6 rounded-xl shadow-2xl">
+      <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4 text-sky-300">Bulk Enrollment</h2>
+      <div className="space-y-3">
+        <label className="block text-xs text-slate-400">
+          Roster CSV (columns: id, name, group, optional photo)
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => setRosterFile(e.target.files?.[0] || null)}
+            className="block w-full mt-1 text-sm text-slate-300 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:bg-slate-700 file:text-slate-200"
+            disabled={isAnalyzing || isImporting}
+          />
+        </label>
+        <label className="block text-xs text-slate-400">
+          Photos or a zip archive (named by id, e.g. 1042.jpg or 1042_jane.jpg)
+          <input
+            type="file"
+            accept="image/*,.zip"
+            multiple
+            onChange={(e) => setPhotoFiles(Array.from(e.target.files || []))}
+            className="block w-full mt-1 text-sm text-slate-300 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:bg-slate-700 file:text-slate-200"
+            disabled={isAnalyzing || isImporting}
+          />
+        </label>
+        <button
+          onClick={analyze}
+          disabled={!isModelsLoaded || isAnalyzing || isImporting || photoFiles.length === 0}
+          className="w-full bg-sky-500 hover:bg-sky-600 text-white font-semibold py-2 px-4 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isAnalyzing ? `Checking photos... ${progress.done}/${progress.total}` : 'Check Photos'}
+        </button>
+
+        {rosterErrors.length > 0 && (
+          <ul className="text-xs text-red-300 space-y-0.5">
+            {rosterErrors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <div className="max-h-64 overflow-y-auto rounded-md border border-slate-700">
+              <table className="min-w-full text-xs">
+                <thead className="bg-slate-700 sticky top-0">
+                  <tr>
+                    <th className="px-2 py-1.5 text-left text-slate-300">Id</th>
+                    <th className="px-2 py-1.5 text-left text-slate-300">Name</th>
+                    <th className="px-2 py-1.5 text-left text-slate-300">Photo</th>
+                    <th className="px-2 py-1.5 text-left text-slate-300">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700">
+                  {rows.map(row => (
+                    <tr key={row.entry.externalId}>
+                      <td className="px-2 py-1.5 text-slate-400">{row.entry.externalId}</td>
+                      <td className="px-2 py-1.5 text-slate-200">{row.entry.name}</td>
+                      <td className="px-2 py-1.5 text-slate-400 truncate max-w-[8rem]">{row.fileName || '—'}</td>
+                      <td className="px-2 py-1.5">
+                        <span className={STATUS_LABELS[row.status].className}>{STATUS_LABELS[row.status].label}</span>
+                        {row.detail && <span className="block text-slate-500">{row.detail}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {rows.some(row => row.status === 'duplicate') && (
+              <label className="flex items-center gap-2 text-xs text-slate-400">
+                <input type="checkbox" checked={includeDuplicates} onChange={(e) => setIncludeDuplicates(e.target.checked)} />
+                Enroll possible duplicates anyway
+              </label>
+            )}
+            <button
+              onClick={enroll}
+              disabled={isImporting || importable.length === 0}
+              className="w-full bg-green-500 hover:bg-green-600 text-white font-semibold py-2 px-4 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting ? 'Enrolling...' : `Enroll ${importable.length} of ${rows.length}`}
+            </button>
+          </>
+        )}
+
+        {message && (
+          <p className={`text-xs sm:text-sm p-2 rounded-md ${message.startsWith('✅') ? 'text-green-300' : 'text-red-300'}`}>
+            {message}
+          </p>
+        )}
+      </div>
+      <p className="text-xs text-slate-500 mt-3">
+        Photos are checked in the browser before anything is saved. Each photo must show exactly one face. People already enrolled under the same id get the new photo added as a sample.
+      </p>
+    </div>
+  );
+};
+
+export default BulkImportPanel;
@@ -0,0 +1,121 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CameraFeed, ConfirmedFace, DetectorKind, EvidenceSnapshot, FaceMatch, LabeledFaceDescriptor, LivenessResult, RecognitionSettings, RegisteredUser, UnknownFace } from '../types';
+import { startDetector } from '../services/detector';
+import { loadModels as loadPageModels } from '../services/models';
+import WebcamDisplay from './WebcamDisplay';
+import UploadDisplay from './UploadDisplay';
+
+interface CameraFeedsProps {
+  feeds: CameraFeed[];
+  onFaceRecognized: (user: RegisteredUser, liveness: LivenessResult, match: FaceMatch, captureEvidence: () => EvidenceSnapshot) => void;
+  onUnknownFace: (face: UnknownFace, descriptor: Float32Array, captureEvidence: () => EvidenceSnapshot) => void;
+  onUploadConfirmed: (faces: ConfirmedFace[]) => void;
+  registeredUsers: RegisteredUser[];
+  onModelsLoaded: (loaded: boolean) => void;
+  settings: RecognitionSettings;
+  detector: DetectorKind;
+  isMobile: boolean;
+}
+
+const SOURCES: { value: 'cameras' | 'upload'; label: string }[] = [
+  { value: 'cameras', label: 'Cameras' },
+  { value: 'upload', label: 'Photo or Video' },
+];
+
+// Every camera of this kiosk side by side, or an uploaded photo or video instead. The models and the
+// matcher are shared by all of them. The page loads the models too, for enrollment and in case the
+// detection worker cannot run.
+const CameraFeeds: React.FC<CameraFeedsProps> = ({ feeds, onFaceRecognized, onUnknownFace, onUploadConfirmed, registeredUsers, onModelsLoaded, settings, detector, isMobile }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [source, setSource] = useState<'cameras' | 'upload'>('cameras');
+  const [faceMatcher, setFaceMatcher] = useState<any>(null);
+
+  // Loaded again whenever another detector is picked for this device
+  const loadModels = useCallback(async () => {
+    onModelsLoaded(false);
+    setError(null);
+    try {
+      await Promise.all([loadPageModels(detector), startDetector(detector)]);
+      onModelsLoaded(true);
+    } catch (err) {
+      console.error("Error loading models:", err);
+      setError("Failed to load AI models. They are not bundled with this app and have not been cached yet, so connect to the internet once and try refreshing.");
+      onModelsLoaded(false);
+    }
+  }, [onModelsLoaded, detector]);
+
+  useEffect(() => {
+    loadModels();
+  }, [loadModels]);
+
+  useEffect(() => {
+    if (registeredUsers.length > 0 && faceapi && faceapi.LabeledFaceDescriptors && faceapi.FaceMatcher) {
+      // Every enrollment sample of a person is matched, not just the first one
+      const labeledDescriptors: LabeledFaceDescriptor[] = registeredUsers
+        .filter(user => user.descriptors.length > 0)
+        .map(user => new faceapi.LabeledFaceDescriptors(user.id, user.descriptors));
+      if (labeledDescriptors.length > 0) {
+        setFaceMatcher(new faceapi.FaceMatcher(labeledDescriptors, settings.matchThreshold));
+      } else {
+        setFaceMatcher(null);
+      }
+    } else {
+      setFaceMatcher(null);
+    }
+  }, [registeredUsers, settings.matchThreshold]);
+
+  if (error) {
+    return (
+      <div className="text-red-400 bg-red-900 bg-opacity-50 p-4 rounded-lg text-sm sm:text-base">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs sm:text-sm text-slate-400">Source:</span>
+        {SOURCES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setSource(option.value)}
+            className={`px-3 py-1 rounded-full text-xs sm:text-sm transition-colors ${
+              source === option.value
+                ? 'bg-sky-500 text-white'
+                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {source === 'upload' ? (
+        <UploadDisplay
+          faceMatcher={faceMatcher}
+          registeredUsers={registeredUsers}
+          settings={settings}
+          onFacesConfirmed={onUploadConfirmed}
+        />
+      ) : (
+        <div className={`grid gap-3 ${feeds.length > 1 && !isMobile ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {feeds.map(feed => (
+            <WebcamDisplay
+              key={feed.id}
+              feed={feed}
+              faceMatcher={faceMatcher}
+              onFaceRecognized={onFaceRecognized}
+              onUnknownFace={onUnknownFace}
+              registeredUsers={registeredUsers}
+              settings={settings}
+              isMobile={isMobile}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraFeeds;
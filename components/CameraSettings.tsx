@@ -0,0 +1,91 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CameraFeed } from '../types';
+import { MAX_CAMERA_FEEDS } from '../constants';
+import { newCameraFeed } from '../services/device';
+
+interface CameraSettingsProps {
+  feeds: CameraFeed[];
+  onFeedsChange: (feeds: CameraFeed[]) => void;
+}
+
+// Which cameras this kiosk watches, and the location label each one puts on attendance records
+const CameraSettings: React.FC<CameraSettingsProps> = ({ feeds, onFeedsChange }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  // Browsers only reveal camera names once camera access has been granted, so the list is read
+  // again when the picker is opened
+  const refreshDevices = useCallback(async () => {
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      setDevices(all.filter(device => device.kind === 'videoinput' && device.deviceId));
+    } catch (error) {
+      console.error('Error listing cameras:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  const updateFeed = (id: string, changes: Partial<CameraFeed>) =>
+    onFeedsChange(feeds.map(feed => feed.id === id ? { ...feed, ...changes } : feed));
+
+  const addFeed = () => {
+    // Start with a camera none of the other feeds is using
+    const unused = devices.find(device => !feeds.some(feed => feed.deviceId === device.deviceId));
+    onFeedsChange([...feeds, newCameraFeed(unused ? unused.deviceId : null)]);
+  };
+
+  const removeFeed = (id: string) => onFeedsChange(feeds.filter(feed => feed.id !== id));
+
+  const cameraName = (device: MediaDeviceInfo, index: number) => device.label || `Camera ${index + 1}`;
+
+  const inputClassName = "px-2 py-1 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-xs sm:text-sm outline-none focus:ring-2 focus:ring-sky-500";
+
+  return (
+    <div className="space-y-2">
+      {feeds.map((feed, index) => (
+        <div key={feed.id} className="flex flex-wrap items-center gap-2 text-xs sm:text-sm text-slate-400">
+          <span>{feeds.length > 1 ? `Camera ${index + 1}:` : 'Camera:'}</span>
+          <select
+            value={feed.deviceId || ''}
+            onFocus={refreshDevices}
+            onChange={(e) => updateFeed(feed.id, { deviceId: e.target.value || null })}
+            className={`min-w-0 max-w-[14rem] ${inputClassName}`}
+          >
+            <option value="">Default camera</option>
+            {devices.map((device, deviceIndex) => (
+              <option
+                key={device.deviceId}
+                value={device.deviceId}
+                disabled={feeds.some(other => other.id !== feed.id && other.deviceId === device.deviceId)}
+              >
+                {cameraName(device, deviceIndex)}
+              </option>
+            ))}
+            {feed.deviceId && !devices.some(device => device.deviceId === feed.deviceId) && (
+              <option value={feed.deviceId}>Disconnected camera</option>
+            )}
+          </select>
+          <input
+            type="text"
+            value={feed.location}
+            onChange={(e) => updateFeed(feed.id, { location: e.target.value })}
+            placeholder="Location, e.g. Main entrance"
+            className={`w-44 ${inputClassName}`}
+          />
+          {feeds.length > 1 && (
+            <button onClick={() => removeFeed(feed.id)} className="text-red-400 hover:text-red-300">Remove</button>
+          )}
+        </div>
+      ))}
+      {feeds.length < MAX_CAMERA_FEEDS && (
+        <button onClick={addFeed} className="text-xs sm:text-sm text-sky-400 hover:text-sky-300">+ Add camera</button>
+      )}
+    </div>
+  );
+};
+
+export default CameraSettings;
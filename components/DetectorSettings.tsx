@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { CameraFeed, DetectorBenchmark, DetectorKind } from '../types';
+import { DETECTORS } from '../constants';
+import { benchmarkDetectors } from '../services/models';
+
+interface DetectorSettingsProps {
+  detector: DetectorKind;
+  onDetectorChange: (detector: DetectorKind) => void;
+  feeds: CameraFeed[];
+  minConfidence: number;
+}
+
+// One frame from a camera, so the benchmark runs on what this kiosk actually sees
+const captureFrame = async (deviceId: string | null) => {
+  const stream = await navigator.mediaDevices.getUserMedia({ video: deviceId ? { deviceId: { exact: deviceId } } : true });
+  try {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    await video.play();
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    return canvas;
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+  }
+};
+
+// Which face detector this kiosk runs, and a benchmark of each one on this device's hardware
+const DetectorSettings: React.FC<DetectorSettingsProps> = ({ detector, onDetectorChange, feeds, minConfidence }) => {
+  const [results, setResults] = useState<DetectorBenchmark[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const runBenchmark = async () => {
+    setIsRunning(true);
+    setMessage(null);
+    try {
+      const frame = await captureFrame(feeds[0]?.deviceId ?? null);
+      setResults(await benchmarkDetectors(frame, minConfidence));
+    } catch (error: any) {
+      console.error('Error benchmarking detectors:', error);
+      setMessage(error.message || 'Benchmark failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const inputClassName = "px-2 py-1 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-xs sm:text-sm outline-none focus:ring-2 focus:ring-sky-500";
+
+  return (
+    <div className="space-y-2 text-xs sm:text-sm text-slate-400">
+      <div className="flex flex-wrap items-center gap-2">
+        <span>Detector:</span>
+        <select
+          value={detector}
+          onChange={(e) => onDetectorChange(e.target.value as DetectorKind)}
+          title={DETECTORS[detector].hint}
+          className={inputClassName}
+        >
+          {(Object.keys(DETECTORS) as DetectorKind[]).map(kind => (
+            <option key={kind} value={kind}>{DETECTORS[kind].label}</option>
+          ))}
+        </select>
+        <button onClick={runBenchmark} disabled={isRunning} className="text-sky-400 hover:text-sky-300 disabled:opacity-50">
+          {isRunning ? 'Benchmarking...' : 'Benchmark'}
+        </button>
+      </div>
+
+      {results && (
+        <table className="text-left">
+          <thead className="text-slate-500">
+            <tr>
+              <th className="pr-4 font-normal">Detector</th>
+              <th className="pr-4 font-normal">Median</th>
+              <th className="pr-4 font-normal">95th pct.</th>
+              <th className="font-normal">Faces</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-300">
+            {results.map(result => (
+              <tr key={result.detector} className={result.detector === detector ? 'text-sky-300' : ''}>
+                <td className="pr-4">{DETECTORS[result.detector].label}</td>
+                {result.error ? (
+                  <td colSpan={3} className="text-red-300">{result.error}</td>
+                ) : (
+                  <>
+                    <td className="pr-4">{result.medianMs} ms</td>
+                    <td className="pr-4">{result.p95Ms} ms</td>
+                    <td>{result.faces}</td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {results && (
+        <p className="text-slate-500">Per frame, including landmarks and descriptors, measured in the page on one camera frame.</p>
+      )}
+      {message && <p className="text-red-300">{message}</p>}
+    </div>
+  );
+};
+
+export default DetectorSettings;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { AttendanceRecord } from '../types';
+import { evidenceUrl } from '../utils/evidence';
+
+interface EvidenceModalProps {
+  record: AttendanceRecord;
+  onClose: () => void;
+}
+
+// Everything captured when a record was logged, for settling disputes
+const EvidenceModal: React.FC<EvidenceModalProps> = ({ record, onClose }) => {
+  const thumbnail = evidenceUrl(record, 'thumbnail');
+  const frame = evidenceUrl(record, 'frame');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-70 p-4" onClick={onClose}>
+      <div className="w-full max-w-2xl bg-slate-800 rounded-xl shadow-2xl p-4 sm:p-6 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-lg font-semibold text-sky-300">{record.name}</h2>
+            <p className="text-xs text-slate-400">
+              {record.timestamp.toLocaleString()}
+              {record.liveness?.passed && ` · liveness verified by ${record.liveness.method === 'blink' ? 'blink' : 'head movement'}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-200 text-sm">Close</button>
+        </div>
+        {!thumbnail && !frame ? (
+          <p className="text-sm text-slate-400">No evidence was captured for this record.</p>
+        ) : (
+          <div className="flex flex-col sm:flex-row gap-3">
+            {thumbnail && (
+              <img src={thumbnail} alt={`Face of ${record.name}`} className="w-40 h-40 rounded-lg object-cover bg-slate-900" />
+            )}
+            {frame && (
+              <img src={frame} alt="Full camera frame" className="flex-1 min-w-0 rounded-lg bg-slate-900" />
+            )}
+          </div>
+        )}
+        {record.evidence?.capturedAt && (
+          <p className="text-xs text-slate-500">Stored {new Date(record.evidence.capturedAt).toLocaleString()}. Evidence is deleted after the retention period.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EvidenceModal;
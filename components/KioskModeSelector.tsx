@@ -0,0 +1,40 @@
+import React from 'react';
+import { KioskMode } from '../types';
+
+interface KioskModeSelectorProps {
+  mode: KioskMode;
+  onModeChange: (mode: KioskMode) => void;
+}
+
+const MODES: { value: KioskMode; label: string }[] = [
+  { value: 'attendance', label: 'Attendance' },
+  { value: 'auto', label: 'Shift (auto)' },
+  { value: 'check-in', label: 'Check In' },
+  { value: 'check-out', label: 'Check Out' },
+];
+
+const KioskModeSelector: React.FC<KioskModeSelectorProps> = ({ mode, onModeChange }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs sm:text-sm text-slate-400">Kiosk mode:</span>
+      {MODES.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onModeChange(option.value)}
+          className={`px-3 py-1 rounded-full text-xs sm:text-sm transition-colors ${
+            mode === option.value
+              ? 'bg-sky-500 text-white'
+              : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+      {mode === 'auto' && (
+        <span className="text-xs text-slate-500 w-full">Each person alternates between check-in and check-out.</span>
+      )}
+    </div>
+  );
+};
+
+export default KioskModeSelector;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Principal } from '../types';
+import { login, pairKiosk } from '../services/auth';
+
+interface LoginScreenProps {
+  onSignedIn: (principal: Principal) => void;
+}
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ onSignedIn }) => {
+  const [method, setMethod] = useState<'password' | 'kiosk'>('password');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [token, setToken] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setMessage(null);
+
+    try {
+      onSignedIn(method === 'password' ? await login(username.trim(), password) : await pairKiosk(token.trim()));
+    } catch (error: any) {
+      console.error('Sign-in error:', error);
+      setMessage(error.message || 'Sign-in failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName = "w-full px-3 sm:px-4 py-2 sm:py-2.5 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm sm:text-base focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-colors";
+
+  return (
+    <div className="w-full max-w-sm bg-slate-800 p-4 sm:p-6 rounded-xl shadow-2xl">
+      <div className="flex gap-1 p-1 mb-4 bg-slate-900 rounded-lg">
+        {(['password', 'kiosk'] as const).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => { setMethod(option); setMessage(null); }}
+            className={`flex-1 py-1.5 rounded-md text-sm font-medium transition-colors ${method === option ? 'bg-sky-500 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            {option === 'password' ? 'Staff sign-in' : 'Kiosk device'}
+          </button>
+        ))}
+      </div>
+      <form onSubmit={submit} className="space-y-3">
+        {method === 'password' ? (
+          <>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Username"
+              autoComplete="username"
+              className={inputClassName}
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete="current-password"
+              className={inputClassName}
+            />
+          </>
+        ) : (
+          <>
+            <input
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder="kiosk_..."
+              className={inputClassName}
+            />
+            <p className="text-xs text-slate-500">
+              Paste the API token an admin created for this device. It stays on this device until you sign out.
+            </p>
+          </>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting || (method === 'password' ? !username.trim() || !password : !token.trim())}
+          className="w-full bg-sky-500 hover:bg-sky-600 text-white font-semibold py-2 sm:py-2.5 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm sm:text-base"
+        >
+          {isSubmitting ? 'Signing in...' : method === 'password' ? 'Sign In' : 'Pair Kiosk'}
+        </button>
+        {message && <p className="text-xs sm:text-sm p-2 rounded-md text-red-300">{message}</p>}
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
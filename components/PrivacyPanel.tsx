@@ -0,0 +1,148 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ErasureReceipt, PrivacyPolicy, RegisteredUser } from '../types';
+import { api } from '../services/api';
+
+interface PrivacyPanelProps {
+  registeredUsers: RegisteredUser[];
+  onPersonErased: (userId: string) => void;
+}
+
+const RECEIPTS_SHOWN = 10;
+
+// What an erasure removed, in words
+const describeErasure = ({ erased }: ErasureReceipt) => [
+  `${erased.descriptors} face ${erased.descriptors === 1 ? 'sample' : 'samples'}`,
+  `${erased.attendanceRecords} ${erased.attendanceRecords === 1 ? 'record' : 'records'}`,
+  `${erased.evidenceImages} ${erased.evidenceImages === 1 ? 'image' : 'images'}`,
+  `${erased.auditEntries + erased.auditEntriesRedacted} history ${erased.auditEntries + erased.auditEntriesRedacted === 1 ? 'entry' : 'entries'}`,
+  `${erased.sessions} ${erased.sessions === 1 ? 'session' : 'sessions'}`,
+  `${erased.webhookDeliveries + erased.liveEvents} queued ${erased.webhookDeliveries + erased.liveEvents === 1 ? 'event' : 'events'}`,
+].join(', ');
+
+// Retention limits, and exporting or erasing everything held about one person for access and
+// erasure requests. Erasures leave receipts that say what was removed without naming anyone.
+const PrivacyPanel: React.FC<PrivacyPanelProps> = ({ registeredUsers, onPersonErased }) => {
+  const [policy, setPolicy] = useState<PrivacyPolicy | null>(null);
+  const [receipts, setReceipts] = useState<ErasureReceipt[]>([]);
+  const [userId, setUserId] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchPrivacy = useCallback(async () => {
+    try {
+      const [nextPolicy, nextReceipts] = await Promise.all([api.privacy.policy(), api.privacy.receipts()]);
+      setPolicy(nextPolicy);
+      setReceipts(nextReceipts);
+    } catch (error) {
+      console.error('Error fetching privacy settings:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPrivacy();
+  }, [fetchPrivacy]);
+
+  const run = async (action: () => Promise<void>) => {
+    setMessage(null);
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error('Error updating personal data:', error);
+      setMessage(error.message || 'Request failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const purge = () => run(async () => {
+    const result = await api.privacy.purge();
+    setMessage(`✅ Removed ${result.attendanceRecords} records, ${result.unknownSightings} unknown-face sightings and ` +
+      `${result.sessions} closed sessions from before ${new Date(result.cutoff).toLocaleDateString()}.`);
+  });
+
+  const erase = () => {
+    const user = registeredUsers.find(u => u.id === userId);
+    if (!user) return;
+    if (!window.confirm(`Erase everything held about ${user.name}? Their face samples, attendance records, images and history are deleted for good.`)) return;
+    run(async () => {
+      const receipt = await api.privacy.erase(user.id);
+      onPersonErased(user.id);
+      setReceipts(prev => [receipt, ...prev]);
+      setUserId('');
+      setMessage(`✅ Erased ${user.name}: ${describeErasure(receipt)}. Receipt ${receipt.id}.`);
+    });
+  };
+
+  const inputClassName = "px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm outline-none focus:ring-2 focus:ring-sky-500";
+
+  return (
+    <div className="bg-slate-800 p-4 sm:p-6 rounded-xl shadow-2xl space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg sm:text-xl font-semibold text-sky-300">Privacy</h2>
+        <button onClick={fetchPrivacy} className="text-xs text-sky-400 hover:text-sky-300">Refresh</button>
+      </div>
+
+      {policy && (
+        <div className="text-sm text-slate-300 space-y-1">
+          <p>
+            {policy.attendanceRetentionDays
+              ? `Attendance records and unknown-face sightings are deleted after ${policy.attendanceRetentionDays} days.`
+              : 'Attendance records are kept until someone is erased (no ATTENDANCE_RETENTION_DAYS set).'}
+            {policy.attendanceRetentionDays && (
+              <button onClick={purge} disabled={isBusy} className="ml-2 text-xs text-sky-400 hover:text-sky-300 disabled:opacity-50">Purge now</button>
+            )}
+          </p>
+          <p>Evidence images are deleted after {policy.evidenceRetentionDays} days.</p>
+          <p>
+            Face samples are encrypted at rest
+            {policy.descriptorKeySource === 'file'
+              ? <span className="text-amber-300"> with a key kept beside the data; set DESCRIPTOR_KEY on the server to keep it apart.</span>
+              : ' with the server\'s DESCRIPTOR_KEY.'}
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-slate-200">One person's data</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={userId} onChange={(e) => setUserId(e.target.value)} className={inputClassName}>
+            <option value="">Choose a person</option>
+            {registeredUsers.map(user => (
+              <option key={user.id} value={user.id}>{user.name}</option>
+            ))}
+          </select>
+          {userId && (
+            <>
+              <a href={api.privacy.exportUrl(userId)} className="text-xs text-sky-400 hover:text-sky-300">Export</a>
+              <button onClick={erase} disabled={isBusy} className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50">Erase</button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {message && (
+        <p className={`text-xs sm:text-sm p-2 rounded-md break-words ${message.startsWith('✅') ? 'text-green-300' : 'text-red-300'}`}>{message}</p>
+      )}
+
+      {receipts.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-slate-200">Erasure receipts</h3>
+          <ul className="divide-y divide-slate-700 rounded-md border border-slate-700">
+            {receipts.slice(0, RECEIPTS_SHOWN).map(receipt => (
+              <li key={receipt.id} className="px-3 py-2 text-xs text-slate-400 space-y-0.5">
+                <p className="text-slate-300">
+                  {new Date(receipt.erasedAt).toLocaleString()}{receipt.erasedBy && ` by ${receipt.erasedBy.name}`}
+                </p>
+                <p>{describeErasure(receipt)}</p>
+                <p className="font-mono text-slate-500">Receipt {receipt.id} · person {receipt.personId}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrivacyPanel;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { AttendanceCorrection, AttendanceEventType, AttendanceRecord, RegisteredUser } from '../types';
+import { api } from '../services/api';
+import { toLocalInputValue } from '../utils/attendance';
+
+const OTHER_PERSON = '__other__';
+
+interface RecordFormProps {
+  record: AttendanceRecord | null; // null marks someone present by hand
+  registeredUsers: RegisteredUser[];
+  onSaved: (record: AttendanceRecord) => void;
+  onCancel: () => void;
+}
+
+// Admin form for a manual record or a correction; every save needs a reason for the audit log
+const RecordForm: React.FC<RecordFormProps> = ({ record, registeredUsers, onSaved, onCancel }) => {
+  const initialPerson = record ? (record.userId || OTHER_PERSON) : '';
+  const initialTime = toLocalInputValue(record ? record.timestamp : new Date());
+  const initialType = record?.type || '';
+
+  const [person, setPerson] = useState(initialPerson);
+  const [name, setName] = useState(record && !record.userId ? record.name : '');
+  const [time, setTime] = useState(initialTime);
+  const [type, setType] = useState<AttendanceEventType | ''>(initialType);
+  const [reason, setReason] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Only what changed is sent, so an untouched person stays linked to their enrollment
+  const buildCorrection = (): AttendanceCorrection => {
+    const correction: AttendanceCorrection = { reason: reason.trim() };
+    const personChanged = !record || person !== initialPerson || (person === OTHER_PERSON && name.trim() !== record.name);
+    if (personChanged) {
+      if (person === OTHER_PERSON) correction.name = name.trim();
+      else correction.userId = person;
+    }
+    if (!record || time !== initialTime) correction.timestamp = new Date(time).toISOString();
+    if (!record || type !== initialType) correction.type = type || null;
+    return correction;
+  };
+
+  const run = async (action: () => Promise<AttendanceRecord>) => {
+    if (!reason.trim()) {
+      setMessage('Please give a reason for the audit log.');
+      return;
+    }
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      onSaved(await action());
+    } catch (error: any) {
+      console.error('Error saving attendance correction:', error);
+      setMessage(error.message || 'Error saving. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!person || (person === OTHER_PERSON && !name.trim())) {
+      setMessage('Please choose a person.');
+      return;
+    }
+    if (!time) {
+      setMessage('Please enter a time.');
+      return;
+    }
+    const correction = buildCorrection();
+    run(() => record ? api.attendance.correct(record.id, correction) : api.attendance.markPresent(correction));
+  };
+
+  const handleVoid = () => {
+    if (!record) return;
+    run(() => api.attendance.void(record.id, reason.trim()));
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-md text-slate-100 text-sm focus:ring-sky-500 focus:border-sky-500';
+
+  return (
+    <form onSubmit={handleSave} className="space-y-2 p-3 bg-slate-900 bg-opacity-50 rounded-md text-sm">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <select value={person} onChange={(e) => setPerson(e.target.value)} className={inputClass} disabled={isSaving}>
+          {!record && <option value="">Choose a person...</option>}
+          {registeredUsers.map(user => (
+            <option key={user.id} value={user.id}>{user.name}</option>
+          ))}
+          <option value={OTHER_PERSON}>Someone not enrolled...</option>
+        </select>
+        <input
+          type="datetime-local"
+          value={time}
+          onChange={(e) => setTime(e.target.value)}
+          className={inputClass}
+          disabled={isSaving}
+        />
+        <select value={type} onChange={(e) => setType(e.target.value as AttendanceEventType | '')} className={inputClass} disabled={isSaving}>
+          <option value="">Attendance</option>
+          <option value="check-in">Check-in</option>
+          <option value="check-out">Check-out</option>
+        </select>
+      </div>
+      {person === OTHER_PERSON && (
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          className={inputClass}
+          disabled={isSaving}
+        />
+      )}
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder={record ? 'Reason for the change' : 'Reason, e.g. camera missed them'}
+        className={inputClass}
+        disabled={isSaving}
+      />
+      {message && <p className="text-xs text-red-300">{message}</p>}
+      <div className="flex gap-2">
+        <button type="submit" disabled={isSaving} className="px-3 py-1 rounded bg-sky-500 hover:bg-sky-600 text-white text-xs disabled:opacity-50">
+          {record ? 'Save correction' : 'Mark present'}
+        </button>
+        {record && (
+          <button type="button" onClick={handleVoid} disabled={isSaving} className="px-3 py-1 rounded bg-red-600 hover:bg-red-700 text-white text-xs disabled:opacity-50">
+            Void record
+          </button>
+        )}
+        <button type="button" onClick={onCancel} disabled={isSaving} className="px-3 py-1 rounded bg-slate-600 hover:bg-slate-500 text-slate-100 text-xs disabled:opacity-50">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default RecordForm;
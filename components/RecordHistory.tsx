@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { AuditEntry } from '../types';
+import { api } from '../services/api';
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  type: 'Type',
+  sessionId: 'Session',
+  timestamp: 'Time',
+};
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  create: 'created',
+  edit: 'edited',
+  void: 'voided',
+};
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === '') return '(none)';
+  if (field === 'timestamp') return new Date(String(value)).toLocaleString();
+  return String(value);
+};
+
+interface RecordHistoryProps {
+  recordId: string;
+}
+
+// Audit trail of one record: who created, edited or voided it, when and why
+const RecordHistory: React.FC<RecordHistoryProps> = ({ recordId }) => {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.attendance.history(recordId)
+      .then(setEntries)
+      .catch(error => {
+        console.error('Error fetching record history:', error);
+        setMessage('Could not load the history of this record.');
+      });
+  }, [recordId]);
+
+  if (message) return <p className="p-3 text-xs text-red-300">{message}</p>;
+  if (!entries) return <p className="p-3 text-xs text-slate-400">Loading history...</p>;
+  if (entries.length === 0) return <p className="p-3 text-xs text-slate-400">No changes recorded for this record.</p>;
+
+  return (
+    <ol className="p-3 space-y-2 text-xs text-slate-300 bg-slate-900 bg-opacity-50 rounded-md">
+      {entries.map(entry => (
+        <li key={entry.id}>
+          <div>
+            <span className="text-slate-400">{new Date(entry.at).toLocaleString()}</span>
+            {' · '}
+            <span className="text-slate-200">{entry.actor?.name || 'Unknown'}</span> {ACTION_LABELS[entry.action]} the record
+          </div>
+          {entry.changes && Object.entries(entry.changes)
+            .filter(([field]) => FIELD_LABELS[field])
+            .map(([field, change]) => (
+              <div key={field} className="pl-3 text-slate-400">
+                {FIELD_LABELS[field]}: {formatValue(field, change.from)} → <span className="text-slate-200">{formatValue(field, change.to)}</span>
+              </div>
+            ))}
+          {entry.reason && <div className="pl-3 italic text-slate-400">“{entry.reason}”</div>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default RecordHistory;
@@ -1,82 +1,156 @@
 import React, { useState, useRef, useCallback } from 'react';
-import { MIN_CONFIDENCE } from '../constants';
+import { RegisteredUser } from '../types';
+import {
+  ENROLLMENT_PROMPTS,
+  ENROLLMENT_SAMPLE_DELAY_MS,
+  ENROLLMENT_MAX_ATTEMPTS,
+  ENROLLMENT_MIN_SAMPLES
+} from '../constants';
+import { api } from '../services/api';
+import { detectorOptions, modelsReady } from '../services/models';
 
 interface RegistrationPanelProps {
-  onFaceRegistered: (name: string, descriptor: Float32Array) => void;
+  registeredUsers: RegisteredUser[];
+  onFaceRegistered: (user: RegisteredUser) => void;
+  onUserUpdated: (user: RegisteredUser) => void;
+  onUserDeleted: (id: string) => void;
   isModelsLoaded: boolean;
+  minConfidence: number;
   isMobile: boolean;
 }
 
 const RegistrationPanel: React.FC<RegistrationPanelProps> = ({ 
+  registeredUsers,
   onFaceRegistered, 
+  onUserUpdated,
+  onUserDeleted,
   isModelsLoaded,
+  minConfidence,
   isMobile 
 }) => {
   const [name, setName] = useState('');
   const [message, setMessage] = useState<string | null>(null);
   const [isRegistering, setIsRegistering] = useState(false);
-  const tempVideoRef = useRef<HTMLVideoElement | null>(null);
+  const [enrollmentPrompt, setEnrollmentPrompt] = useState<string | null>(null);
+  const [editingUserId, setEditingUserId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const previewVideoRef = useRef<HTMLVideoElement | null>(null);
 
-  const captureAndRegister = useCallback(async () => {
-    if (!name.trim()) {
-      setMessage('Please enter a name.');
-      return;
+  const renameUser = async (id: string) => {
+    const newName = editingName.trim();
+    if (!newName) return;
+    try {
+      onUserUpdated(await api.users.rename(id, newName));
+      setEditingUserId(null);
+    } catch (error) {
+      console.error('Error renaming user:', error);
+      setMessage('Error renaming user. Please try again.');
+    }
+  };
+
+  const deleteUser = async (user: RegisteredUser) => {
+    if (!window.confirm(`Remove ${user.name} from the registered faces?`)) return;
+    try {
+      await api.users.remove(user.id);
+      onUserDeleted(user.id);
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      setMessage('Error deleting user. Please try again.');
+    }
+  };
+
+  // Walk the person through ENROLLMENT_PROMPTS, capturing one descriptor per prompt
+  const captureSamples = useCallback(async (): Promise<Float32Array[]> => {
+    const constraints = {
+      video: {
+        facingMode: isMobile ? 'environment' : 'user',
+        width: { ideal: isMobile ? 1280 : 1920 },
+        height: { ideal: isMobile ? 720 : 1080 }
+      }
+    };
+    const stream = await navigator.mediaDevices.getUserMedia(constraints);
+    const videoEl = previewVideoRef.current;
+
+    try {
+      if (!videoEl) {
+        throw new Error('Camera preview is not available');
+      }
+      videoEl.srcObject = stream;
+      await new Promise(resolve => videoEl.onloadedmetadata = resolve);
+      await videoEl.play();
+
+      const samples: Float32Array[] = [];
+      for (let i = 0; i < ENROLLMENT_PROMPTS.length; i++) {
+        setEnrollmentPrompt(`${i + 1}/${ENROLLMENT_PROMPTS.length}: ${ENROLLMENT_PROMPTS[i]}`);
+        await new Promise(resolve => setTimeout(resolve, ENROLLMENT_SAMPLE_DELAY_MS));
+
+        for (let attempt = 0; attempt < ENROLLMENT_MAX_ATTEMPTS; attempt++) {
+          const detection = await faceapi.detectSingleFace(videoEl, detectorOptions(minConfidence))
+            .withFaceLandmarks()
+            .withFaceDescriptor();
+          if (detection) {
+            samples.push(detection.descriptor);
+            break;
+          }
+          await new Promise(resolve => setTimeout(resolve, 300));
+        }
+      }
+      return samples;
+    } finally {
+      stream.getTracks().forEach(track => track.stop());
+      if (videoEl) {
+        videoEl.srcObject = null;
+      }
+      setEnrollmentPrompt(null);
     }
-    if (!isModelsLoaded || !faceapi || !faceapi.nets.ssdMobilenetv1.isLoaded) {
+  }, [isMobile]);
+
+  const runEnrollment = useCallback(async (save: (samples: Float32Array[]) => Promise<string>) => {
+    if (!isModelsLoaded || !faceapi || !modelsReady()) {
       setMessage('Models not loaded yet. Please wait.');
       return;
     }
 
     setIsRegistering(true);
-    setMessage('Attempting to capture face...');
+    setMessage(null);
 
-    let stream: MediaStream | null = null;
     try {
-      const constraints = {
-        video: {
-          facingMode: isMobile ? 'environment' : 'user',
-          width: { ideal: isMobile ? 1280 : 1920 },
-          height: { ideal: isMobile ? 720 : 1080 }
-        }
-      };
-      stream = await navigator.mediaDevices.getUserMedia(constraints);
-      
-      const videoEl = document.createElement('video');
-      videoEl.srcObject = stream;
-      videoEl.autoplay = true;
-      videoEl.muted = true;
-      videoEl.playsInline = true;
-      tempVideoRef.current = videoEl;
-
-      await new Promise(resolve => videoEl.onloadedmetadata = resolve);
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      const detection = await faceapi.detectSingleFace(videoEl, new faceapi.SsdMobilenetv1Options({ minConfidence: MIN_CONFIDENCE }))
-        .withFaceLandmarks()
-        .withFaceDescriptor();
-
-      if (detection) {
-        onFaceRegistered(name.trim(), detection.descriptor);
-        setMessage(`✅ ${name.trim()} registered successfully!`);
-        setName('');
-      } else {
-        setMessage('⚠️ No face detected or quality too low. Please ensure your face is well-lit and visible.');
+      const samples = await captureSamples();
+      if (samples.length < ENROLLMENT_MIN_SAMPLES) {
+        setMessage(`⚠️ Only ${samples.length} of ${ENROLLMENT_PROMPTS.length} samples had a clear face. Please ensure your face is well-lit and visible, then try again.`);
+        return;
       }
+      setMessage(await save(samples));
     } catch (err: any) {
       console.error("Registration error:", err);
       setMessage(`Error during registration: ${err.message || 'Unknown error'}`);
     } finally {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
-      if (tempVideoRef.current) {
-        tempVideoRef.current.srcObject = null;
-        tempVideoRef.current = null;
-      }
       setIsRegistering(false);
       setTimeout(() => setMessage(null), 5000);
     }
-  }, [name, onFaceRegistered, isModelsLoaded, isMobile]);
+  }, [isModelsLoaded, captureSamples]);
+
+  const captureAndRegister = useCallback(async () => {
+    if (!name.trim()) {
+      setMessage('Please enter a name.');
+      return;
+    }
+
+    await runEnrollment(async samples => {
+      const user = await api.users.create(name.trim(), samples);
+      onFaceRegistered(user);
+      setName('');
+      return `✅ ${user.name} registered successfully with ${samples.length} samples!`;
+    });
+  }, [name, onFaceRegistered, runEnrollment]);
+
+  const addSamples = useCallback(async (user: RegisteredUser) => {
+    await runEnrollment(async samples => {
+      const updatedUser = await api.users.addSamples(user.id, samples);
+      onUserUpdated(updatedUser);
+      return `✅ Added ${samples.length} samples for ${updatedUser.name}.`;
+    });
+  }, [onUserUpdated, runEnrollment]);
 
   if (!isModelsLoaded) {
     return (
@@ -99,6 +173,20 @@ const RegistrationPanel: React.FC<RegistrationPanelProps> = ({
           className="w-full px-3 sm:px-4 py-2 sm:py-2.5 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm sm:text-base focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none transition-colors"
           disabled={isRegistering}
         />
+        <div className={isRegistering ? 'relative w-full aspect-video bg-slate-900 rounded-lg overflow-hidden' : 'hidden'}>
+          <video
+            ref={previewVideoRef}
+            autoPlay
+            muted
+            playsInline
+            className="absolute top-0 left-0 w-full h-full object-cover"
+          />
+          {enrollmentPrompt && (
+            <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-60 text-white text-xs sm:text-sm text-center py-2 px-2">
+              {enrollmentPrompt}
+            </div>
+          )}
+        </div>
         <button
           onClick={captureAndRegister}
           disabled={isRegistering || !name.trim()}
@@ -117,7 +205,7 @@ const RegistrationPanel: React.FC<RegistrationPanelProps> = ({
               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4 sm:w-5 sm:h-5">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 6a3.75 3.75 0 1 1-7.5 0 3.75 3.75 0 0 1 7.5 0ZM4.501 20.118a7.5 7.5 0 0 1 14.998 0A17.933 17.933 0 0 1 12 21.75c-2.676 0-5.216-.584-7.499-1.632Z" />
               </svg>
-              <span>Capture & Register Face</span>
+              <span>Start Guided Enrollment</span>
             </>
           )}
         </button>
@@ -128,8 +216,57 @@ const RegistrationPanel: React.FC<RegistrationPanelProps> = ({
         )}
       </div>
       <p className="text-xs text-slate-500 mt-3 sm:mt-4">
-        Ensure your face is clearly visible and well-lit for best results. Only one person should be in frame during registration.
+        Ensure your face is clearly visible and well-lit for best results. Only one person should be in frame during registration. Follow the prompts so several angles are captured.
       </p>
+      {registeredUsers.length > 0 && (
+        <div className="mt-4 sm:mt-5">
+          <h3 className="text-sm font-semibold text-sky-300 mb-2">Registered People ({registeredUsers.length})</h3>
+          <ul className="max-h-48 overflow-y-auto divide-y divide-slate-700 rounded-md border border-slate-700">
+            {registeredUsers.map(user => (
+              <li key={user.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                {editingUserId === user.id ? (
+                  <>
+                    <input
+                      type="text"
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && renameUser(user.id)}
+                      className="flex-1 min-w-0 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-gray-100 text-sm outline-none focus:ring-2 focus:ring-sky-500"
+                      autoFocus
+                    />
+                    <button onClick={() => renameUser(user.id)} className="text-green-400 hover:text-green-300 text-xs">Save</button>
+                    <button onClick={() => setEditingUserId(null)} className="text-slate-400 hover:text-slate-300 text-xs">Cancel</button>
+                  </>
+                ) : (
+                  <>
+                    <span className="truncate text-slate-200">
+                      {user.name}
+                      {user.externalId && <span className="ml-2 text-xs text-slate-500">#{user.externalId}</span>}
+                      <span className="ml-2 text-xs text-slate-500">{user.descriptors.length} samples</span>
+                    </span>
+                    <div className="flex gap-3 shrink-0">
+                      <button
+                        onClick={() => addSamples(user)}
+                        disabled={isRegistering}
+                        className="text-green-400 hover:text-green-300 text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Add samples
+                      </button>
+                      <button
+                        onClick={() => { setEditingUserId(user.id); setEditingName(user.name); }}
+                        className="text-sky-400 hover:text-sky-300 text-xs"
+                      >
+                        Rename
+                      </button>
+                      <button onClick={() => deleteUser(user)} className="text-red-400 hover:text-red-300 text-xs">Delete</button>
+                    </div>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
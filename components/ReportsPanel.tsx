@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { api } from '../services/api';
+
+type ReportName = 'person-rates' | 'daily' | 'presence' | 'shifts' | 'log';
+type ReportFormat = 'csv' | 'json' | 'xlsx';
+
+const REPORTS: { value: ReportName; label: string }[] = [
+  { value: 'person-rates', label: 'Attendance rate per person' },
+  { value: 'daily', label: 'Daily headcount' },
+  { value: 'presence', label: 'First / last seen' },
+  { value: 'shifts', label: 'Shift hours' },
+  { value: 'log', label: 'Full attendance log' },
+];
+
+const FORMATS: { value: ReportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'json', label: 'JSON' },
+];
+
+const ReportsPanel: React.FC = () => {
+  const [report, setReport] = useState<ReportName>('person-rates');
+  const [format, setFormat] = useState<ReportFormat>('csv');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const reportUrl = api.reportUrl(report, { format, from, to });
+  const isRangeValid = !from || !to || from <= to;
+
+  return (
+    <div className="bg-slate-800 p-4 sm:p-6 rounded-xl shadow-2xl">
+      <h2 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4 text-sky-300">Reports</h2>
+      <div className="space-y-3">
+        <select
+          value={report}
+          onChange={(e) => setReport(e.target.value as ReportName)}
+          className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm outline-none focus:ring-2 focus:ring-sky-500"
+        >
+          {REPORTS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-xs text-slate-400">
+            From
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="w-full mt-1 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm outline-none"
+            />
+          </label>
+          <label className="text-xs text-slate-400">
+            To
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="w-full mt-1 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm outline-none"
+            />
+          </label>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ReportFormat)}
+            className="flex-1 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm outline-none focus:ring-2 focus:ring-sky-500"
+          >
+            {FORMATS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+          <a
+            href={isRangeValid ? reportUrl : undefined}
+            download
+            target="_blank"
+            rel="noopener noreferrer"
+            className={`bg-green-500 hover:bg-green-600 text-white font-semibold py-2 px-4 rounded-lg text-sm transition-colors ${isRangeValid ? '' : 'opacity-50 pointer-events-none'}`}
+          >
+            Export
+          </a>
+        </div>
+        {!isRangeValid && <p className="text-xs text-red-300">The start date must be before the end date.</p>}
+        <p className="text-xs text-slate-500">Leave the dates empty to include the whole log.</p>
+      </div>
+    </div>
+  );
+};
+
+export default ReportsPanel;
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { RegisteredUser, Session } from '../types';
+import { api } from '../services/api';
+
+interface SessionPanelProps {
+  sessions: Session[];
+  registeredUsers: RegisteredUser[];
+  activeSessionId: string | null;
+  onActiveSessionChange: (id: string | null) => void;
+  onSessionChanged: (session: Session) => void;
+  canManage: boolean;
+}
+
+const formatRange = (session: Session) => {
+  const start = new Date(session.startTime);
+  const end = new Date(session.endTime);
+  return `${start.toLocaleDateString()} ${start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} - ${end.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+const SessionPanel: React.FC<SessionPanelProps> = ({
+  sessions,
+  registeredUsers,
+  activeSessionId,
+  onActiveSessionChange,
+  onSessionChanged,
+  canManage
+}) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [gracePeriodMinutes, setGracePeriodMinutes] = useState(10);
+  const [expectedUserIds, setExpectedUserIds] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setName('');
+    setStartTime('');
+    setEndTime('');
+    setGracePeriodMinutes(10);
+    setExpectedUserIds([]);
+    setIsCreating(false);
+  };
+
+  const toggleExpectedUser = (id: string) => {
+    setExpectedUserIds(prev => prev.includes(id) ? prev.filter(userId => userId !== id) : [...prev, id]);
+  };
+
+  const createSession = async () => {
+    try {
+      const data = await api.sessions.create({
+        name: name.trim(),
+        // datetime-local inputs are in local time; send an unambiguous ISO timestamp
+        startTime: new Date(startTime).toISOString(),
+        endTime: new Date(endTime).toISOString(),
+        gracePeriodMinutes,
+        expectedUserIds
+      });
+
+      onSessionChanged(data);
+      onActiveSessionChange(data.id);
+      resetForm();
+      setMessage(null);
+    } catch (error: any) {
+      console.error('Error creating session:', error);
+      setMessage(error.message || 'Error creating session. Please try again.');
+    }
+  };
+
+  const closeSession = async (session: Session) => {
+    if (!window.confirm(`Close ${session.name}? Everyone not yet seen will be marked absent.`)) return;
+    try {
+      onSessionChanged(await api.sessions.close(session.id));
+    } catch (error) {
+      console.error('Error closing session:', error);
+      setMessage('Error closing session. Please try again.');
+    }
+  };
+
+  const sortedSessions = [...sessions].sort((a, b) => Date.parse(b.startTime) - Date.parse(a.startTime));
+  const canCreate = name.trim() && startTime && endTime;
+
+  return (
+    <div className="bg-slate-800 p-4 sm:p-6 rounded-xl shadow-2xl">
+      <div className="flex justify-between items-center mb-3 sm:mb-4">
+        <h2 className="text-lg sm:text-xl font-semibold text-sky-300">Sessions</h2>
+        {canManage && (
+          <button
+            onClick={() => isCreating ? resetForm() : setIsCreating(true)}
+            className="text-sm text-sky-400 hover:text-sky-300"
+          >
+            {isCreating ? 'Cancel' : '+ New Session'}
+          </button>
+        )}
+      </div>
+
+      {isCreating && (
+        <div className="space-y-3 mb-4">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Session name, e.g. Monday 9:00 Lecture"
+            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500 outline-none"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-slate-400">
+              Start
+              <input
+                type="datetime-local"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                className="w-full mt-1 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm outline-none"
+              />
+            </label>
+            <label className="text-xs text-slate-400">
+              End
+              <input
+                type="datetime-local"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                className="w-full mt-1 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm outline-none"
+              />
+            </label>
+          </div>
+          <label className="block text-xs text-slate-400">
+            Grace period (minutes before counting as late)
+            <input
+              type="number"
+              min={0}
+              value={gracePeriodMinutes}
+              onChange={(e) => setGracePeriodMinutes(Math.max(0, Number(e.target.value)))}
+              className="w-full mt-1 px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm outline-none"
+            />
+          </label>
+          <div>
+            <p className="text-xs text-slate-400 mb-1">Expected roster</p>
+            {registeredUsers.length === 0 ? (
+              <p className="text-xs text-slate-500">Register people first to build a roster.</p>
+            ) : (
+              <div className="max-h-32 overflow-y-auto rounded-md border border-slate-700 p-2 space-y-1">
+                {registeredUsers.map(user => (
+                  <label key={user.id} className="flex items-center gap-2 text-sm text-slate-200">
+                    <input
+                      type="checkbox"
+                      checked={expectedUserIds.includes(user.id)}
+                      onChange={() => toggleExpectedUser(user.id)}
+                    />
+                    {user.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={createSession}
+            disabled={!canCreate}
+            className="w-full bg-sky-500 hover:bg-sky-600 text-white font-semibold py-2 px-3 rounded-lg transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            Create Session
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <p className="text-xs sm:text-sm mb-3 p-2 rounded-md text-red-300">{message}</p>
+      )}
+
+      {sortedSessions.length === 0 ? (
+        <p className="text-slate-400 text-sm">No sessions scheduled. Recognitions are logged without a session.</p>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto divide-y divide-slate-700 rounded-md border border-slate-700">
+          <li className="px-3 py-2 text-sm">
+            <label className="flex items-center gap-2 text-slate-300">
+              <input
+                type="radio"
+                name="active-session"
+                checked={activeSessionId === null}
+                onChange={() => onActiveSessionChange(null)}
+              />
+              Automatic (whichever session is running)
+            </label>
+          </li>
+          {sortedSessions.map(session => (
+            <li key={session.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+              <label className="flex items-center gap-2 min-w-0">
+                <input
+                  type="radio"
+                  name="active-session"
+                  checked={activeSessionId === session.id}
+                  disabled={Boolean(session.closedAt)}
+                  onChange={() => onActiveSessionChange(session.id)}
+                />
+                <span className="min-w-0">
+                  <span className="block truncate text-slate-200">{session.name}</span>
+                  <span className="block text-xs text-slate-500">{formatRange(session)}</span>
+                </span>
+              </label>
+              {session.closedAt ? (
+                <span className="text-xs text-slate-500 shrink-0">Closed</span>
+              ) : canManage && (
+                <button onClick={() => closeSession(session)} className="text-red-400 hover:text-red-300 text-xs shrink-0">Close</button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SessionPanel;
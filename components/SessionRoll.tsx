@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { AttendanceRecord, RollEntry, RollStatus, Session } from '../types';
+import { api } from '../services/api';
+
+interface SessionRollProps {
+  session: Session;
+  attendanceLog: AttendanceRecord[];
+}
+
+const STATUS_STYLES: Record<RollStatus, string> = {
+  present: 'text-green-400',
+  late: 'text-yellow-400',
+  absent: 'text-red-400',
+  pending: 'text-slate-400',
+};
+
+const SessionRoll: React.FC<SessionRollProps> = ({ session, attendanceLog }) => {
+  const [roll, setRoll] = useState<RollEntry[]>([]);
+
+  // Refetch whenever the log changes (new recognitions or corrections) or the session is closed
+  useEffect(() => {
+    const fetchRoll = async () => {
+      try {
+        setRoll(await api.sessions.roll(session.id));
+      } catch (error) {
+        console.error('Error fetching session roll:', error);
+      }
+    };
+
+    fetchRoll();
+  }, [session.id, session.closedAt, attendanceLog]);
+
+  const count = (status: RollStatus) => roll.filter(entry => entry.status === status).length;
+
+  return (
+    <div className="bg-slate-800 p-4 sm:p-6 rounded-xl shadow-2xl">
+      <h2 className="text-lg sm:text-xl font-semibold text-sky-300">{session.name}</h2>
+      <p className="text-xs text-slate-400 mt-1 mb-3">
+        {session.closedAt ? 'Closed' : 'Open'} · {count('present')} present · {count('late')} late · {session.closedAt ? `${count('absent')} absent` : `${count('pending')} not yet seen`}
+      </p>
+      {roll.length === 0 ? (
+        <p className="text-slate-400 text-center py-4 text-sm">No expected roster for this session.</p>
+      ) : (
+        <div className="max-h-60 overflow-y-auto rounded-md border border-slate-700">
+          <table className="w-full text-sm text-left text-slate-300">
+            <thead className="text-xs text-sky-300 uppercase bg-slate-700 sticky top-0">
+              <tr>
+                <th scope="col" className="px-4 py-3">Name</th>
+                <th scope="col" className="px-4 py-3">Status</th>
+                <th scope="col" className="px-4 py-3">Seen</th>
+              </tr>
+            </thead>
+            <tbody>
+              {roll.map(entry => (
+                <tr key={entry.userId} className="bg-slate-800 border-b border-slate-700">
+                  <td className="px-4 py-2 font-medium whitespace-nowrap">{entry.name}</td>
+                  <td className={`px-4 py-2 capitalize ${STATUS_STYLES[entry.status]}`}>{entry.status === 'pending' ? 'Not yet seen' : entry.status}</td>
+                  <td className="px-4 py-2 text-xs">{entry.checkedInAt ? new Date(entry.checkedInAt).toLocaleTimeString() : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionRoll;
@@ -0,0 +1,225 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CalibrationResult, SettingKey, SettingsOverrides, SettingsOverview, ThresholdErrorRates } from '../types';
+import { api } from '../services/api';
+import { getDeviceId } from '../services/device';
+
+const FIELDS: { key: SettingKey; label: string; hint: string; step: number }[] = [
+  { key: 'matchThreshold', label: 'Match threshold', hint: 'Lower is stricter: fewer wrong people logged, more people missed', step: 0.01 },
+  { key: 'minConfidence', label: 'Minimum detection confidence', hint: 'Faces detected with a lower score are ignored', step: 0.05 },
+  { key: 'mobileConfidenceScale', label: 'Mobile confidence scale', hint: 'Mobile kiosks detect on smaller frames, so their minimum confidence is multiplied by this', step: 0.05 },
+  { key: 'attendanceCooldownMinutes', label: 'Cooldown (minutes)', hint: 'The same person is logged at most once per this many minutes', step: 1 },
+];
+
+const TARGET_FARS = [0.01, 0.001, 0.0001];
+
+// All kiosks share the deployment's settings unless one has overrides of its own
+const DEPLOYMENT = '';
+
+type Draft = Record<SettingKey, string>;
+
+const toDraft = (values: SettingsOverrides): Draft =>
+  Object.fromEntries(FIELDS.map(({ key }) => [key, values[key] === undefined ? '' : String(values[key])])) as Draft;
+
+const overridesFor = (overview: SettingsOverview, deviceId: string) => deviceId === DEPLOYMENT
+  ? overview.deployment.values
+  : overview.kiosks.find(kiosk => kiosk.deviceId === deviceId)?.values || {};
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(rate > 0 && rate < 0.001 ? 3 : 2)}%`;
+
+const describeRates = (rates: ThresholdErrorRates) =>
+  `${rates.threshold.toFixed(2)}: ${formatRate(rates.far)} false accepts, ${formatRate(rates.frr)} false rejects`;
+
+// Recognition settings for the deployment and individual kiosks, applied live, and a calibration
+// tool that recommends a match threshold from the enrolled samples
+const SettingsPanel: React.FC = () => {
+  const [overview, setOverview] = useState<SettingsOverview | null>(null);
+  const [scope, setScope] = useState(DEPLOYMENT);
+  const [draft, setDraft] = useState<Draft>(toDraft({}));
+  const [targetFar, setTargetFar] = useState(0.001);
+  const [calibration, setCalibration] = useState<CalibrationResult | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const thisDeviceId = getDeviceId();
+
+  const fetchOverview = useCallback(async (deviceId: string) => {
+    try {
+      const data = await api.settings.overview();
+      setOverview(data);
+      setDraft(toDraft(overridesFor(data, deviceId)));
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOverview(DEPLOYMENT);
+  }, [fetchOverview]);
+
+  const run = async (action: () => Promise<void>) => {
+    setMessage(null);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error('Error updating settings:', error);
+      setMessage(error.message || 'Request failed');
+    }
+  };
+
+  const changeScope = (deviceId: string) => {
+    setScope(deviceId);
+    if (overview) setDraft(toDraft(overridesFor(overview, deviceId)));
+  };
+
+  // What a blank field falls back to: the default for the deployment, the deployment's value for a kiosk
+  const inherited = (key: SettingKey) => {
+    if (!overview) return '';
+    const value = scope === DEPLOYMENT ? undefined : overview.deployment.values[key];
+    return String(value ?? overview.fields[key].default);
+  };
+
+  const save = () => run(async () => {
+    const values = Object.fromEntries(FIELDS.map(({ key }) => [key, draft[key].trim() === '' ? null : Number(draft[key])]));
+    await api.settings.save(scope === DEPLOYMENT ? null : scope, values);
+    await fetchOverview(scope);
+    setMessage(`✅ Saved. ${scope === DEPLOYMENT ? 'Kiosks' : 'The kiosk'} apply the change right away.`);
+  });
+
+  const runCalibration = () => run(async () => {
+    setIsCalibrating(true);
+    try {
+      setCalibration(await api.settings.calibrate(targetFar));
+    } finally {
+      setIsCalibrating(false);
+    }
+  });
+
+  // Fill in the recommendation for all kiosks; it takes effect once saved
+  const applyRecommended = (threshold: number) => {
+    changeScope(DEPLOYMENT);
+    setDraft(prev => ({ ...prev, matchThreshold: threshold.toFixed(2) }));
+  };
+
+  const kioskLabel = (deviceId: string) => {
+    const kiosk = overview?.kiosks.find(k => k.deviceId === deviceId);
+    const name = kiosk?.name || `Kiosk ${deviceId.slice(0, 8)}`;
+    return `${name}${kiosk && kiosk.locations.length > 0 ? ` · ${kiosk.locations.join(', ')}` : ''}${deviceId === thisDeviceId ? ' (this device)' : ''}`;
+  };
+
+  const kioskIds = overview ? overview.kiosks.map(kiosk => kiosk.deviceId) : [];
+  if (!kioskIds.includes(thisDeviceId)) kioskIds.push(thisDeviceId);
+
+  const selected = scope === DEPLOYMENT ? overview?.deployment : overview?.kiosks.find(kiosk => kiosk.deviceId === scope);
+  const inputClassName = "px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm outline-none focus:ring-2 focus:ring-sky-500";
+
+  const histogramMax = calibration ? {
+    genuine: Math.max(1, ...calibration.histogram.genuine),
+    impostor: Math.max(1, ...calibration.histogram.impostor),
+  } : null;
+  const histogramRange = calibration ? calibration.histogram.binWidth * calibration.histogram.genuine.length : 1;
+
+  return (
+    <div className="bg-slate-800 p-4 sm:p-6 rounded-xl shadow-2xl space-y-4">
+      <h2 className="text-lg sm:text-xl font-semibold text-sky-300">Recognition Settings</h2>
+
+      <div className="space-y-3">
+        <select value={scope} onChange={(e) => changeScope(e.target.value)} className={`w-full ${inputClassName}`}>
+          <option value={DEPLOYMENT}>All kiosks</option>
+          {kioskIds.map(deviceId => (
+            <option key={deviceId} value={deviceId}>{kioskLabel(deviceId)}</option>
+          ))}
+        </select>
+        <p className="text-xs text-slate-400">
+          {scope === DEPLOYMENT
+            ? 'Blank fields use the built-in default.'
+            : 'Blank fields follow the settings for all kiosks.'}
+          {selected?.updatedAt && ` Last changed by ${selected.updatedBy} on ${new Date(selected.updatedAt).toLocaleString()}.`}
+        </p>
+
+        {FIELDS.map(field => (
+          <label key={field.key} className="block text-xs text-slate-300 space-y-1" title={field.hint}>
+            <span>{field.label}</span>
+            <input
+              type="number"
+              step={field.step}
+              min={overview?.fields[field.key].min}
+              max={overview?.fields[field.key].max}
+              value={draft[field.key]}
+              placeholder={inherited(field.key)}
+              onChange={(e) => setDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+              className={`w-full ${inputClassName}`}
+            />
+          </label>
+        ))}
+
+        <button
+          onClick={save}
+          disabled={!overview}
+          className="bg-sky-500 hover:bg-sky-600 text-white font-semibold py-1.5 px-3 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+      </div>
+
+      <div className="space-y-2 border-t border-slate-700 pt-4">
+        <h3 className="text-sm font-semibold text-slate-200">Calibrate match threshold</h3>
+        <p className="text-xs text-slate-400">
+          Compares every enrolled sample with the person's other samples and with everybody else, and
+          recommends the loosest threshold that keeps false accepts under the target.
+        </p>
+        <div className="flex items-center gap-2">
+          <select value={targetFar} onChange={(e) => setTargetFar(Number(e.target.value))} className={inputClassName}>
+            {TARGET_FARS.map(rate => (
+              <option key={rate} value={rate}>{formatRate(rate)} false accepts</option>
+            ))}
+          </select>
+          <button
+            onClick={runCalibration}
+            disabled={isCalibrating}
+            className="text-sm text-sky-400 hover:text-sky-300 disabled:opacity-50"
+          >
+            {isCalibrating ? 'Calibrating...' : 'Calibrate'}
+          </button>
+        </div>
+
+        {calibration && histogramMax && (
+          <div className="space-y-2 text-xs">
+            <div className="relative h-24 flex items-end gap-px rounded-md bg-slate-900 p-1">
+              {calibration.histogram.genuine.map((genuine, bin) => (
+                <div key={bin} className="relative flex-1 h-full" title={`${(bin * calibration.histogram.binWidth).toFixed(2)}–${((bin + 1) * calibration.histogram.binWidth).toFixed(2)}`}>
+                  <div className="absolute bottom-0 inset-x-0 bg-green-500 bg-opacity-60" style={{ height: `${(genuine / histogramMax.genuine) * 100}%` }} />
+                  <div className="absolute bottom-0 inset-x-0 bg-red-500 bg-opacity-50" style={{ height: `${(calibration.histogram.impostor[bin] / histogramMax.impostor) * 100}%` }} />
+                </div>
+              ))}
+              <div
+                className="absolute top-0 bottom-0 w-px bg-sky-300"
+                style={{ left: `${(calibration.recommended.threshold / histogramRange) * 100}%` }}
+                title="Recommended threshold"
+              />
+            </div>
+            <p className="text-slate-400">
+              <span className="text-green-400">■</span> Same person · <span className="text-red-400">■</span> Different people ·
+              distance 0 to {histogramRange.toFixed(1)} · {calibration.people} people, {calibration.samples} samples
+              {calibration.people < calibration.enrolledPeople && ` (a subset of the ${calibration.enrolledPeople} enrolled)`}
+            </p>
+            <p className="text-slate-300">Recommended {describeRates(calibration.recommended)}</p>
+            <p className="text-slate-300">Current {describeRates(calibration.current)}</p>
+            {calibration.targetFar < calibration.minMeasurableFar && (
+              <p className="text-yellow-300">
+                Too few enrolled samples to measure a rate this low; enroll more people for a reliable recommendation.
+              </p>
+            )}
+            <button onClick={() => applyRecommended(calibration.recommended.threshold)} className="text-sky-400 hover:text-sky-300">
+              Use {calibration.recommended.threshold.toFixed(2)} for all kiosks
+            </button>
+          </div>
+        )}
+      </div>
+
+      {message && (
+        <p className={`text-xs sm:text-sm p-2 rounded-md ${message.startsWith('✅') ? 'text-green-300' : 'text-red-300'}`}>{message}</p>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPanel;
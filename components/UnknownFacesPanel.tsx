@@ -0,0 +1,150 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AttendanceRecord, RegisteredUser, UnknownCluster } from '../types';
+import { api } from '../services/api';
+
+interface UnknownFacesPanelProps {
+  registeredUsers: RegisteredUser[];
+  canBackfill: boolean;
+  onUserEnrolled: (user: RegisteredUser) => void;
+  onRecordChanged: (record: AttendanceRecord) => void;
+}
+
+// Faces the kiosks saw but could not match, grouped by person. Admins enroll the person behind a
+// group, which can also log their attendance for the times they were seen, or discard it.
+const UnknownFacesPanel: React.FC<UnknownFacesPanelProps> = ({ registeredUsers, canBackfill, onUserEnrolled, onRecordChanged }) => {
+  const [clusters, setClusters] = useState<UnknownCluster[]>([]);
+  const [enrollingId, setEnrollingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [existingUserId, setExistingUserId] = useState('');
+  const [backfill, setBackfill] = useState(true);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchClusters = useCallback(async () => {
+    try {
+      setClusters(await api.unknownFaces.clusters());
+    } catch (error) {
+      console.error('Error fetching unknown faces:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchClusters();
+  }, [fetchClusters]);
+
+  const run = async (action: () => Promise<void>) => {
+    setMessage(null);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error('Error updating unknown faces:', error);
+      setMessage(error.message || 'Request failed');
+    }
+  };
+
+  const startEnrolling = (cluster: UnknownCluster) => {
+    setEnrollingId(enrollingId === cluster.id ? null : cluster.id);
+    setName('');
+    setExistingUserId('');
+    setBackfill(canBackfill);
+  };
+
+  const enroll = (cluster: UnknownCluster) => run(async () => {
+    const result = await api.unknownFaces.enroll(cluster.id, {
+      ...(existingUserId ? { userId: existingUserId } : { name: name.trim() }),
+      backfill: canBackfill && backfill,
+    });
+    const user = result.user;
+    onUserEnrolled(user);
+    result.records.forEach(onRecordChanged);
+    setClusters(prev => prev.filter(c => c.id !== cluster.id));
+    setEnrollingId(null);
+    setMessage(`✅ ${result.created ? 'Enrolled' : 'Added samples to'} ${user.name}` +
+      (result.records.length > 0 ? ` and logged ${result.records.length} earlier ${result.records.length === 1 ? 'visit' : 'visits'}.` : '.'));
+  });
+
+  const discard = (cluster: UnknownCluster) => {
+    if (!window.confirm(`Discard ${cluster.sightingCount} ${cluster.sightingCount === 1 ? 'sighting' : 'sightings'} of this face? The images are deleted.`)) return;
+    run(async () => {
+      await api.unknownFaces.discard(cluster.id);
+      setClusters(prev => prev.filter(c => c.id !== cluster.id));
+    });
+  };
+
+  const inputClassName = "px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm outline-none focus:ring-2 focus:ring-sky-500";
+
+  return (
+    <div className="bg-slate-800 p-4 sm:p-6 rounded-xl shadow-2xl space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg sm:text-xl font-semibold text-sky-300">Unknown Faces</h2>
+        <button onClick={fetchClusters} className="text-xs text-sky-400 hover:text-sky-300">Refresh</button>
+      </div>
+
+      {clusters.length === 0 && <p className="text-sm text-slate-400">No unknown faces waiting.</p>}
+
+      {clusters.length > 0 && (
+        <ul className="divide-y divide-slate-700 rounded-md border border-slate-700">
+          {clusters.map(cluster => (
+            <li key={cluster.id} className="px-3 py-2 text-sm space-y-2">
+              <div className="flex gap-1 overflow-x-auto">
+                {cluster.sightings.filter(sighting => sighting.thumbnail).map(sighting => (
+                  <img
+                    key={sighting.id}
+                    src={api.unknownFaces.thumbnailUrl(sighting.id)}
+                    alt=""
+                    title={`${new Date(sighting.seenAt).toLocaleString()}${sighting.location ? ` · ${sighting.location}` : ''}`}
+                    className={`w-12 h-12 shrink-0 rounded object-cover ${sighting.id === cluster.coverId ? 'ring-2 ring-sky-500' : ''}`}
+                  />
+                ))}
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-slate-400 min-w-0">
+                  Seen {cluster.sightingCount} {cluster.sightingCount === 1 ? 'time' : 'times'},{' '}
+                  {new Date(cluster.firstSeenAt).toLocaleDateString()}
+                  {cluster.lastSeenAt.slice(0, 10) !== cluster.firstSeenAt.slice(0, 10) && ` – ${new Date(cluster.lastSeenAt).toLocaleDateString()}`}
+                  {cluster.locations.length > 0 && ` · ${cluster.locations.join(', ')}`}
+                </p>
+                <div className="flex gap-3 shrink-0 text-xs">
+                  <button onClick={() => startEnrolling(cluster)} className="text-sky-400 hover:text-sky-300">Enroll</button>
+                  <button onClick={() => discard(cluster)} className="text-red-400 hover:text-red-300">Discard</button>
+                </div>
+              </div>
+
+              {enrollingId === cluster.id && (
+                <div className="p-2 rounded-md bg-slate-900 space-y-2">
+                  <select value={existingUserId} onChange={(e) => setExistingUserId(e.target.value)} className={`w-full ${inputClassName}`}>
+                    <option value="">New person</option>
+                    {registeredUsers.map(user => (
+                      <option key={user.id} value={user.id}>Add to {user.name}</option>
+                    ))}
+                  </select>
+                  {!existingUserId && (
+                    <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className={`w-full ${inputClassName}`} />
+                  )}
+                  {canBackfill && (
+                    <label className="flex items-center gap-1.5 text-xs text-slate-300">
+                      <input type="checkbox" checked={backfill} onChange={(e) => setBackfill(e.target.checked)} />
+                      Log attendance for the times this person was seen
+                    </label>
+                  )}
+                  <button
+                    onClick={() => enroll(cluster)}
+                    disabled={!existingUserId && !name.trim()}
+                    className="bg-sky-500 hover:bg-sky-600 text-white font-semibold py-1.5 px-3 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {existingUserId ? 'Add Samples' : 'Enroll'}
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {message && (
+        <p className={`text-xs sm:text-sm p-2 rounded-md ${message.startsWith('✅') ? 'text-green-300' : 'text-red-300'}`}>{message}</p>
+      )}
+    </div>
+  );
+};
+
+export default UnknownFacesPanel;
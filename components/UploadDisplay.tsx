@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConfirmedFace, RecognitionSettings, RegisteredUser, UploadedFace } from '../types';
+import { UPLOAD_MAX_VIDEO_SECONDS } from '../constants';
+import { readCaptureTime } from '../utils/captureTime';
+import { FaceVote, analyzePhoto, analyzeVideo, isVideoFile } from '../utils/upload';
+
+interface UploadDisplayProps {
+  faceMatcher: any; // faceapi.FaceMatcher over the enrolled people, or null when nobody is enrolled
+  registeredUsers: RegisteredUser[];
+  settings: RecognitionSettings;
+  onFacesConfirmed: (faces: ConfirmedFace[]) => void;
+}
+
+// The user's choice for one face: who it is, and whether to log it
+interface Review {
+  userId: string;
+  include: boolean;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Value for a datetime-local input, in local time
+const toInputValue = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+const formatOffset = (ms: number) => `${Math.floor(ms / 60000)}:${pad(Math.floor(ms / 1000) % 60)}`;
+
+// Upload mode for rooms without a live kiosk: a class photo or a short clip goes through the same
+// detection and matching as the cameras, and every face is shown with its match for the user to
+// confirm or correct before attendance is logged at the time the file was taken.
+const UploadDisplay: React.FC<UploadDisplayProps> = ({ faceMatcher, registeredUsers, settings, onFacesConfirmed }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [faces, setFaces] = useState<UploadedFace[]>([]);
+  const [reviews, setReviews] = useState<Record<number, Review>>({});
+  const [captureTime, setCaptureTime] = useState('');
+  const [timeFromFile, setTimeFromFile] = useState(false);
+  const [location, setLocation] = useState('');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Stop analyzing when the user leaves upload mode
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const vote: FaceVote = descriptor => {
+    const bestMatch = faceMatcher ? faceMatcher.findBestMatch(descriptor) : null;
+    return bestMatch && bestMatch.distance < settings.matchThreshold && registeredUsers.some(u => u.id === bestMatch.label)
+      ? { userId: bestMatch.label, distance: bestMatch.distance }
+      : { userId: null, distance: bestMatch ? bestMatch.distance : null };
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setFile(selected);
+    setFaces([]);
+    setReviews({});
+    setMessage(null);
+    setProgress(0);
+
+    const takenAt = await readCaptureTime(selected);
+    setCaptureTime(takenAt ? toInputValue(takenAt) : '');
+    setTimeFromFile(Boolean(takenAt));
+
+    try {
+      let found: UploadedFace[];
+      if (isVideoFile(selected)) {
+        const result = await analyzeVideo(selected, vote, settings.minConfidence, setProgress, controller.signal);
+        found = result.faces;
+        if (result.truncated) setMessage(`Only the first ${UPLOAD_MAX_VIDEO_SECONDS / 60} minutes of the video were analyzed.`);
+      } else {
+        found = await analyzePhoto(selected, vote, settings.minConfidence);
+      }
+      if (controller.signal.aborted) return;
+      setFaces(found);
+      setReviews(Object.fromEntries(found.map(face => [face.id, { userId: face.userId || '', include: Boolean(face.userId) }])));
+      if (found.length === 0) setMessage('No faces were found. Try a sharper photo, or one where faces are larger.');
+    } catch (error: any) {
+      if (error.name === 'AbortError') return;
+      console.error('Error analyzing upload:', error);
+      setMessage(error.message || 'The file could not be analyzed');
+    } finally {
+      if (abortRef.current === controller) setProgress(null);
+    }
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    setProgress(null);
+    setFile(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const updateReview = (faceId: number, changes: Partial<Review>) =>
+    setReviews(prev => ({ ...prev, [faceId]: { ...prev[faceId], ...changes } }));
+
+  // A face matched by hand gets the distance to that person's closest sample
+  const distanceTo = (face: UploadedFace, user: RegisteredUser) => {
+    if (face.userId === user.id && face.distance !== null) return face.distance;
+    if (user.descriptors.length === 0) return settings.matchThreshold;
+    return Math.min(...user.descriptors.map(descriptor => faceapi.euclideanDistance(face.descriptor, descriptor) as number));
+  };
+
+  const confirmed = faces.filter(face => reviews[face.id]?.include && reviews[face.id].userId);
+
+  const logAttendance = () => {
+    const startedAt = new Date(captureTime);
+    if (!file || isNaN(startedAt.getTime())) {
+      setMessage('Enter when the photo or video was taken.');
+      return;
+    }
+    const entries = confirmed.flatMap(face => {
+      const user = registeredUsers.find(u => u.id === reviews[face.id].userId);
+      if (!user) return [];
+      return [{
+        user,
+        match: { distance: distanceTo(face, user), detectionScore: face.detectionScore, camera: file.name, location: location.trim() || null },
+        timestamp: new Date(startedAt.getTime() + face.offsetMs),
+        evidence: face.evidence,
+      }];
+    });
+    onFacesConfirmed(entries);
+    setFaces([]);
+    setReviews({});
+    setFile(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    setMessage(`✅ Logged attendance for ${entries.length} ${entries.length === 1 ? 'person' : 'people'}.`);
+  };
+
+  const inputClassName = "px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm outline-none focus:ring-2 focus:ring-sky-500";
+  const isVideo = file !== null && isVideoFile(file);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,video/*"
+          onChange={handleFileChange}
+          className="text-xs sm:text-sm text-slate-300 file:mr-2 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:bg-sky-500 file:text-white hover:file:bg-sky-600"
+        />
+        {progress !== null && (
+          <>
+            <span className="text-sky-400 animate-pulse">Analyzing{isVideo ? ` ${Math.round(progress * 100)}%` : '...'}</span>
+            <button onClick={cancel} className="text-xs text-red-400 hover:text-red-300">Cancel</button>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-slate-500">A class photo or a short video. The file is analyzed on this device and is not sent anywhere; only the evidence of the people you log is.</p>
+
+      {file && progress === null && faces.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-xs sm:text-sm text-slate-400">
+            <label className="flex items-center gap-1.5">
+              Taken at
+              <input
+                type="datetime-local"
+                step={1}
+                value={captureTime}
+                onChange={(e) => {
+                  setCaptureTime(e.target.value);
+                  setTimeFromFile(false);
+                }}
+                className={inputClassName}
+              />
+            </label>
+            <span className="text-xs text-slate-500">
+              {timeFromFile ? 'from the file' : 'not recorded in the file; enter it'}
+              {isVideo && ' · start of the video; each face is logged when it first appears'}
+            </span>
+            <input type="text" value={location} onChange={(e) => setLocation(e.target.value)} placeholder="Room (optional)" className={inputClassName} />
+          </div>
+
+          <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {faces.map(face => {
+              const review = reviews[face.id];
+              const proposed = registeredUsers.find(u => u.id === face.userId);
+              return (
+                <li key={face.id} className={`flex gap-2 p-2 rounded-md border ${review?.include && review.userId ? 'border-sky-600 bg-slate-900' : 'border-slate-700'}`}>
+                  <img src={face.evidence.thumbnail} alt="" className="w-16 h-16 shrink-0 rounded object-cover" />
+                  <div className="min-w-0 flex-1 space-y-1 text-xs">
+                    <select
+                      value={review?.userId || ''}
+                      onChange={(e) => updateReview(face.id, { userId: e.target.value, include: Boolean(e.target.value) })}
+                      className={`w-full ${inputClassName}`}
+                    >
+                      <option value="">Nobody enrolled</option>
+                      {registeredUsers.map(user => (
+                        <option key={user.id} value={user.id}>{user.name}</option>
+                      ))}
+                    </select>
+                    <p className="text-slate-400">
+                      {proposed && face.distance !== null
+                        ? `Matched ${proposed.name} (${Math.round((1 - face.distance) * 100)}%)`
+                        : 'No match'}
+                      {isVideo && ` · ${face.frames} ${face.frames === 1 ? 'frame' : 'frames'} from ${formatOffset(face.offsetMs)}`}
+                    </p>
+                    <label className="flex items-center gap-1.5 text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(review?.include)}
+                        disabled={!review?.userId}
+                        onChange={(e) => updateReview(face.id, { include: e.target.checked })}
+                      />
+                      Log attendance
+                    </label>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          <button
+            onClick={logAttendance}
+            disabled={confirmed.length === 0 || !captureTime}
+            className="bg-sky-500 hover:bg-sky-600 text-white font-semibold py-1.5 px-3 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Log {confirmed.length} {confirmed.length === 1 ? 'Person' : 'People'}
+          </button>
+        </>
+      )}
+
+      {message && (
+        <p className={`text-xs sm:text-sm p-2 rounded-md ${message.startsWith('✅') ? 'text-green-300' : 'text-amber-300'}`}>{message}</p>
+      )}
+    </div>
+  );
+};
+
+export default UploadDisplay;
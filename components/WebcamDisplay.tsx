@@ -1,41 +1,57 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { RegisteredUser, LabeledFaceDescriptor } from '../types';
-import { MODEL_URL, MIN_CONFIDENCE, FACE_MATCH_THRESHOLD } from '../constants';
+import { RegisteredUser, LivenessResult, EvidenceSnapshot, FaceMatch, UnknownFace, CameraFeed, DetectedFace, RecognitionSettings } from '../types';
+import { DETECTION_TICK_MS, DETECTION_STATS_INTERVAL_MS, TRACK_CONFIRM_VOTES } from '../constants';
+import { updateLiveness } from '../utils/liveness';
+import { Track, TrackVote, createTracker, identityDistance, updateTracker, votesForLatest } from '../utils/tracker';
+import { captureEvidence } from '../utils/evidence';
+import { detectFaces as detectInFrame, detectorRunsInWorker } from '../services/detector';
+import { modelsReady } from '../services/models';
+
+interface DetectionStats {
+  fps: number;
+  latencyMs: number;
+  inWorker: boolean;
+}
+
+// face-api.js landmarks from detector points, so the liveness check can use its helpers
+const toLandmarks = (points: DetectedFace['landmarks'], width: number, height: number) =>
+  new faceapi.FaceLandmarks68(points.map(point => new faceapi.Point(point.x / width, point.y / height)), { width, height });
 
 interface WebcamDisplayProps {
-  onFaceRecognized: (name: string) => void;
+  feed: CameraFeed;
+  faceMatcher: any; // faceapi.FaceMatcher over the enrolled people, or null when nobody is enrolled
+  // `captureEvidence` snapshots the face from the current frame; call it only when a record is logged
+  onFaceRecognized: (user: RegisteredUser, liveness: LivenessResult, match: FaceMatch, captureEvidence: () => EvidenceSnapshot) => void;
+  // Called once for each tracked face that turns out to match nobody enrolled
+  onUnknownFace: (face: UnknownFace, descriptor: Float32Array, captureEvidence: () => EvidenceSnapshot) => void;
   registeredUsers: RegisteredUser[];
-  onModelsLoaded: (loaded: boolean) => void;
+  settings: RecognitionSettings;
   isMobile: boolean;
-  onAttendanceRecord: (record: any) => void;
 }
 
-const WebcamDisplay: React.FC<WebcamDisplayProps> = ({ onFaceRecognized, registeredUsers, onModelsLoaded, isMobile, onAttendanceRecord }) => {
+// One camera feed with face detection running on it. Models are loaded by the parent.
+const WebcamDisplay: React.FC<WebcamDisplayProps> = ({ feed, faceMatcher, onFaceRecognized, onUnknownFace, registeredUsers, settings, isMobile }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [error, setError] = useState<string | null>(null);
-  const [faceMatcher, setFaceMatcher] = useState<any>(null);
   const [isVideoReady, setIsVideoReady] = useState(false);
+  const [stats, setStats] = useState<DetectionStats | null>(null);
   const detectionIntervalRef = useRef<number | null>(null);
   const lastDetectionTime = useRef<number>(0);
-  const processingFrame = useRef<boolean>(false);
-
-  const loadModels = useCallback(async () => {
-    try {
-      await Promise.all([
-        faceapi.nets.ssdMobilenetv1.loadFromUri(MODEL_URL),
-        faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_URL),
-        faceapi.nets.faceRecognitionNet.loadFromUri(MODEL_URL),
-      ]);
-      onModelsLoaded(true);
-    } catch (err) {
-      console.error("Error loading models:", err);
-      setError("Failed to load AI models. Please ensure you are connected to the internet and try refreshing.");
-      onModelsLoaded(false);
-    }
-  }, [onModelsLoaded]);
+  // Backpressure: while a frame is being detected, newer frames are dropped instead of queued
+  const frameInFlight = useRef<boolean>(false);
+  // Completion times of recent detections, and a smoothed capture-to-result latency
+  const recentResults = useRef<number[]>([]);
+  const latencyMs = useRef<number>(0);
+  const lastStatsUpdate = useRef<number>(0);
+  const tracker = useRef(createTracker());
+  // Read at detection time so renaming the location does not restart the feed
+  const locationRef = useRef(feed.location);
+  locationRef.current = feed.location;
 
   const startWebcam = useCallback(async () => {
+    setError(null);
+    setIsVideoReady(false);
     try {
       const devices = await navigator.mediaDevices.enumerateDevices();
       const videoDevices = devices.filter(device => device.kind === 'videoinput');
@@ -45,10 +61,11 @@ const WebcamDisplay: React.FC<WebcamDisplayProps> = ({ onFaceRecognized, registe
         facingMode = 'environment';
       }
 
-      // Optimize video constraints for mobile
+      // Optimize video constraints for mobile. A picked camera is opened by id; otherwise the
+      // browser chooses one facing the right way.
       const constraints = {
         video: {
-          facingMode: facingMode,
+          ...(feed.deviceId ? { deviceId: { exact: feed.deviceId } } : { facingMode: facingMode }),
           width: { ideal: isMobile ? 640 : 1280 }, // Lower resolution for mobile
           height: { ideal: isMobile ? 480 : 720 }, // Lower resolution for mobile
           frameRate: { ideal: isMobile ? 15 : 30 } // Lower frame rate for mobile
@@ -65,7 +82,7 @@ const WebcamDisplay: React.FC<WebcamDisplayProps> = ({ onFaceRecognized, registe
             setIsVideoReady(true);
           }).catch(err => {
             console.error("Error playing video:", err);
-            if (facingMode === 'environment') {
+            if (facingMode === 'environment' && !feed.deviceId) {
               stream.getTracks().forEach(track => track.stop());
               startWebcam();
             } else {
@@ -76,7 +93,9 @@ const WebcamDisplay: React.FC<WebcamDisplayProps> = ({ onFaceRecognized, registe
       }
     } catch (err) {
       console.error("Error accessing webcam:", err);
-      if (isMobile) {
+      if (feed.deviceId) {
+        setError("Failed to open the selected camera. Check that it is connected, or pick another one.");
+      } else if (isMobile) {
         const frontCameraConstraints = {
           video: {
             facingMode: 'user',
@@ -105,19 +124,31 @@ const WebcamDisplay: React.FC<WebcamDisplayProps> = ({ onFaceRecognized, registe
         setError("Failed to access webcam. Please check permissions and ensure a webcam is connected.");
       }
     }
-  }, [isMobile]);
+  }, [isMobile, feed.deviceId]);
+
+  const recordTiming = (startedAt: number, finishedAt: number) => {
+    const latency = finishedAt - startedAt;
+    latencyMs.current = latencyMs.current ? latencyMs.current * 0.8 + latency * 0.2 : latency;
+    recentResults.current = [...recentResults.current.filter(time => finishedAt - time < 1000), finishedAt];
+    // The readout is refreshed a few times a second rather than on every frame
+    if (finishedAt - lastStatsUpdate.current >= DETECTION_STATS_INTERVAL_MS) {
+      lastStatsUpdate.current = finishedAt;
+      setStats({ fps: recentResults.current.length, latencyMs: Math.round(latencyMs.current), inWorker: detectorRunsInWorker() });
+    }
+  };
 
   const detectFaces = useCallback(async () => {
-    if (!videoRef.current || !canvasRef.current || !faceapi || !faceapi.nets.ssdMobilenetv1.isLoaded) {
+    if (!videoRef.current || !canvasRef.current || !faceapi || !modelsReady()) {
       return;
     }
 
-    const now = Date.now();
-    if (now - lastDetectionTime.current < (isMobile ? 500 : 300)) { // Throttle detection on mobile
+    if (frameInFlight.current) {
       return;
     }
 
-    if (processingFrame.current) {
+    // Detection in the page blocks the UI, so there it keeps the old throttle
+    const now = Date.now();
+    if (!detectorRunsInWorker() && now - lastDetectionTime.current < (isMobile ? 500 : 300)) {
       return;
     }
 
@@ -134,42 +165,84 @@ const WebcamDisplay: React.FC<WebcamDisplayProps> = ({ onFaceRecognized, registe
     }
 
     try {
-      processingFrame.current = true;
+      frameInFlight.current = true;
       lastDetectionTime.current = now;
+      const startedAt = performance.now();
 
-      // Optimize canvas size for mobile
+      // Detect on smaller frames on mobile
       const scale = isMobile ? 0.5 : 1;
       const scaledSize = {
-        width: displaySize.width * scale,
-        height: displaySize.height * scale
+        width: Math.round(displaySize.width * scale),
+        height: Math.round(displaySize.height * scale)
       };
 
+      const frame = await createImageBitmap(video, { resizeWidth: scaledSize.width, resizeHeight: scaledSize.height });
+      // The smaller mobile frames give lower scores, so mobile kiosks accept less confident faces
+      const minConfidence = isMobile ? settings.minConfidence * settings.mobileConfidenceScale : settings.minConfidence;
+      const detected = await detectInFrame(frame, minConfidence);
+      recordTiming(startedAt, performance.now());
+
+      // Back to video pixels
+      const faces = detected.map(face => ({
+        ...face,
+        box: { x: face.box.x / scale, y: face.box.y / scale, width: face.box.width / scale, height: face.box.height / scale },
+        landmarks: face.landmarks.map(point => ({ x: point.x / scale, y: point.y / scale })),
+      }));
+
       faceapi.matchDimensions(canvas, displaySize);
+      const detectedAt = Date.now();
+      const camera = (video.srcObject as MediaStream | null)?.getVideoTracks()[0]?.label || null;
+      const location = locationRef.current.trim() || null;
+
+      // Each frame only votes on who a face is; the tracker settles identities over several frames
+      const tracks = updateTracker(tracker.current, faces.map(face => {
+        const bestMatch = faceMatcher ? faceMatcher.findBestMatch(face.descriptor) : null;
+        // Matcher labels are user ids, so two people with the same name stay distinct
+        const vote: TrackVote = bestMatch && bestMatch.distance < settings.matchThreshold && registeredUsers.some(u => u.id === bestMatch.label)
+          ? { userId: bestMatch.label, distance: bestMatch.distance }
+          : { userId: null, distance: bestMatch ? bestMatch.distance : null };
+        return { box: face.box, descriptor: face.descriptor, vote };
+      }), detectedAt);
 
-      const detections = await faceapi.detectAllFaces(
-        video, 
-        new faceapi.SsdMobilenetv1Options({ 
-          minConfidence: isMobile ? MIN_CONFIDENCE * 0.8 : MIN_CONFIDENCE // Lower confidence threshold for mobile
-        })
-      ).withFaceLandmarks().withFaceDescriptors();
-      
-      const resizedDetections = faceapi.resizeResults(detections, displaySize);
       const ctx = canvas.getContext('2d');
       
       if (ctx) {
         ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-        resizedDetections.forEach((detection: any) => {
-          const box = detection.detection.box;
-          let label = 'Unknown';
-          let color = 'rgba(255, 0, 0, 0.8)';
+        faces.forEach((detection, index) => {
+          const track: Track = tracks[index];
+          const box = detection.box;
+          const user = track.identity ? registeredUsers.find(u => u.id === track.identity) : undefined;
+          let label: string;
+          let color: string;
+
+          if (track.identity === undefined) {
+            label = `#${track.id} identifying ${Math.min(votesForLatest(track), TRACK_CONFIRM_VOTES)}/${TRACK_CONFIRM_VOTES}`;
+            color = 'rgba(148, 163, 184, 0.8)';
+          } else if (!user) {
+            label = `#${track.id} Unknown`;
+            color = 'rgba(255, 0, 0, 0.8)';
+            if (!track.reported) {
+              track.reported = true;
+              const latest = track.votes[track.votes.length - 1];
+              const face: UnknownFace = { detectionScore: detection.score, distance: latest.distance, camera, location };
+              onUnknownFace(face, detection.descriptor, () => captureEvidence(video, box));
+            }
+          } else {
+            // Only log attendance once the face has passed the liveness check
+            const landmarks = toLandmarks(detection.landmarks, displaySize.width, displaySize.height);
+            track.liveness = updateLiveness(track.liveness, landmarks, detectedAt);
+            const distance = identityDistance(track) ?? settings.matchThreshold;
+            const confidence = `${Math.round((1 - distance) * 100)}%`;
 
-          if (faceMatcher) {
-            const bestMatch = faceMatcher.findBestMatch(detection.descriptor);
-            if (bestMatch && bestMatch.label !== 'unknown' && bestMatch.distance < FACE_MATCH_THRESHOLD) {
-              label = `${bestMatch.label} (${Math.round((1 - bestMatch.distance) * 100)}%)`;
+            if (track.liveness.result) {
+              label = `#${track.id} ${user.name} (${confidence}) ✓ verified`;
               color = 'rgba(0, 255, 0, 0.8)';
-              onFaceRecognized(bestMatch.label);
+              const match: FaceMatch = { distance, detectionScore: detection.score, camera, location };
+              onFaceRecognized(user, track.liveness.result, match, () => captureEvidence(video, box));
+            } else {
+              label = `#${track.id} ${user.name} (${confidence}) verifying...`;
+              color = 'rgba(255, 200, 0, 0.8)';
             }
           }
           
@@ -189,65 +262,25 @@ const WebcamDisplay: React.FC<WebcamDisplayProps> = ({ onFaceRecognized, registe
     } catch (err) {
       console.error("Error during face detection:", err);
     } finally {
-      processingFrame.current = false;
+      frameInFlight.current = false;
     }
-  }, [faceMatcher, onFaceRecognized, isMobile]);
-
-  const saveAttendance = async (name: string) => {
-    try {
-      const response = await fetch('/.netlify/functions/attendance', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name,
-          timestamp: new Date().toISOString(),
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to save attendance record');
-      }
-
-      const newRecord = await response.json();
-      onAttendanceRecord(newRecord);
-    } catch (error) {
-      console.error('Error saving attendance:', error);
-    }
-  };
-
-  useEffect(() => {
-    loadModels();
-  }, [loadModels]);
+  }, [faceMatcher, registeredUsers, onFaceRecognized, onUnknownFace, settings, isMobile]);
 
+  // (Re)open the camera whenever a different one is picked
   useEffect(() => {
-    if (videoRef.current && !videoRef.current.srcObject) {
+    const videoElement = videoRef.current;
+    if (videoElement && !videoElement.srcObject) {
       startWebcam();
     }
     return () => {
-      if (videoRef.current?.srcObject) {
-        const stream = videoRef.current.srcObject as MediaStream;
+      if (videoElement?.srcObject) {
+        const stream = videoElement.srcObject as MediaStream;
         stream.getTracks().forEach(track => track.stop());
+        videoElement.srcObject = null;
       }
     };
   }, [startWebcam]);
 
-  useEffect(() => {
-    if (registeredUsers.length > 0 && faceapi && faceapi.LabeledFaceDescriptors && faceapi.FaceMatcher) {
-      const labeledDescriptors: LabeledFaceDescriptor[] = registeredUsers.map(user => 
-        new faceapi.LabeledFaceDescriptors(user.name, [user.descriptor])
-      );
-      if (labeledDescriptors.length > 0) {
-        setFaceMatcher(new faceapi.FaceMatcher(labeledDescriptors, FACE_MATCH_THRESHOLD));
-      } else {
-        setFaceMatcher(null);
-      }
-    } else {
-      setFaceMatcher(null);
-    }
-  }, [registeredUsers]);
-
   useEffect(() => {
     if (videoRef.current && !error) {
       const videoElement = videoRef.current;
@@ -255,7 +288,8 @@ const WebcamDisplay: React.FC<WebcamDisplayProps> = ({ onFaceRecognized, registe
         if (detectionIntervalRef.current) {
           clearInterval(detectionIntervalRef.current);
         }
-        detectionIntervalRef.current = window.setInterval(detectFaces, isMobile ? 500 : 300);
+        // Ticks often; frames are only grabbed when the detector is free
+        detectionIntervalRef.current = window.setInterval(detectFaces, DETECTION_TICK_MS);
       };
 
       if (videoElement.readyState >= 3) {
@@ -269,22 +303,10 @@ const WebcamDisplay: React.FC<WebcamDisplayProps> = ({ onFaceRecognized, registe
           clearInterval(detectionIntervalRef.current);
           detectionIntervalRef.current = null;
         }
-        if (videoElement.srcObject) {
-          const stream = videoElement.srcObject as MediaStream;
-          stream.getTracks().forEach(track => track.stop());
-        }
       };
     }
   }, [detectFaces, error, isMobile]);
 
-  if (error) {
-    return (
-      <div className="text-red-400 bg-red-900 bg-opacity-50 p-4 rounded-lg text-sm sm:text-base">
-        {error}
-      </div>
-    );
-  }
-  
   return (
     <div className="relative w-full aspect-video bg-slate-900 rounded-lg overflow-hidden shadow-md">
       <video 
@@ -298,7 +320,24 @@ const WebcamDisplay: React.FC<WebcamDisplayProps> = ({ onFaceRecognized, registe
         ref={canvasRef} 
         className="absolute top-0 left-0 w-full h-full"
       />
-      {!isVideoReady && (
+      {feed.location.trim() && (
+        <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black bg-opacity-60 text-white text-xs">
+          {feed.location}
+        </span>
+      )}
+      {stats && isVideoReady && !error && (
+        <span
+          className="absolute bottom-2 right-2 px-2 py-0.5 rounded bg-black bg-opacity-60 text-white text-xs font-mono"
+          title={stats.inWorker ? 'Detection runs in a background worker' : 'Detection runs in the page'}
+        >
+          {stats.fps} fps · {stats.latencyMs} ms{stats.inWorker ? '' : ' (in page)'}
+        </span>
+      )}
+      {error ? (
+        <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-red-400 bg-red-900 bg-opacity-50 text-sm sm:text-base">
+          {error}
+        </div>
+      ) : !isVideoReady && (
         <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 text-white text-sm sm:text-base">
           Initializing Camera...
         </div>
@@ -0,0 +1,193 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Webhook, WebhookDelivery, WebhookEvent } from '../types';
+import { api } from '../services/api';
+
+const EVENTS: { value: WebhookEvent; label: string }[] = [
+  { value: 'attendance.created', label: 'Attendance logged' },
+  { value: 'person.enrolled', label: 'Person enrolled' },
+  { value: 'unknown.face.seen', label: 'Unknown face seen' },
+];
+
+const STATUS_CLASSES: Record<WebhookDelivery['status'], string> = {
+  delivered: 'text-green-400',
+  pending: 'text-yellow-400',
+  failed: 'text-red-400',
+};
+
+const formatOutcome = (delivery: WebhookDelivery) => {
+  if (delivery.status === 'delivered') return `Delivered (${delivery.responseStatus})`;
+  const error = delivery.error || 'Not sent yet';
+  if (delivery.status === 'failed') return `Failed after ${delivery.attempts} attempts: ${error}`;
+  return delivery.attempts === 0
+    ? 'Queued'
+    : `${error}. Retry ${delivery.nextAttemptAt ? new Date(delivery.nextAttemptAt).toLocaleTimeString() : 'soon'}`;
+};
+
+// Endpoints in other systems that are notified of attendance events, managed by admins
+const WebhooksPanel: React.FC = () => {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(['attendance.created']);
+  const [newWebhook, setNewWebhook] = useState<Webhook | null>(null);
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      setWebhooks(await api.webhooks.list());
+    } catch (error) {
+      console.error('Error fetching webhooks:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  const run = async (action: () => Promise<void>) => {
+    setMessage(null);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error('Error updating webhooks:', error);
+      setMessage(error.message || 'Request failed');
+    }
+  };
+
+  const loadDeliveries = (webhook: Webhook) => run(async () => {
+    setDeliveries(await api.webhooks.deliveries(webhook.id));
+  });
+
+  const toggleLog = (webhook: Webhook) => {
+    if (openLogId === webhook.id) {
+      setOpenLogId(null);
+      return;
+    }
+    setOpenLogId(webhook.id);
+    setDeliveries([]);
+    loadDeliveries(webhook);
+  };
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setEvents(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event]);
+
+  const createWebhook = () => run(async () => {
+    const webhook = await api.webhooks.create({ url: url.trim(), events, description: description.trim() });
+    const { secret: _secret, ...listed } = webhook;
+    setWebhooks(prev => [...prev, listed]);
+    setNewWebhook(webhook);
+    setUrl('');
+    setDescription('');
+  });
+
+  const setActive = (webhook: Webhook, active: boolean) => run(async () => {
+    const updated = await api.webhooks.update(webhook.id, { active });
+    setWebhooks(prev => prev.map(w => w.id === updated.id ? updated : w));
+  });
+
+  const sendTest = (webhook: Webhook) => run(async () => {
+    const delivery = await api.webhooks.test(webhook.id);
+    setMessage(delivery.status === 'delivered'
+      ? `✅ Test event delivered to ${webhook.url}.`
+      : `Test event not delivered: ${delivery.error}`);
+    if (openLogId === webhook.id) await loadDeliveries(webhook);
+  });
+
+  const redeliver = (webhook: Webhook, delivery: WebhookDelivery) => run(async () => {
+    await api.webhooks.redeliver(webhook.id, delivery.id);
+    await loadDeliveries(webhook);
+  });
+
+  const deleteWebhook = (webhook: Webhook) => {
+    if (!window.confirm(`Delete the webhook for ${webhook.url}? Its delivery log is deleted too.`)) return;
+    run(async () => {
+      await api.webhooks.remove(webhook.id);
+      setWebhooks(prev => prev.filter(w => w.id !== webhook.id));
+    });
+  };
+
+  const inputClassName = "px-2 py-1.5 bg-slate-700 border border-slate-600 rounded-lg text-gray-100 text-sm outline-none focus:ring-2 focus:ring-sky-500";
+
+  return (
+    <div className="bg-slate-800 p-4 sm:p-6 rounded-xl shadow-2xl space-y-4">
+      <h2 className="text-lg sm:text-xl font-semibold text-sky-300">Webhooks</h2>
+
+      {webhooks.length > 0 && (
+        <ul className="divide-y divide-slate-700 rounded-md border border-slate-700">
+          {webhooks.map(webhook => (
+            <li key={webhook.id} className="px-3 py-2 text-sm space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className={`truncate ${webhook.active ? 'text-slate-200' : 'text-slate-500 line-through'}`} title={webhook.url}>
+                  {webhook.description || webhook.url}
+                </span>
+                <div className="flex gap-3 shrink-0 text-xs">
+                  <button onClick={() => sendTest(webhook)} className="text-sky-400 hover:text-sky-300">Test</button>
+                  <button onClick={() => toggleLog(webhook)} className="text-sky-400 hover:text-sky-300">Log</button>
+                  <button onClick={() => setActive(webhook, !webhook.active)} className="text-slate-400 hover:text-slate-300">
+                    {webhook.active ? 'Pause' : 'Resume'}
+                  </button>
+                  <button onClick={() => deleteWebhook(webhook)} className="text-red-400 hover:text-red-300">Delete</button>
+                </div>
+              </div>
+              <p className="text-xs text-slate-500">
+                {webhook.events.join(', ')} · secret …{webhook.secretHint}
+              </p>
+              {openLogId === webhook.id && (
+                <ul className="max-h-40 overflow-y-auto rounded bg-slate-900 p-2 space-y-1 text-xs">
+                  {deliveries.length === 0 && <li className="text-slate-500">No deliveries yet.</li>}
+                  {deliveries.map(delivery => (
+                    <li key={delivery.id} className="flex justify-between gap-2">
+                      <span className="min-w-0">
+                        <span className="text-slate-400">{new Date(delivery.createdAt).toLocaleString()}</span>{' '}
+                        <span className="text-slate-200">{delivery.event}</span>{' '}
+                        <span className={STATUS_CLASSES[delivery.status]}>{formatOutcome(delivery)}</span>
+                      </span>
+                      {delivery.status !== 'pending' && (
+                        <button onClick={() => redeliver(webhook, delivery)} className="text-sky-400 hover:text-sky-300 shrink-0">Resend</button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <input type="url" value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://example.com/hooks/attendance" className={`w-full ${inputClassName}`} />
+        <input type="text" value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Description, e.g. HR system" className={`w-full ${inputClassName}`} />
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-300">
+          {EVENTS.map(event => (
+            <label key={event.value} className="flex items-center gap-1.5">
+              <input type="checkbox" checked={events.includes(event.value)} onChange={() => toggleEvent(event.value)} />
+              {event.label}
+            </label>
+          ))}
+        </div>
+        <button
+          onClick={createWebhook}
+          disabled={!url.trim() || events.length === 0}
+          className="bg-sky-500 hover:bg-sky-600 text-white font-semibold py-1.5 px-3 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add Webhook
+        </button>
+        {newWebhook && (
+          <div className="p-2 rounded-md bg-slate-900 text-xs space-y-1">
+            <p className="text-yellow-300">Copy this signing secret into the receiving system now. It will not be shown again.</p>
+            <code className="block break-all text-slate-200 select-all">{newWebhook.secret}</code>
+            <button onClick={() => setNewWebhook(null)} className="text-slate-400 hover:text-slate-300">Done</button>
+          </div>
+        )}
+      </div>
+
+      {message && (
+        <p className={`text-xs sm:text-sm p-2 rounded-md ${message.startsWith('✅') ? 'text-green-300' : 'text-red-300'}`}>{message}</p>
+      )}
+    </div>
+  );
+};
+
+export default WebhooksPanel;
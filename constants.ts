@@ -1,5 +1,74 @@
+import { DetectorKind, RecognitionSettings } from './types';
 
+// Model weights are loaded from the first of these that has them, and cached for offline starts
+export const LOCAL_MODEL_URL = '/models'; // Bundled with the app from public/models
 export const MODEL_URL = 'https://raw.githubusercontent.com/justadudewhohacks/face-api.js/master/weights';
-export const MIN_CONFIDENCE = 0.6; // Minimum confidence for face detection
-export const FACE_MATCH_THRESHOLD = 0.5; // Stricter threshold for matching, face-api.js default is 0.6, but 0.5 can be better for fewer known faces.
-export const ATTENDANCE_COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes cooldown for logging the same person
+export const MODEL_CACHE_NAME = 'face-api-models'; // Cache Storage bucket shared by the page and the detection worker
+export const FACE_API_VERSION = 'face-api.js@0.22.2'; // Recorded with each attendance record, with the models used
+// face-api.js itself, served from the installed package (see vite.config.ts) with the CDN as fallback; the
+// page loads it from index.html and the detection worker loads it again
+export const FACE_API_SCRIPT_URLS = ['/face-api.min.js', 'https://cdn.jsdelivr.net/npm/face-api.js@0.22.2/dist/face-api.min.js'];
+// Face detectors a kiosk can pick from; landmarks and descriptors use the same models either way
+export const DETECTORS: Record<DetectorKind, { label: string; hint: string }> = {
+  ssd_mobilenetv1: { label: 'SSD MobileNet', hint: 'Most accurate, finds small and turned faces; slow on weak hardware' },
+  tiny_face_detector: { label: 'Tiny Face Detector', hint: 'Several times faster; misses more small or angled faces' },
+};
+export const DEFAULT_DETECTOR: DetectorKind = 'ssd_mobilenetv1';
+export const TINY_FACE_DETECTOR_INPUT_SIZE = 416; // Multiple of 32; smaller is faster but misses faces further away
+export const DETECTOR_BENCHMARK_RUNS = 10; // Timed frames per detector, after one warm-up frame
+// Recognition settings until the server's are loaded; admins change them at runtime in the Settings panel.
+// Keep in step with the defaults in server/settings.js.
+export const DEFAULT_SETTINGS: RecognitionSettings = {
+  minConfidence: 0.6,
+  mobileConfidenceScale: 0.8,
+  matchThreshold: 0.5, // Stricter than the face-api.js default of 0.6, which suits rosters with few people
+  attendanceCooldownMinutes: 5,
+};
+export const BORDERLINE_MATCH_MARGIN = 0.05; // Matches this close to the threshold are highlighted in the log for review
+// Tracking: faces are followed across frames and an identity is only accepted once enough recent frames agree on it
+export const TRACK_MIN_IOU = 0.3; // Box overlap between frames that counts as the same face
+export const TRACK_MAX_DESCRIPTOR_DISTANCE = 0.45; // Or descriptors this close, for faces that moved quickly
+export const TRACK_STALE_MS = 1500; // A face out of view this long starts a new track when it returns
+export const TRACK_VOTE_WINDOW = 8; // Recent frames that vote on a track's identity
+export const TRACK_CONFIRM_VOTES = 5; // Votes (and a majority of the window) needed to confirm an identity, or that the face is unknown
+export const DETECTION_TICK_MS = 30; // How often each feed checks whether the detector is free for its next frame
+export const DETECTION_STATS_INTERVAL_MS = 500; // How often the FPS and latency readout is refreshed
+export const MAX_CAMERA_FEEDS = 4; // Each feed runs its own detection loop, so more would slow every one of them down
+
+// Guided enrollment: one sample is captured per prompt, so people are enrolled under varied angles and lighting
+export const ENROLLMENT_PROMPTS = [
+  'Look straight at the camera',
+  'Turn your head slightly to the left',
+  'Turn your head slightly to the right',
+  'Tilt your chin up a little',
+  'Tilt your chin down a little',
+];
+export const ENROLLMENT_SAMPLE_DELAY_MS = 1500; // Time given to follow each prompt before capturing
+export const ENROLLMENT_MAX_ATTEMPTS = 4; // Detection attempts per prompt before the sample is skipped
+export const ENROLLMENT_MIN_SAMPLES = 3; // Enrollment fails if fewer samples than this contain a usable face
+
+// Liveness: a person must blink or turn their head before attendance is logged, so a held-up photo is rejected
+export const LIVENESS_EAR_CLOSED = 0.21; // Eye aspect ratio below this counts as eyes closed
+export const LIVENESS_EAR_OPEN = 0.25; // Eye aspect ratio above this counts as eyes open again
+export const LIVENESS_YAW_RANGE = 0.08; // Change in nose position between the eyes (fraction of eye distance) that counts as head movement
+export const LIVENESS_STALE_MS = 3000; // Forget a face's liveness progress after it has been out of view this long
+export const LIVENESS_VERIFIED_TTL_MS = 60 * 1000; // How long a passed check stays valid while the face remains in view
+
+// Offline outbox: attendance writes are queued in IndexedDB and retried with exponential backoff
+export const OUTBOX_BASE_BACKOFF_MS = 2000;
+export const OUTBOX_MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+// Evidence snapshots: a cropped face (and optionally the whole frame) is uploaded with each record
+export const EVIDENCE_THUMBNAIL_SIZE = 160; // Width and height of the face thumbnail in pixels
+export const EVIDENCE_FACE_MARGIN = 0.3; // Space kept around the face box, as a fraction of its size
+export const EVIDENCE_CAPTURE_FRAME = false; // Also upload the full video frame
+export const EVIDENCE_FRAME_MAX_WIDTH = 960; // Full frames are scaled down to at most this width
+export const EVIDENCE_JPEG_QUALITY = 0.8;
+
+// Uploads: rooms without a kiosk send a class photo or a short clip, which is analyzed in the browser
+export const UPLOAD_VIDEO_SAMPLE_MS = 500; // One video frame is analyzed per interval
+export const UPLOAD_MAX_VIDEO_SECONDS = 300; // Longer videos are only analyzed up to here
+export const UPLOAD_MAX_FRAME_WIDTH = 1920; // Larger photos and frames are scaled down; group photos need the detail for small faces
+
+// Bulk enrollment: photos closer than this to someone already enrolled are flagged as possible duplicates
+export const BULK_DUPLICATE_THRESHOLD = 0.45;
@@ -0,0 +1,97 @@
+const config = require('../../server/config');
+const { configurationError, getStorage } = require('../../server/storage');
+const { corsHeaders } = require('../../server/auth');
+const { matchRoute, runRoute } = require('../../server/router');
+
+// Functions are frozen once they return, so webhooks and live events queued by a request are
+// sent before responding
+let pending = [];
+const later = (label, task) => {
+  pending.push(task().catch(error => console.error(`Error ${label}:`, error)));
+};
+
+// Storage and the routes that use it open on the first request rather than at import, so a deploy
+// without storage configured answers with what is missing instead of failing to load
+let app = null;
+function openApp() {
+  if (!app) {
+    const storage = getStorage();
+    const { createRoutes } = require('../../server/routes');
+    app = { storage, routes: createRoutes({ later }) };
+  }
+  return app;
+}
+
+// Requests arrive as /api/<path> through the redirect in netlify.toml, or at the function itself
+const routePath = path => path.replace(/^\/\.netlify\/functions\/api/, '').replace(/^\/api/, '') || '/';
+
+function parseBody(event) {
+  if (!event.body) return {};
+  const text = event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body;
+  return JSON.parse(text);
+}
+
+exports.handler = async function(event, context) {
+  // Set CORS headers
+  const headers = {
+    ...corsHeaders(event.headers.origin),
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, Idempotency-Key, Last-Event-ID',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS'
+  };
+  const json = (statusCode, body, extraHeaders) => ({
+    statusCode,
+    headers: { ...headers, 'Content-Type': 'application/json', ...extraHeaders },
+    body: JSON.stringify(body)
+  });
+
+  // Handle preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  const path = routePath(event.path);
+  // Functions cannot hold event streams open; changes are still logged for an Express server to push
+  if (path.replace(/\/$/, '') === '/events') {
+    return json(501, { message: 'Live updates need the Express server' });
+  }
+
+  const misconfigured = configurationError(config);
+  if (misconfigured) {
+    console.error('Storage is not configured:', misconfigured);
+    return json(503, { message: `Storage is not configured: ${misconfigured}` });
+  }
+  const { storage, routes } = openApp();
+
+  const matched = matchRoute(routes, event.httpMethod, path);
+  if (!matched) {
+    const known = routes.some(candidate => candidate.pattern.test(path));
+    return json(known ? 405 : 404, { message: known ? 'Method not allowed' : 'Not found' });
+  }
+
+  let body;
+  try {
+    body = parseBody(event);
+  } catch (error) {
+    return json(400, { message: 'Request body must be JSON' });
+  }
+
+  pending = [];
+  const result = await runRoute(storage, matched.route, {
+    params: matched.params,
+    query: event.queryStringParameters || {},
+    body,
+    headers: event.headers
+  });
+  await Promise.all(pending);
+
+  if (result.raw !== undefined) {
+    const responseHeaders = { ...headers, ...result.headers };
+    return Buffer.isBuffer(result.raw)
+      ? { statusCode: result.status, headers: responseHeaders, body: result.raw.toString('base64'), isBase64Encoded: true }
+      : { statusCode: result.status, headers: responseHeaders, body: result.raw };
+  }
+  if (result.body === undefined) {
+    return { statusCode: result.status, headers: { ...headers, ...result.headers }, body: '' };
+  }
+  return json(result.status, result.body, result.headers);
+};
@@ -0,0 +1,21 @@
+const config = require('../../server/config');
+const { configurationError, getStorage } = require('../../server/storage');
+const { pruneEvidence } = require('../../server/evidence');
+const { purgeExpired } = require('../../server/privacy');
+
+// Scheduled in netlify.toml. Functions have no timers of their own, so the jobs the Express server
+// runs on an interval run here instead: retention limits, and encrypting descriptors stored before
+// encryption was added.
+exports.handler = async function() {
+  const misconfigured = configurationError(config);
+  if (misconfigured) {
+    console.error('Retention run skipped, storage is not configured:', misconfigured);
+    return { statusCode: 503, body: '' };
+  }
+  const storage = getStorage();
+  const encrypted = await storage.encryptPlaintext();
+  const evidenceFiles = await pruneEvidence();
+  const purged = await purgeExpired(storage);
+  console.log('Retention run:', JSON.stringify({ encrypted, evidenceFiles, purged }));
+  return { statusCode: 200, body: '' };
+};
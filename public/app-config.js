@@ -0,0 +1,7 @@
+// Runtime configuration, read before the app starts. Edit this file in a deployed build to change
+// settings without rebuilding.
+window.APP_CONFIG = {
+  // Base URL of the API, e.g. 'https://attendance.example.com/api'. Leave unset to use the
+  // VITE_API_URL the app was built with, or /api on the app's own origin.
+  // apiUrl: '',
+};
@@ -0,0 +1,327 @@
+// Attendance records: the metadata stored with each recognition, and manual corrections.
+// Every change to a record is appended to the `audit_log` collection, which is never edited.
+
+const crypto = require('crypto');
+const { EVENT_TYPES, resolveEventType, dayOf } = require('./shifts');
+const { findRunningSession } = require('./sessions');
+
+// Recognition metadata a kiosk may send, by field and expected type; anything else is dropped
+const RECOGNITION_FIELDS = {
+  distance: 'number',
+  threshold: 'number',
+  detectionScore: 'number',
+  camera: 'string',
+  location: 'string',
+  deviceId: 'string',
+  appVersion: 'string',
+  model: 'string'
+};
+
+// Validate the `recognition` field of an attendance request, returning an error message or null
+function validateRecognition(recognition) {
+  if (recognition === undefined || recognition === null) return null;
+  if (typeof recognition !== 'object' || Array.isArray(recognition)) return 'Recognition metadata must be an object';
+  for (const [field, type] of Object.entries(RECOGNITION_FIELDS)) {
+    const value = recognition[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+      return `Recognition ${field} must be a ${type}`;
+    }
+  }
+  return null;
+}
+
+// The known recognition fields, with missing ones as null
+function pickRecognition(recognition) {
+  if (!recognition) return null;
+  return Object.fromEntries(Object.keys(RECOGNITION_FIELDS).map(field => [field, recognition[field] ?? null]));
+}
+
+// Methods of the kiosk's liveness check (LivenessMethod in types.ts)
+const LIVENESS_METHODS = ['blink', 'head-movement'];
+
+// Validate the `liveness` field of an attendance request, returning an error message or null
+function validateLiveness(liveness) {
+  if (liveness === undefined || liveness === null) return null;
+  if (typeof liveness !== 'object' || Array.isArray(liveness)) return 'Liveness must be an object';
+  if (typeof liveness.passed !== 'boolean') return 'Liveness passed must be a boolean';
+  if (!LIVENESS_METHODS.includes(liveness.method)) return `Liveness method must be one of ${LIVENESS_METHODS.join(', ')}`;
+  if (typeof liveness.verifiedAt !== 'string' || isNaN(Date.parse(liveness.verifiedAt))) {
+    return 'Liveness verifiedAt must be a valid date';
+  }
+  return null;
+}
+
+// A validated liveness result without any other fields
+const pickLiveness = liveness => (liveness
+  ? { passed: liveness.passed, method: liveness.method, verifiedAt: new Date(liveness.verifiedAt).toISOString() }
+  : null);
+
+// Who posted a record, taken from the authenticated caller rather than the request body
+const recordedBy = principal => (principal ? { kind: principal.kind, id: principal.id, name: principal.name } : null);
+
+// Validate a kiosk's attendance post, returning an error message or null. Recognition metadata and
+// evidence are validated on their own.
+function validateRecord({ id, name, userId, sessionId, type, timestamp } = {}) {
+  if (id !== undefined && id !== null && (typeof id !== 'string' || !id)) return 'Id must be a non-empty string';
+  if (typeof name !== 'string' || !name.trim()) return 'Name is required';
+  if (isNaN(Date.parse(timestamp))) return 'Timestamp must be a valid date';
+  if (userId !== undefined && userId !== null && typeof userId !== 'string') return 'User id must be a string';
+  if (sessionId !== undefined && sessionId !== null && typeof sessionId !== 'string') return 'Session id must be a string';
+  if (type && type !== 'auto' && !EVENT_TYPES.includes(type)) return `Type must be one of ${EVENT_TYPES.join(', ')} or auto`;
+  return null;
+}
+
+// Fields an admin may correct, in the order they are shown in a record's history
+const EDITABLE_FIELDS = ['userId', 'name', 'type', 'sessionId', 'timestamp'];
+
+// Validate a manual add or edit request, returning an error message or null.
+// Creating a record needs a person; edits only validate the fields they include.
+function validateCorrection(body, { creating = false } = {}) {
+  const { userId, name, type, sessionId, timestamp, reason } = body || {};
+  if (typeof reason !== 'string' || !reason.trim()) return 'A reason is required';
+  if (creating && !userId && !(typeof name === 'string' && name.trim())) return 'A person is required';
+  if (userId !== undefined && userId !== null && typeof userId !== 'string') return 'User id must be a string';
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) return 'Name cannot be empty';
+  if (type !== undefined && type !== null && !EVENT_TYPES.includes(type)) {
+    return `Type must be one of ${EVENT_TYPES.join(', ')} or null`;
+  }
+  if (sessionId !== undefined && sessionId !== null && typeof sessionId !== 'string') return 'Session id must be a string';
+  if (timestamp !== undefined && isNaN(Date.parse(timestamp))) return 'Timestamp must be a valid date';
+  return null;
+}
+
+// Record fields from a validated correction. Picking an enrolled person also takes their current
+// name; giving only a name detaches the record from any enrolled person.
+function correctionFields(tx, body) {
+  const fields = {};
+  if (body.userId) {
+    const user = tx.get('users', body.userId);
+    if (!user) return { error: 'Person not found' };
+    fields.userId = user.id;
+    fields.name = user.name;
+  } else if (body.name !== undefined) {
+    fields.userId = null;
+    fields.name = body.name.trim();
+  }
+  if (body.type !== undefined) fields.type = body.type || null;
+  if (body.sessionId !== undefined) {
+    if (body.sessionId && !tx.get('sessions', body.sessionId)) return { error: 'Session not found' };
+    fields.sessionId = body.sessionId || null;
+  }
+  if (body.timestamp !== undefined) {
+    const when = new Date(body.timestamp);
+    fields.timestamp = when.toISOString();
+    fields.date = when.toLocaleDateString();
+    fields.time = when.toLocaleTimeString();
+  }
+  return { fields };
+}
+
+// { field: { from, to } } for every editable field the update actually changes
+function changesBetween(record, fields) {
+  const changes = {};
+  EDITABLE_FIELDS.forEach(field => {
+    if (!(field in fields)) return;
+    const from = record ? record[field] ?? null : null;
+    if (from !== fields[field]) changes[field] = { from, to: fields[field] };
+  });
+  return changes;
+}
+
+// Append one entry to the audit log
+function appendAudit(tx, recordId, action, principal, { changes = null, reason = null } = {}) {
+  return tx.insert('audit_log', {
+    id: crypto.randomUUID(),
+    recordId,
+    action,
+    actor: recordedBy(principal),
+    at: new Date().toISOString(),
+    changes,
+    reason
+  });
+}
+
+const notFound = { status: 404, body: { message: 'Attendance record not found' } };
+
+// Mark someone present whom the camera missed. Runs inside a transaction over
+// attendance, sessions, users and audit_log; returns { status, body }.
+function createManualRecord(tx, body, principal) {
+  const { fields, error } = correctionFields(tx, { ...body, timestamp: body.timestamp || new Date().toISOString() });
+  if (error) return { status: 400, body: { message: error } };
+
+  const session = fields.sessionId === undefined ? findRunningSession(tx.list('sessions'), fields.timestamp) : null;
+  const record = {
+    id: `manual-${crypto.randomUUID()}`,
+    name: fields.name,
+    userId: fields.userId,
+    sessionId: fields.sessionId !== undefined ? fields.sessionId : (session ? session.id : null),
+    type: body.type === 'auto' ? resolveEventType(tx.list('attendance'), fields.userId || fields.name, fields.timestamp) : (fields.type || null),
+    timestamp: fields.timestamp,
+    date: fields.date,
+    time: fields.time,
+    liveness: null,
+    recognition: null,
+    recordedBy: recordedBy(principal),
+    evidence: null,
+    idempotencyKey: null,
+    source: 'manual'
+  };
+  tx.insert('attendance', record);
+  appendAudit(tx, record.id, 'create', principal, { changes: changesBetween(null, record), reason: body.reason.trim() });
+  return { status: 201, body: record };
+}
+
+// Attendance for someone seen before they were enrolled, from one of their unknown-face sightings.
+// The record keeps the sighting's id, and the sighting's evidence images are moved over to it.
+function backfillRecord(tx, user, sighting, principal) {
+  const when = new Date(sighting.seenAt);
+  const session = findRunningSession(tx.list('sessions'), when.toISOString());
+  const record = {
+    id: sighting.id,
+    name: user.name,
+    userId: user.id,
+    sessionId: session ? session.id : null,
+    type: null,
+    timestamp: when.toISOString(),
+    date: when.toLocaleDateString(),
+    time: when.toLocaleTimeString(),
+    liveness: null,
+    recognition: sighting.recognition,
+    recordedBy: sighting.recordedBy,
+    evidence: sighting.evidence,
+    idempotencyKey: null,
+    source: 'backfill'
+  };
+  tx.insert('attendance', record);
+  appendAudit(tx, record.id, 'create', principal, { reason: 'Backfilled from unknown-face sightings' });
+  return record;
+}
+
+// Correct fields of a record; voided records are final
+function correctRecord(tx, id, body, principal) {
+  const record = tx.get('attendance', id);
+  if (!record) return notFound;
+  if (record.voidedAt) return { status: 409, body: { message: 'Voided records cannot be edited' } };
+
+  const { fields, error } = correctionFields(tx, body);
+  if (error) return { status: 400, body: { message: error } };
+
+  const changes = changesBetween(record, fields);
+  if (Object.keys(changes).length === 0) return { status: 200, body: record };
+
+  const updated = tx.update('attendance', id, fields);
+  appendAudit(tx, id, 'edit', principal, { changes, reason: body.reason.trim() });
+  return { status: 200, body: updated };
+}
+
+// Soft delete: the record stays in the log, marked void, and stops counting in reports and rolls
+function voidRecord(tx, id, reason, principal) {
+  if (typeof reason !== 'string' || !reason.trim()) return { status: 400, body: { message: 'A reason is required' } };
+  const record = tx.get('attendance', id);
+  if (!record) return notFound;
+  if (record.voidedAt) return { status: 409, body: { message: 'Record is already void' } };
+
+  const updated = tx.update('attendance', id, {
+    voidedAt: new Date().toISOString(),
+    voidedBy: recordedBy(principal),
+    voidReason: reason.trim()
+  });
+  appendAudit(tx, id, 'void', principal, { reason: reason.trim() });
+  return { status: 200, body: updated };
+}
+
+// Audit entries for one record, oldest first
+const recordHistory = (entries, recordId) => entries
+  .filter(entry => entry.recordId === recordId)
+  .sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const SORT_ORDERS = ['newest', 'oldest'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Cursors are opaque to clients: the sort key of the last record on the previous page
+const encodeCursor = record => Buffer.from(JSON.stringify([Date.parse(record.timestamp), record.id])).toString('base64url');
+
+function decodeCursor(cursor) {
+  try {
+    const [time, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    return Number.isFinite(time) && typeof id === 'string' ? { time, id } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Parse the query string of a list request into filters, or { error } when it is invalid.
+// Supported: from, to (YYYY-MM-DD, inclusive), userId, sessionId, deviceId, q (name search),
+// sort (newest|oldest), limit and cursor.
+function parseAttendanceQuery(query = {}) {
+  const { from, to, userId, sessionId, deviceId, q, sort = 'newest', limit, cursor } = query;
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) return { error: 'Dates must be YYYY-MM-DD' };
+  if (!SORT_ORDERS.includes(sort)) return { error: `Sort must be one of ${SORT_ORDERS.join(', ')}` };
+
+  const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : Number(limit);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return { error: `Limit must be a whole number from 1 to ${MAX_PAGE_SIZE}` };
+  }
+  const after = cursor ? decodeCursor(cursor) : null;
+  if (cursor && !after) return { error: 'Invalid cursor' };
+
+  return {
+    filters: {
+      from: from || null,
+      to: to || null,
+      userId: userId || null,
+      sessionId: sessionId || null,
+      deviceId: deviceId || null,
+      search: q ? String(q).trim().toLowerCase() : '',
+      sort,
+      limit: pageSize,
+      after
+    }
+  };
+}
+
+// One page of matching records in the requested order, ties broken by id so pages never overlap
+function queryAttendance(records, filters) {
+  const direction = filters.sort === 'oldest' ? 1 : -1;
+  const compare = (time, id, other) => direction * (time - other.time || (id < other.id ? -1 : id > other.id ? 1 : 0));
+
+  const matching = records.filter(record => {
+    const date = dayOf(record.timestamp);
+    if (filters.from && date < filters.from) return false;
+    if (filters.to && date > filters.to) return false;
+    if (filters.userId && record.userId !== filters.userId) return false;
+    if (filters.sessionId && record.sessionId !== filters.sessionId) return false;
+    if (filters.deviceId && record.recognition?.deviceId !== filters.deviceId) return false;
+    if (filters.search && !String(record.name).toLowerCase().includes(filters.search)) return false;
+    return !filters.after || compare(Date.parse(record.timestamp), record.id, filters.after) > 0;
+  });
+
+  const sorted = matching.sort((a, b) => compare(Date.parse(a.timestamp), a.id, { time: Date.parse(b.timestamp), id: b.id }));
+  const page = sorted.slice(0, filters.limit);
+  return {
+    records: page,
+    nextCursor: sorted.length > filters.limit ? encodeCursor(page[page.length - 1]) : null
+  };
+}
+
+module.exports = {
+  DATE_PATTERN,
+  validateRecord,
+  validateRecognition,
+  pickRecognition,
+  validateLiveness,
+  pickLiveness,
+  recordedBy,
+  validateCorrection,
+  appendAudit,
+  createManualRecord,
+  backfillRecord,
+  correctRecord,
+  voidRecord,
+  recordHistory,
+  parseAttendanceQuery,
+  queryAttendance
+};
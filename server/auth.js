@@ -0,0 +1,203 @@
+// Authentication and roles. People sign in with a username and password and get a login
+// session (an HttpOnly cookie); kiosk devices send an API token as `Authorization: Bearer`.
+// Only hashes of passwords, session tokens and API tokens are ever stored.
+
+const crypto = require('crypto');
+const config = require('./config');
+
+const PERMISSIONS = {
+  admin: [
+    'attendance:read', 'attendance:write', 'attendance:edit',
+    'users:read', 'users:write',
+    'sessions:read', 'sessions:write',
+    'reports:read',
+    'evidence:read',
+    'access:manage',
+    'webhooks:manage',
+    'settings:read', 'settings:manage',
+    'privacy:manage'
+  ],
+  viewer: ['attendance:read', 'sessions:read', 'reports:read'],
+  // Kiosks need the enrolled faces and sessions to recognize people, but can only write recognitions
+  kiosk: ['attendance:write', 'users:read', 'sessions:read', 'settings:read']
+};
+
+// Roles a person can sign in with; `kiosk` belongs to API tokens only
+const ACCOUNT_ROLES = ['admin', 'viewer'];
+const SESSION_COOKIE = 'attendance_session';
+const TOKEN_PREFIX = 'kiosk_';
+const MIN_PASSWORD_LENGTH = 8;
+
+const hashToken = token => crypto.createHash('sha256').update(token).digest('hex');
+const generateToken = () => crypto.randomBytes(32).toString('base64url');
+
+function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+function verifyPassword(password, stored) {
+  const [scheme, salt, hash] = String(stored).split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(String(password), salt, expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Compared against when a username does not exist, so unknown names take as long as wrong passwords
+const DUMMY_PASSWORD_HASH = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+const publicAccount = ({ passwordHash, ...account }) => account;
+const publicToken = ({ tokenHash, ...token }) => token;
+
+function parseCookies(header) {
+  return String(header || '').split(';').reduce((cookies, pair) => {
+    const index = pair.indexOf('=');
+    if (index !== -1) cookies[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+    return cookies;
+  }, {});
+}
+
+function sessionCookie(token, expiresAt) {
+  const maxAge = Math.max(0, Math.floor((Date.parse(expiresAt) - Date.now()) / 1000));
+  return `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAge}${config.cookieSecure ? '; Secure' : ''}`;
+}
+
+const clearedSessionCookie = () => `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0${config.cookieSecure ? '; Secure' : ''}`;
+
+// The bearer token or login cookie from request headers (lower-case names, as Express and Netlify give them)
+function credentialsFrom(headers) {
+  const bearer = /^Bearer\s+(\S+)$/i.exec(headers.authorization || '');
+  return bearer ? bearer[1] : parseCookies(headers.cookie)[SESSION_COOKIE] || null;
+}
+
+const principalFor = (kind, id, name, role) => ({ kind, id, name, role, permissions: PERMISSIONS[role] || [] });
+
+// Resolve the caller from request headers; null when there are no valid credentials
+async function authenticate(storage, headers) {
+  const token = credentialsFrom(headers);
+  if (!token) return null;
+  const tokenHash = hashToken(token);
+
+  return storage.transaction(['api_tokens', 'auth_sessions', 'accounts'], tx => {
+    const apiToken = tx.list('api_tokens').find(t => t.tokenHash === tokenHash);
+    if (apiToken) return principalFor('token', apiToken.id, apiToken.name, apiToken.role);
+
+    const session = tx.get('auth_sessions', tokenHash);
+    if (!session || Date.parse(session.expiresAt) <= Date.now()) return null;
+    const account = tx.get('accounts', session.accountId);
+    return account ? principalFor('account', account.id, account.username, account.role) : null;
+  });
+}
+
+// Why a caller may not use a route (401 without credentials, 403 without the permission), or null
+function accessError(principal, permission) {
+  if (!principal) return { status: 401, message: 'Sign in required' };
+  if (!principal.permissions.includes(permission)) {
+    return { status: 403, message: `The ${principal.role} role cannot do this (${permission})` };
+  }
+  return null;
+}
+
+// CORS headers for an allowed browser origin; credentials are only accepted from these origins
+function corsHeaders(origin) {
+  if (!origin || !config.corsOrigins.includes(origin)) return {};
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Credentials': 'true',
+    'Vary': 'Origin'
+  };
+}
+
+const validatePassword = password => (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH
+  ? `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+  : null);
+
+// Validate the body of a create-account request, returning an error message or null
+function validateAccount({ username, password, role }) {
+  if (typeof username !== 'string' || !/^[a-z0-9._-]{3,32}$/i.test(username.trim())) {
+    return 'Username must be 3-32 letters, digits, dots, dashes or underscores';
+  }
+  if (!ACCOUNT_ROLES.includes(role)) return `Role must be one of ${ACCOUNT_ROLES.join(', ')}`;
+  return validatePassword(password);
+}
+
+function newAccount({ username, password, role }) {
+  return {
+    id: crypto.randomUUID(),
+    username: username.trim().toLowerCase(),
+    role,
+    passwordHash: hashPassword(password),
+    createdAt: new Date().toISOString()
+  };
+}
+
+// Create an account inside a storage transaction; null when the username is taken
+function createAccount(tx, fields) {
+  const account = newAccount(fields);
+  if (tx.list('accounts').some(existing => existing.username === account.username)) return null;
+  return publicAccount(tx.insert('accounts', account));
+}
+
+// Check a username and password and open a login session. While no accounts exist, the admin
+// from ADMIN_USERNAME / ADMIN_PASSWORD is created first so a fresh install can be signed into.
+function login(tx, { username, password }) {
+  if (tx.list('accounts').length === 0 && config.adminPassword) {
+    tx.insert('accounts', newAccount({ username: config.adminUsername, password: config.adminPassword, role: 'admin' }));
+  }
+
+  const name = String(username || '').trim().toLowerCase();
+  const account = tx.list('accounts').find(a => a.username === name);
+  const valid = verifyPassword(typeof password === 'string' ? password : '', account ? account.passwordHash : DUMMY_PASSWORD_HASH);
+  if (!account || !valid) return null;
+
+  const now = new Date();
+  tx.removeWhere('auth_sessions', session => Date.parse(session.expiresAt) <= now.getTime());
+
+  const token = generateToken();
+  const expiresAt = new Date(now.getTime() + config.sessionTtlHours * 60 * 60 * 1000).toISOString();
+  tx.insert('auth_sessions', { id: hashToken(token), accountId: account.id, createdAt: now.toISOString(), expiresAt });
+  return { token, expiresAt, principal: principalFor('account', account.id, account.username, account.role) };
+}
+
+// End the login session behind a request's cookie, if any
+function logout(tx, headers) {
+  const token = parseCookies(headers.cookie)[SESSION_COOKIE];
+  if (token) tx.remove('auth_sessions', hashToken(token));
+}
+
+// Issue a kiosk API token. The plain token is only returned here; afterwards just its hash is kept.
+function createApiToken(tx, { name }, createdBy) {
+  const token = TOKEN_PREFIX + generateToken();
+  const record = tx.insert('api_tokens', {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    role: 'kiosk',
+    // Leading characters shown in the admin UI so tokens can be told apart
+    hint: token.slice(0, TOKEN_PREFIX.length + 4),
+    tokenHash: hashToken(token),
+    createdBy,
+    createdAt: new Date().toISOString()
+  });
+  return { ...publicToken(record), token };
+}
+
+module.exports = {
+  PERMISSIONS,
+  ACCOUNT_ROLES,
+  hashPassword,
+  publicAccount,
+  publicToken,
+  sessionCookie,
+  clearedSessionCookie,
+  authenticate,
+  accessError,
+  corsHeaders,
+  validatePassword,
+  validateAccount,
+  createAccount,
+  login,
+  logout,
+  createApiToken
+};
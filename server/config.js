@@ -0,0 +1,33 @@
+const path = require('path');
+
+// Runtime configuration, read from the environment so the same code runs under Express and Netlify
+module.exports = {
+  // Set by AWS Lambda, which runs the Netlify functions
+  serverless: Boolean(process.env.AWS_LAMBDA_FUNCTION_NAME),
+  // `json` keeps one file per collection for a single process; `sqlite` keeps everything in one
+  // database file that several processes can share, and is the default for serverless functions
+  storageDriver: process.env.STORAGE_DRIVER || (process.env.AWS_LAMBDA_FUNCTION_NAME ? 'sqlite' : 'json'),
+  dataDir: process.env.DATA_DIR || __dirname,
+  dataDirConfigured: Boolean(process.env.DATA_DIR),
+  sqliteFile: process.env.SQLITE_FILE || 'attendance.db',
+
+  // Browser origins allowed to call the API with a login cookie
+  corsOrigins: (process.env.CORS_ORIGINS || 'http://localhost:5173').split(',').map(origin => origin.trim()),
+  sessionTtlHours: Number(process.env.SESSION_TTL_HOURS) || 12,
+  // Mark the login cookie Secure; enable whenever the app is served over HTTPS
+  cookieSecure: process.env.COOKIE_SECURE === 'true',
+  // First admin account, created on startup while no accounts exist
+  adminUsername: process.env.ADMIN_USERNAME || 'admin',
+  adminPassword: process.env.ADMIN_PASSWORD || null,
+  // Evidence snapshots older than this are deleted
+  evidenceRetentionDays: Number(process.env.EVIDENCE_RETENTION_DAYS) || 30,
+  // Attendance records, sightings and closed sessions older than this are deleted; 0 keeps them forever
+  attendanceRetentionDays: Number(process.env.ATTENDANCE_RETENTION_DAYS) || 0,
+  // Key that face descriptors are encrypted with: 32 random bytes, base64 (`openssl rand -base64 32`).
+  // Without one, a key is generated into DESCRIPTOR_KEY_FILE in the data directory.
+  descriptorKey: process.env.DESCRIPTOR_KEY || null,
+  descriptorKeyFile: process.env.DESCRIPTOR_KEY_FILE || 'descriptor.key'
+};
+
+module.exports.sqlitePath = path.resolve(module.exports.dataDir, module.exports.sqliteFile);
+module.exports.descriptorKeyPath = path.resolve(module.exports.dataDir, module.exports.descriptorKeyFile);
@@ -0,0 +1,114 @@
+// Evidence snapshots taken at recognition time: a cropped face thumbnail and, if the kiosk is
+// configured for it, the full video frame. Images are JPEG files under <DATA_DIR>/evidence rather
+// than storage documents so the attendance collection stays small, and they are deleted once
+// they are older than the retention limit.
+
+const fs = require('fs').promises;
+const path = require('path');
+const crypto = require('crypto');
+const config = require('./config');
+
+const KINDS = ['thumbnail', 'frame'];
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const evidenceDir = () => path.join(config.dataDir, 'evidence');
+
+// Record ids contain names and other arbitrary characters, so files are named by a hash of the
+// collection and the id. Attendance records and unknown-face sightings may share an id.
+const hashKey = value => crypto.createHash('sha256').update(value).digest('hex').slice(0, 32);
+const fileFor = (collection, id, kind) => path.join(evidenceDir(), `${hashKey(`${collection}/${id}`)}-${kind}.jpg`);
+
+const decodeImage = dataUrl => {
+  const match = /^data:image\/jpeg;base64,([A-Za-z0-9+/]+={0,2})$/.exec(dataUrl || '');
+  return match ? Buffer.from(match[1], 'base64') : null;
+};
+
+// Validate the `evidence` field of an attendance request, returning an error message or null
+function validateEvidence(evidence) {
+  if (evidence === undefined || evidence === null) return null;
+  if (typeof evidence !== 'object') return 'Evidence must be an object';
+  for (const kind of KINDS) {
+    if (evidence[kind] === undefined || evidence[kind] === null) continue;
+    const image = decodeImage(evidence[kind]);
+    if (!image) return `Evidence ${kind} must be a base64 JPEG data URL`;
+    if (image.length > MAX_IMAGE_BYTES) return `Evidence ${kind} is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`;
+  }
+  if (!evidence.thumbnail) return 'Evidence must include a thumbnail';
+  return null;
+}
+
+// The metadata kept on a record for its images, or null without evidence
+function describeEvidence(evidence) {
+  if (!evidence) return null;
+  const saved = Object.fromEntries(KINDS.map(kind => [kind, Boolean(decodeImage(evidence[kind]))]));
+  return { ...saved, capturedAt: new Date().toISOString() };
+}
+
+// Write the images of a record. Only called once the record has been stored as a new one, so a
+// request that repeats an id never replaces the images of the record already there.
+async function saveEvidence(collection, id, evidence) {
+  if (!evidence) return;
+  await fs.mkdir(evidenceDir(), { recursive: true });
+  for (const kind of KINDS) {
+    const image = decodeImage(evidence[kind]);
+    if (image) await fs.writeFile(fileFor(collection, id, kind), image);
+  }
+}
+
+// JPEG bytes for one image of a record, or null if there is none or it has expired
+async function readEvidence(collection, id, kind) {
+  try {
+    return await fs.readFile(fileFor(collection, id, kind));
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Delete the images of a record straight away, e.g. when an admin discards it
+async function removeEvidence(collection, id) {
+  await Promise.all(KINDS.map(kind => fs.rm(fileFor(collection, id, kind), { force: true })));
+}
+
+// Hand the images of a record over to a record in another collection with the same id, e.g. a
+// sighting that became an attendance record
+async function moveEvidence(id, from, to) {
+  await Promise.all(KINDS.map(kind => fs.rename(fileFor(from, id, kind), fileFor(to, id, kind)).catch(error => {
+    if (error.code !== 'ENOENT') throw error;
+  })));
+}
+
+// Delete images older than EVIDENCE_RETENTION_DAYS; returns how many files were removed
+async function pruneEvidence(now = Date.now()) {
+  const cutoff = now - config.evidenceRetentionDays * DAY_MS;
+  let files;
+  try {
+    files = await fs.readdir(evidenceDir());
+  } catch (error) {
+    if (error.code === 'ENOENT') return 0;
+    throw error;
+  }
+
+  let removed = 0;
+  for (const file of files) {
+    const fullPath = path.join(evidenceDir(), file);
+    const { mtimeMs } = await fs.stat(fullPath);
+    if (mtimeMs < cutoff) {
+      await fs.rm(fullPath, { force: true });
+      removed += 1;
+    }
+  }
+  return removed;
+}
+
+module.exports = {
+  KINDS,
+  validateEvidence,
+  describeEvidence,
+  saveEvidence,
+  readEvidence,
+  removeEvidence,
+  moveEvidence,
+  pruneEvidence
+};
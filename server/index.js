@@ -1,74 +1,138 @@
 const express = require('express');
 const cors = require('cors');
-const fs = require('fs').promises;
-const path = require('path');
+const { getStorage } = require('./storage');
+const { createRoutes } = require('./routes');
+const { runRoute } = require('./router');
+const auth = require('./auth');
+const { pruneEvidence } = require('./evidence');
+const { purgeExpired } = require('./privacy');
+const webhooks = require('./webhooks');
+const liveEvents = require('./liveEvents');
+const config = require('./config');
 
 const app = express();
 
 // Middleware
-app.use(cors());
-app.use(express.json());
+app.use(cors({ origin: config.corsOrigins, credentials: true }));
+// Attendance posts may carry evidence images as data URLs
+app.use(express.json({ limit: '5mb' }));
 
-// File path for storing attendance records
-const DATA_FILE = path.join(__dirname, 'attendance.json');
+const storage = getStorage();
 
-// Ensure the data file exists
-async function ensureDataFile() {
-  try {
-    await fs.access(DATA_FILE);
-  } catch {
-    await fs.writeFile(DATA_FILE, JSON.stringify([]));
-  }
-}
-
-// Read attendance records
-async function readRecords() {
-  await ensureDataFile();
-  const data = await fs.readFile(DATA_FILE, 'utf8');
-  return JSON.parse(data);
-}
-
-// Write attendance records
-async function writeRecords(records) {
-  await fs.writeFile(DATA_FILE, JSON.stringify(records, null, 2));
-}
+// Webhooks and live events are sent in the background so requests never wait on other systems
+const later = (label, task) => {
+  task().catch(error => console.error(`Error ${label}:`, error));
+};
 
-// Routes
-app.get('/api/attendance', async (req, res) => {
+// Write a route's result: JSON, an empty response, or a download. A header Node refuses to send
+// answers 500 instead of taking the process down.
+function send(res, { status, headers, body, raw }) {
   try {
-    const records = await readRecords();
-    res.json(records);
+    res.status(status);
+    if (headers) res.set(headers);
+    if (raw !== undefined) return res.send(raw);
+    if (body === undefined) return res.end();
+    res.json(body);
   } catch (error) {
+    console.error('Error sending response:', error);
+    if (res.headersSent) return res.end();
+    Object.keys(headers || {}).forEach(name => res.removeHeader(name));
     res.status(500).json({ message: error.message });
   }
+}
+
+// Routes
+const routes = createRoutes({ later });
+routes.forEach(route => {
+  app[route.method.toLowerCase()](`/api${route.path}`, async (req, res) => {
+    const result = await runRoute(storage, route, {
+      params: req.params,
+      query: req.query,
+      body: req.body || {},
+      headers: req.headers
+    });
+    send(res, result);
+  });
 });
 
-app.post('/api/attendance', async (req, res) => {
+// Server-Sent Events stream of changes the caller may see. Reconnecting clients send Last-Event-ID
+// to catch up on what they missed.
+// Only this server can hold a stream open; the Netlify function answers 501.
+app.get('/api/events', async (req, res) => {
+  let principal;
   try {
-    const { name, timestamp } = req.body;
-    const date = new Date(timestamp).toLocaleDateString();
-    const time = new Date(timestamp).toLocaleTimeString();
-    
-    const records = await readRecords();
-    const newRecord = {
-      id: `${name}-${Date.now()}`,
-      name,
-      timestamp,
-      date,
-      time
-    };
-    
-    records.unshift(newRecord); // Add to beginning of array
-    await writeRecords(records);
-    
-    res.status(201).json(newRecord);
+    principal = await auth.authenticate(storage, req.headers);
   } catch (error) {
-    res.status(400).json({ message: error.message });
+    return res.status(500).json({ message: error.message });
+  }
+  if (!principal) {
+    return res.status(401).json({ message: 'Sign in required' });
   }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  const unsubscribe = liveEvents.subscribe(storage, principal, req.get('Last-Event-ID'), chunk => res.write(chunk));
+  // Streams outlive the request's credentials, so end them once the login or token is revoked
+  const recheck = setInterval(async () => {
+    try {
+      if (!await auth.authenticate(storage, req.headers)) res.end();
+    } catch (error) {
+      console.error('Error rechecking live event credentials:', error);
+    }
+  }, 60 * 1000);
+
+  res.on('close', () => {
+    clearInterval(recheck);
+    unsubscribe();
+  });
+});
+
+// Anything else below /api gets the same JSON answers as the Netlify function
+app.use('/api', (req, res) => {
+  const known = routes.some(candidate => candidate.pattern.test(req.path));
+  res.status(known ? 405 : 404).json({ message: known ? 'Method not allowed' : 'Not found' });
+});
+
+// Bodies express.json() could not parse, and any other error
+app.use((error, req, res, next) => {
+  if (res.headersSent) return next(error);
+  if (error.type === 'entity.parse.failed') return res.status(400).json({ message: 'Request body must be JSON' });
+  if (error.type === 'entity.too.large') return res.status(413).json({ message: 'Request body is too large' });
+  console.error('Error handling request:', error);
+  res.status(error.status || 500).json({ message: error.message });
 });
 
 // Start server
 const PORT = process.env.PORT || 5000;
-app.listen(PORT, () => {
+app.listen(PORT, async () => {
   console.log(`Server running on port ${PORT}`);
-}); 
\ No newline at end of file
+
+  // Descriptors stored before encryption was added are encrypted once
+  storage.encryptPlaintext()
+    .then(count => count > 0 && console.log(`Encrypted the face descriptors of ${count} stored documents`))
+    .catch(error => console.error('Error encrypting stored descriptors:', error));
+
+  // Enforce the evidence and attendance retention limits now and every few hours
+  const prune = () => {
+    pruneEvidence().catch(error => console.error('Error pruning evidence:', error));
+    purgeExpired(storage).catch(error => console.error('Error purging expired attendance:', error));
+  };
+  prune();
+  setInterval(prune, 6 * 60 * 60 * 1000).unref();
+
+  // Send webhook deliveries whose retry has come due
+  setInterval(() => {
+    webhooks.processDeliveries(storage).catch(error => console.error('Error sending webhooks:', error));
+  }, 30 * 1000).unref();
+
+  const accounts = await storage.list('accounts');
+  if (accounts.length === 0 && !config.adminPassword) {
+    console.warn('No accounts exist yet. Set ADMIN_PASSWORD (and optionally ADMIN_USERNAME) to create the first admin.');
+  }
+});
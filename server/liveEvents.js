@@ -0,0 +1,129 @@
+// Live updates for open clients over Server-Sent Events. Every change worth pushing is appended to
+// the `live_events` collection with an increasing sequence number, which doubles as the SSE event
+// id: a client that reconnects with Last-Event-ID gets everything it missed. Only the newest events
+// are kept; a client that fell further behind is sent a `reset` event and reloads instead.
+//
+// Events are stored as written, so they never carry face descriptors: person events name the
+// people who changed and clients fetch them again.
+
+const EventEmitter = require('events');
+
+const MAX_RETAINED_EVENTS = 1000;
+// Comment lines keep proxies from closing idle streams. Each heartbeat also checks storage, which
+// picks up events written by other processes such as the Netlify functions.
+const HEARTBEAT_MS = 15 * 1000;
+const RECONNECT_MS = 3000;
+
+// Who may receive each event type
+const EVENT_PERMISSIONS = {
+  'attendance.created': 'attendance:read',
+  'attendance.updated': 'attendance:read',
+  'attendance.deleted': 'attendance:read',
+  'person.created': 'users:read',
+  'person.updated': 'users:read',
+  'person.deleted': 'users:read',
+  'session.created': 'sessions:read',
+  'session.updated': 'sessions:read',
+  'session.deleted': 'sessions:read',
+  'settings.updated': 'settings:read'
+};
+
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+const bySeq = (a, b) => a.seq - b.seq;
+
+// Append events and wake up the open streams
+async function publishAll(storage, events) {
+  if (events.length === 0) return;
+  await storage.transaction(['live_events'], tx => {
+    const existing = tx.list('live_events').sort(bySeq);
+    let seq = existing.length > 0 ? existing[existing.length - 1].seq : 0;
+    events.forEach(({ type, data }) => {
+      seq += 1;
+      tx.insert('live_events', { id: String(seq), seq, type, data, at: new Date().toISOString() });
+    });
+
+    const overflow = existing.length + events.length - MAX_RETAINED_EVENTS;
+    if (overflow > 0) {
+      const cutoff = existing[overflow - 1].seq;
+      tx.removeWhere('live_events', event => event.seq <= cutoff);
+    }
+  });
+  bus.emit('published');
+}
+
+const publish = (storage, type, data) => publishAll(storage, [{ type, data }]);
+
+const formatEvent = (id, type, data) => `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+
+// Stream events to one client through `write`, starting after `lastEventId` when it reconnects.
+// Returns a function that stops the stream.
+function subscribe(storage, principal, lastEventId, write) {
+  const canReceive = type => principal.permissions.includes(EVENT_PERMISSIONS[type]);
+  const resumeFrom = Number.parseInt(lastEventId, 10);
+  let lastSeq = Number.isFinite(resumeFrom) ? resumeFrom : null;
+  let sending = false;
+  let again = false;
+  let closed = false;
+
+  // Send everything after lastSeq; calls that arrive while sending are folded into one more pass
+  const flush = async () => {
+    if (sending) {
+      again = true;
+      return;
+    }
+    sending = true;
+    try {
+      do {
+        again = false;
+        const events = (await storage.transaction(['live_events'], tx => tx.list('live_events'))).sort(bySeq);
+        if (closed) return;
+        const newest = events.length > 0 ? events[events.length - 1].seq : 0;
+
+        if (lastSeq === null) {
+          // A fresh connection only gets what happens from now on
+          lastSeq = newest;
+          continue;
+        }
+        const oldest = events.length > 0 ? events[0].seq : newest + 1;
+        if (lastSeq > newest || lastSeq < oldest - 1) {
+          // The client missed events that are no longer kept, or the log was reset
+          lastSeq = newest;
+          write(formatEvent(newest, 'reset', {}));
+          continue;
+        }
+
+        events.filter(event => event.seq > lastSeq).forEach(event => {
+          if (canReceive(event.type)) write(formatEvent(event.seq, event.type, event.data));
+          lastSeq = event.seq;
+        });
+      } while (again && !closed);
+    } catch (error) {
+      console.error('Error streaming live events:', error);
+    } finally {
+      sending = false;
+    }
+  };
+
+  write(`retry: ${RECONNECT_MS}\n\n`);
+  bus.on('published', flush);
+  const heartbeat = setInterval(() => {
+    write(': heartbeat\n\n');
+    flush();
+  }, HEARTBEAT_MS);
+  flush();
+
+  return () => {
+    closed = true;
+    clearInterval(heartbeat);
+    bus.off('published', flush);
+  };
+}
+
+module.exports = {
+  EVENT_PERMISSIONS,
+  publish,
+  publishAll,
+  subscribe
+};
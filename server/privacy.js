@@ -0,0 +1,185 @@
+// What the server keeps about people, and for how long. Attendance older than the retention limit
+// is purged on a schedule, and admins can export everything held about one person or erase it all
+// for access and erasure requests. An erasure leaves a receipt of what was removed, by whom and
+// when, which names nobody.
+
+const crypto = require('crypto');
+const config = require('./config');
+const { normalizeUser } = require('./users');
+const { recordedBy } = require('./attendance');
+const { KINDS: EVIDENCE_KINDS, readEvidence, removeEvidence } = require('./evidence');
+const { pruneSightings } = require('./unknownFaces');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Stands in for the person in audit entries of records that are not theirs
+const ERASED = '[erased]';
+
+// The retention limits and how descriptors are protected, for the admin screen
+const describePolicy = storage => ({
+  attendanceRetentionDays: config.attendanceRetentionDays || null,
+  evidenceRetentionDays: config.evidenceRetentionDays,
+  descriptorKeySource: storage.descriptorKeySource
+});
+
+// Delete attendance records with their audit entries, unknown-face sightings, closed sessions and
+// live events from before ATTENDANCE_RETENTION_DAYS, with their evidence. Returns what was removed, or null
+// when no limit is set.
+async function purgeExpired(storage, now = Date.now()) {
+  if (!config.attendanceRetentionDays) return null;
+  const cutoff = new Date(now - config.attendanceRetentionDays * DAY_MS).toISOString();
+  const before = value => Date.parse(value) < Date.parse(cutoff);
+
+  const removed = await storage.transaction(['attendance', 'audit_log', 'sessions', 'unknown_faces', 'unknown_clusters', 'live_events'], tx => {
+    const recordIds = new Set(tx.list('attendance').filter(record => before(record.timestamp)).map(record => record.id));
+    tx.removeWhere('attendance', record => recordIds.has(record.id));
+    return {
+      recordIds: [...recordIds],
+      auditEntries: tx.removeWhere('audit_log', entry => recordIds.has(entry.recordId)),
+      sessions: tx.removeWhere('sessions', session => session.closedAt && before(session.endTime)),
+      sightingIds: pruneSightings(tx, cutoff),
+      liveEvents: tx.removeWhere('live_events', event => before(event.at))
+    };
+  });
+
+  await Promise.all([
+    ...removed.recordIds.map(id => removeEvidence('attendance', id)),
+    ...removed.sightingIds.map(id => removeEvidence('unknown_faces', id))
+  ]);
+  return {
+    cutoff,
+    attendanceRecords: removed.recordIds.length,
+    auditEntries: removed.auditEntries,
+    sessions: removed.sessions,
+    unknownSightings: removed.sightingIds.length,
+    liveEvents: removed.liveEvents
+  };
+}
+
+// A person's records: by id, or by name for records logged before records carried one
+const belongsTo = person => record => record.userId === person.id || (!record.userId && record.name === person.name);
+
+// Everything held about one person as one JSON document, evidence images included as data URLs.
+// Returns null if there is no such person.
+async function exportPerson(storage, userId) {
+  const data = await storage.transaction(['users', 'attendance', 'audit_log', 'sessions'], tx => {
+    const user = tx.get('users', userId);
+    if (!user) return null;
+
+    const person = normalizeUser(user);
+    const records = tx.list('attendance').filter(belongsTo(person));
+    const recordIds = new Set(records.map(record => record.id));
+    const sessions = tx.list('sessions')
+      .filter(session => session.expectedUserIds.includes(userId))
+      .map(({ roll, expectedUserIds, ...session }) => ({
+        ...session,
+        rollEntry: roll ? roll.find(entry => entry.userId === userId) || null : null
+      }));
+    return {
+      person,
+      attendance: records,
+      auditLog: tx.list('audit_log').filter(entry => recordIds.has(entry.recordId)),
+      sessions
+    };
+  });
+  if (!data) return null;
+
+  const evidence = [];
+  for (const record of data.attendance) {
+    for (const kind of EVIDENCE_KINDS) {
+      const image = await readEvidence('attendance', record.id, kind);
+      if (image) evidence.push({ recordId: record.id, kind, image: `data:image/jpeg;base64,${image.toString('base64')}` });
+    }
+  }
+  return { exportedAt: new Date().toISOString(), ...data, evidence };
+}
+
+// Replace the person in one side of an audited change
+const redact = (change, value) => change && {
+  from: change.from === value ? ERASED : change.from,
+  to: change.to === value ? ERASED : change.to
+};
+
+// Erase a person: their samples, attendance records with the records' audit entries and evidence,
+// their place in sessions, and webhook deliveries and live events about them. Returns
+// { receipt, recordIds, sessions }, or null if there is no such person.
+async function erasePerson(storage, userId, principal) {
+  const result = await storage.transaction(
+    ['users', 'attendance', 'audit_log', 'sessions', 'webhook_deliveries', 'live_events', 'erasure_receipts'],
+    tx => {
+      const user = tx.get('users', userId);
+      if (!user) return null;
+
+      const person = normalizeUser(user);
+      const records = tx.list('attendance').filter(belongsTo(person));
+      const recordIds = new Set(records.map(record => record.id));
+      const mentions = data => Boolean(data) && (
+        (data.record && (recordIds.has(data.record.id) || data.record.userId === userId)) ||
+        (data.user && data.user.id === userId) ||
+        (Array.isArray(data.ids) && data.ids.includes(userId)) ||
+        (data.person && data.person.id === userId)
+      );
+
+      // Corrections that moved a record between this person and someone else name them in the
+      // other person's history
+      const redacted = tx.list('audit_log')
+        .filter(entry => !recordIds.has(entry.recordId) && entry.changes && entry.changes.userId &&
+          [entry.changes.userId.from, entry.changes.userId.to].includes(userId))
+        .map(entry => tx.update('audit_log', entry.id, {
+          changes: {
+            ...entry.changes,
+            userId: redact(entry.changes.userId, userId),
+            ...(entry.changes.name ? { name: redact(entry.changes.name, person.name) } : {})
+          }
+        }));
+
+      const sessions = tx.list('sessions')
+        .filter(session => session.expectedUserIds.includes(userId))
+        .map(session => tx.update('sessions', session.id, {
+          expectedUserIds: session.expectedUserIds.filter(id => id !== userId),
+          roll: session.roll ? session.roll.filter(entry => entry.userId !== userId) : null
+        }));
+
+      // Live events keep their sequence numbers, so clients catching up see no gap; no client is
+      // sent an event of this type
+      const liveEvents = tx.list('live_events').filter(event => mentions(event.data));
+      liveEvents.forEach(event => tx.update('live_events', event.id, { type: 'redacted', data: null }));
+
+      const erased = {
+        descriptors: person.descriptors.length,
+        attendanceRecords: tx.removeWhere('attendance', record => recordIds.has(record.id)),
+        evidenceImages: records.reduce((count, record) =>
+          count + EVIDENCE_KINDS.filter(kind => record.evidence && record.evidence[kind]).length, 0),
+        auditEntries: tx.removeWhere('audit_log', entry => recordIds.has(entry.recordId)),
+        auditEntriesRedacted: redacted.length,
+        sessions: sessions.length,
+        webhookDeliveries: tx.removeWhere('webhook_deliveries', delivery => mentions(delivery.payload.data)),
+        liveEvents: liveEvents.length
+      };
+      tx.remove('users', userId);
+
+      const receipt = tx.insert('erasure_receipts', {
+        id: crypto.randomUUID(),
+        personId: userId,
+        erasedAt: new Date().toISOString(),
+        erasedBy: recordedBy(principal),
+        erased
+      });
+      return { receipt, recordIds: [...recordIds], sessions };
+    }
+  );
+  if (!result) return null;
+
+  await Promise.all(result.recordIds.map(id => removeEvidence('attendance', id)));
+  return result;
+}
+
+// Erasure receipts, newest first
+const listReceipts = receipts => [...receipts].sort((a, b) => b.erasedAt.localeCompare(a.erasedAt));
+
+module.exports = {
+  describePolicy,
+  purgeExpired,
+  exportPerson,
+  erasePerson,
+  listReceipts
+};
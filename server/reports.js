@@ -0,0 +1,244 @@
+// Attendance reports, computed from the stored log and rendered as CSV, JSON or XLSX.
+// Every report is a { title, columns, rows } table so all formats share one code path.
+
+const ExcelJS = require('exceljs');
+const { computeRoll } = require('./sessions');
+const { computeShifts } = require('./shifts');
+
+const FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' }
+};
+
+// Local calendar day (YYYY-MM-DD) a timestamp falls on
+const dayOf = timestamp => new Date(timestamp).toLocaleDateString('en-CA');
+const timeOf = timestamp => (timestamp ? new Date(timestamp).toLocaleTimeString() : '');
+const percent = (part, whole) => (whole === 0 ? null : Math.round((part / whole) * 1000) / 10);
+const personKey = record => record.userId || record.name;
+// Records stored before posts were validated may have no name
+const byName = (a, b) => (a.name || '').localeCompare(b.name || '');
+
+function inRange(records, { from, to }) {
+  return records.filter(record => {
+    const date = dayOf(record.timestamp);
+    return (!from || date >= from) && (!to || date <= to);
+  });
+}
+
+// First and last sighting of each person on each day
+function presenceRows(records) {
+  const byPersonDay = new Map();
+  records.forEach(record => {
+    const key = `${dayOf(record.timestamp)}|${personKey(record)}`;
+    const entry = byPersonDay.get(key);
+    if (!entry) {
+      byPersonDay.set(key, { date: dayOf(record.timestamp), name: record.name, firstSeen: record.timestamp, lastSeen: record.timestamp });
+      return;
+    }
+    if (Date.parse(record.timestamp) < Date.parse(entry.firstSeen)) entry.firstSeen = record.timestamp;
+    if (Date.parse(record.timestamp) > Date.parse(entry.lastSeen)) entry.lastSeen = record.timestamp;
+  });
+  return [...byPersonDay.values()].sort((a, b) => b.date.localeCompare(a.date) || byName(a, b));
+}
+
+const REPORTS = {
+  log: {
+    title: 'Attendance Log',
+    columns: [
+      { key: 'name', header: 'Name' },
+      { key: 'date', header: 'Date' },
+      { key: 'time', header: 'Time' },
+      { key: 'type', header: 'Type' },
+      { key: 'session', header: 'Session' },
+      { key: 'distance', header: 'Match Distance' },
+      { key: 'threshold', header: 'Threshold' },
+      { key: 'detectionScore', header: 'Detection Score' },
+      { key: 'location', header: 'Location' },
+      { key: 'camera', header: 'Camera' },
+      { key: 'recordedBy', header: 'Recorded By' },
+      { key: 'appVersion', header: 'App Version' }
+    ],
+    build: ({ records, sessions }) => records
+      .slice()
+      .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+      .map(record => {
+        const session = sessions.find(s => s.id === record.sessionId);
+        const recognition = record.recognition || {};
+        return {
+          name: record.name,
+          date: new Date(record.timestamp).toLocaleDateString(),
+          time: timeOf(record.timestamp),
+          type: record.type || '',
+          session: session ? session.name : '',
+          distance: recognition.distance ?? '',
+          threshold: recognition.threshold ?? '',
+          detectionScore: recognition.detectionScore ?? '',
+          location: recognition.location || '',
+          camera: recognition.camera || '',
+          recordedBy: record.recordedBy ? record.recordedBy.name : '',
+          appVersion: recognition.appVersion || ''
+        };
+      })
+  },
+
+  // Days present out of the days anyone was seen, plus session attendance where rosters exist
+  'person-rates': {
+    title: 'Attendance Rate by Person',
+    columns: [
+      { key: 'name', header: 'Name' },
+      { key: 'daysPresent', header: 'Days Present' },
+      { key: 'activeDays', header: 'Active Days' },
+      { key: 'dayRate', header: 'Day Rate %' },
+      { key: 'sessionsExpected', header: 'Sessions Expected' },
+      { key: 'sessionsAttended', header: 'Sessions Attended' },
+      { key: 'sessionsLate', header: 'Sessions Late' },
+      { key: 'sessionRate', header: 'Session Rate %' }
+    ],
+    build: ({ records, users, allRecords, sessions, from, to }) => {
+      const activeDays = new Set(records.map(record => dayOf(record.timestamp))).size;
+      const rangeSessions = sessions.filter(session => {
+        const date = dayOf(session.startTime);
+        return (!from || date >= from) && (!to || date <= to);
+      });
+      const rolls = rangeSessions.map(session => session.roll || computeRoll(session, allRecords, users, false));
+
+      const people = new Map(users.map(user => [user.id, user.name]));
+      records.forEach(record => {
+        if (!people.has(personKey(record))) people.set(personKey(record), record.name);
+      });
+
+      return [...people.entries()]
+        .map(([key, name]) => {
+          const daysPresent = new Set(records.filter(r => personKey(r) === key).map(r => dayOf(r.timestamp))).size;
+          const entries = rolls.flat().filter(entry => entry.userId === key);
+          const attended = entries.filter(entry => entry.status === 'present' || entry.status === 'late').length;
+          const decided = entries.filter(entry => entry.status !== 'pending').length;
+          return {
+            name,
+            daysPresent,
+            activeDays,
+            dayRate: percent(daysPresent, activeDays),
+            sessionsExpected: entries.length,
+            sessionsAttended: attended,
+            sessionsLate: entries.filter(entry => entry.status === 'late').length,
+            sessionRate: percent(attended, decided)
+          };
+        })
+        .sort(byName);
+    }
+  },
+
+  daily: {
+    title: 'Daily Summary',
+    columns: [
+      { key: 'date', header: 'Date' },
+      { key: 'headcount', header: 'Headcount' },
+      { key: 'records', header: 'Records' },
+      { key: 'firstSeen', header: 'First Seen' },
+      { key: 'lastSeen', header: 'Last Seen' }
+    ],
+    build: ({ records }) => {
+      const days = new Map();
+      presenceRows(records).forEach(row => {
+        const day = days.get(row.date) || { date: row.date, headcount: 0, records: 0, first: row.firstSeen, last: row.lastSeen };
+        day.headcount += 1;
+        if (Date.parse(row.firstSeen) < Date.parse(day.first)) day.first = row.firstSeen;
+        if (Date.parse(row.lastSeen) > Date.parse(day.last)) day.last = row.lastSeen;
+        days.set(row.date, day);
+      });
+      records.forEach(record => {
+        days.get(dayOf(record.timestamp)).records += 1;
+      });
+      return [...days.values()]
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .map(({ first, last, ...day }) => ({ ...day, firstSeen: timeOf(first), lastSeen: timeOf(last) }));
+    }
+  },
+
+  presence: {
+    title: 'First and Last Seen',
+    columns: [
+      { key: 'date', header: 'Date' },
+      { key: 'name', header: 'Name' },
+      { key: 'firstSeen', header: 'First Seen' },
+      { key: 'lastSeen', header: 'Last Seen' }
+    ],
+    build: ({ records }) => presenceRows(records).map(row => ({
+      ...row,
+      firstSeen: timeOf(row.firstSeen),
+      lastSeen: timeOf(row.lastSeen)
+    }))
+  },
+
+  // One row per check-in/check-out interval, followed by a total row per person and day
+  shifts: {
+    title: 'Shift Hours',
+    columns: [
+      { key: 'name', header: 'Name' },
+      { key: 'date', header: 'Date' },
+      { key: 'checkIn', header: 'Check In' },
+      { key: 'checkOut', header: 'Check Out' },
+      { key: 'hours', header: 'Hours' },
+      { key: 'flag', header: 'Flag' }
+    ],
+    build: ({ allRecords, from, to }) => computeShifts(allRecords, { from, to }).flatMap(day => [
+      ...day.intervals.map(interval => ({
+        name: day.name,
+        date: day.date,
+        checkIn: timeOf(interval.checkIn),
+        checkOut: timeOf(interval.checkOut),
+        hours: Math.round((interval.durationMs / (60 * 60 * 1000)) * 100) / 100,
+        flag: interval.missingCheckOut ? 'Missing check-out' : interval.missingCheckIn ? 'Missing check-in' : ''
+      })),
+      { name: day.name, date: day.date, checkIn: '', checkOut: '', hours: day.totalHours, flag: 'Total' }
+    ])
+  }
+};
+
+// Build a report table from the full data set, limited to the [from, to] date range (YYYY-MM-DD).
+// Voided records are left out of every report.
+function buildReport(name, { records, users, sessions }, { from, to } = {}) {
+  const report = REPORTS[name];
+  if (!report) return null;
+  const counted = records.filter(record => !record.voidedAt);
+  const rows = report.build({ records: inRange(counted, { from, to }), allRecords: counted, users, sessions, from, to });
+  return { title: report.title, columns: report.columns, rows };
+}
+
+// Spreadsheets run text starting with one of these as a formula, so names and locations typed in by
+// people are prefixed with an apostrophe, which shows the text as it is
+const FORMULA_PREFIXES = ['=', '+', '-', '@'];
+const spreadsheetValue = value => (typeof value === 'string' && FORMULA_PREFIXES.includes(value[0]) ? `'${value}` : value);
+const spreadsheetRow = (report, row) =>
+  Object.fromEntries(report.columns.map(column => [column.key, spreadsheetValue(row[column.key])]));
+
+const csvCell = value => `"${String(value === null || value === undefined ? '' : value).replace(/"/g, '""')}"`;
+
+// Render a report table; resolves to the response body (string or Buffer)
+async function renderReport(report, format) {
+  if (format === 'json') {
+    return JSON.stringify(report.rows, null, 2);
+  }
+
+  if (format === 'xlsx') {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet(report.title.slice(0, 31));
+    sheet.columns = report.columns.map(column => ({ ...column, width: Math.max(12, column.header.length + 2) }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.addRows(report.rows.map(row => spreadsheetRow(report, row)));
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  // CSV with a BOM for Excel compatibility
+  const header = report.columns.map(column => csvCell(column.header)).join(',');
+  const rows = report.rows.map(row => report.columns.map(column => csvCell(spreadsheetValue(row[column.key]))).join(','));
+  return '\uFEFF' + [header, ...rows].join('\n');
+}
+
+module.exports = {
+  REPORT_NAMES: Object.keys(REPORTS),
+  FORMATS,
+  buildReport,
+  renderReport
+};
@@ -0,0 +1,98 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { buildReport, renderReport } from './reports';
+
+// Local times, so dates come out the same in every time zone
+const at = (day, hour, minute = 0) => new Date(2026, 0, day, hour, minute).toISOString();
+
+const users = [{ id: 'u1', name: 'Ada' }, { id: 'u2', name: 'Grace' }];
+const sessions = [{
+  id: 's1',
+  name: 'Standup',
+  startTime: at(5, 9),
+  endTime: at(5, 10),
+  gracePeriodMinutes: 5,
+  expectedUserIds: ['u1', 'u2'],
+  closedAt: at(5, 10),
+  roll: null
+}];
+const records = [
+  { id: 'r1', userId: 'u1', name: 'Ada', timestamp: at(5, 9, 2), sessionId: 's1', recognition: { distance: 0.31, location: 'Lobby' } },
+  { id: 'r2', userId: 'u1', name: 'Ada', timestamp: at(5, 17, 30), recordedBy: { kind: 'account', id: 'a1', name: 'admin' } },
+  { id: 'r3', userId: 'u2', name: 'Grace', timestamp: at(5, 9, 20), sessionId: 's1' },
+  { id: 'r4', userId: 'u2', name: 'Grace', timestamp: at(6, 8, 0) },
+  { id: 'r5', userId: 'u1', name: 'Ada', timestamp: at(6, 8, 0), voidedAt: at(6, 9) }
+];
+const data = { records, users, sessions };
+
+describe('buildReport', () => {
+  it('lists the log newest first, without voided records', () => {
+    const report = buildReport('log', data);
+
+    expect(report.title).toBe('Attendance Log');
+    expect(report.rows.map(row => row.name)).toEqual(['Grace', 'Ada', 'Grace', 'Ada']);
+    expect(report.rows[3]).toMatchObject({ session: 'Standup', distance: 0.31, location: 'Lobby', recordedBy: '' });
+    expect(report.rows[1]).toMatchObject({ session: '', distance: '', recordedBy: 'admin' });
+  });
+
+  it('limits reports to the date range', () => {
+    expect(buildReport('log', data, { from: '2026-01-06' }).rows).toHaveLength(1);
+    expect(buildReport('log', data, { to: '2026-01-05' }).rows).toHaveLength(3);
+  });
+
+  it('counts people and records per day', () => {
+    expect(buildReport('daily', data).rows).toEqual([
+      { date: '2026-01-06', headcount: 1, records: 1, firstSeen: expect.any(String), lastSeen: expect.any(String) },
+      { date: '2026-01-05', headcount: 2, records: 3, firstSeen: expect.any(String), lastSeen: expect.any(String) }
+    ]);
+  });
+
+  it('works out day and session rates per person', () => {
+    expect(buildReport('person-rates', data).rows).toEqual([
+      { name: 'Ada', daysPresent: 1, activeDays: 2, dayRate: 50, sessionsExpected: 1, sessionsAttended: 1, sessionsLate: 0, sessionRate: 100 },
+      { name: 'Grace', daysPresent: 2, activeDays: 2, dayRate: 100, sessionsExpected: 1, sessionsAttended: 1, sessionsLate: 1, sessionRate: 100 }
+    ]);
+  });
+
+  it('returns null for an unknown report', () => {
+    expect(buildReport('nope', data)).toBeNull();
+  });
+});
+
+describe('renderReport', () => {
+  const report = {
+    title: 'People',
+    columns: [{ key: 'name', header: 'Name' }, { key: 'note', header: 'Note' }, { key: 'hours', header: 'Hours' }],
+    rows: [
+      { name: '=HYPERLINK("http://example.com")', note: 'said "hi"', hours: -1.5 },
+      { name: '+1', note: '-2', hours: null },
+      { name: '@SUM(A1)', note: 'plain', hours: 8 }
+    ]
+  };
+
+  it('renders CSV with a BOM, quoted cells and formulas shown as text', async () => {
+    const csv = await renderReport(report, 'csv');
+
+    expect(csv.split('\n')).toEqual([
+      '\uFEFF"Name","Note","Hours"',
+      '"\'=HYPERLINK(""http://example.com"")","said ""hi""","-1.5"',
+      '"\'+1","\'-2",""',
+      '"\'@SUM(A1)","plain","8"'
+    ]);
+  });
+
+  it('renders XLSX with formulas shown as text and numbers left as numbers', async () => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await renderReport(report, 'xlsx'));
+    const sheet = workbook.getWorksheet('People');
+
+    expect(sheet.getRow(1).values.slice(1)).toEqual(['Name', 'Note', 'Hours']);
+    expect(sheet.getRow(2).values.slice(1)).toEqual(['\'=HYPERLINK("http://example.com")', 'said "hi"', -1.5]);
+    expect(sheet.getRow(3).values.slice(1, 3)).toEqual(['\'+1', '\'-2']);
+    expect(sheet.getRow(4).values.slice(1)).toEqual(['\'@SUM(A1)', 'plain', 8]);
+  });
+
+  it('renders JSON rows unchanged', async () => {
+    expect(JSON.parse(await renderReport(report, 'json'))).toEqual(report.rows);
+  });
+});
@@ -0,0 +1,46 @@
+// The API as a table of routes that do not depend on a web framework. The Express server and the
+// Netlify function both serve this table, so every deployment answers the same requests the same way.
+//
+// A handler gets { params, query, body, headers, principal } and returns { status, body } for JSON,
+// { status } for an empty response, or { status, headers, raw } for images and report downloads.
+
+const auth = require('./auth');
+
+// `permission` is the one a caller needs, a function of the request when it depends on it, or null
+// for routes that anyone may call
+const route = (method, path, permission, handler) => ({
+  method,
+  path,
+  permission,
+  handler,
+  pattern: new RegExp(`^${path.replace(/:(\w+)/g, '(?<$1>[^/]+)')}/?$`)
+});
+
+// The route for a method and a path below /api, with its decoded parameters
+function matchRoute(routes, method, path) {
+  for (const candidate of routes) {
+    if (candidate.method !== method) continue;
+    const match = candidate.pattern.exec(path);
+    if (match) {
+      const params = Object.fromEntries(Object.entries(match.groups || {}).map(([key, value]) => [key, decodeURIComponent(value)]));
+      return { route: candidate, params };
+    }
+  }
+  return null;
+}
+
+// Authenticate the caller, check the route's permission and run it
+async function runRoute(storage, { permission, handler }, request) {
+  try {
+    const principal = await auth.authenticate(storage, request.headers);
+    const needed = typeof permission === 'function' ? permission(request) : permission;
+    const denied = needed && auth.accessError(principal, needed);
+    if (denied) return { status: denied.status, body: { message: denied.message } };
+
+    return await handler({ ...request, principal });
+  } catch (error) {
+    return { status: 500, body: { message: error.message } };
+  }
+}
+
+module.exports = { route, matchRoute, runRoute };
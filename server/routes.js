@@ -0,0 +1,640 @@
+// Every API route, below /api. Served by the Express server (server/index.js) and by the Netlify
+// function (netlify/functions/api.cjs); only the live event stream needs the long-running server.
+
+const crypto = require('crypto');
+const { getStorage } = require('./storage');
+const { route } = require('./router');
+const { isValidDescriptorSet, normalizeUser, mergeDescriptors, newUser, validateImportEntry, importUsers } = require('./users');
+const { validateSession, findRunningSession, computeRoll, closeSession } = require('./sessions');
+const { resolveEventType, computeShifts } = require('./shifts');
+const { REPORT_NAMES, FORMATS, buildReport, renderReport } = require('./reports');
+const auth = require('./auth');
+const {
+  DATE_PATTERN,
+  validateRecord,
+  validateRecognition,
+  pickRecognition,
+  validateLiveness,
+  pickLiveness,
+  recordedBy,
+  validateCorrection,
+  appendAudit,
+  createManualRecord,
+  correctRecord,
+  voidRecord,
+  recordHistory,
+  parseAttendanceQuery,
+  queryAttendance
+} = require('./attendance');
+const { KINDS: EVIDENCE_KINDS, validateEvidence, describeEvidence, saveEvidence, readEvidence, removeEvidence, moveEvidence } = require('./evidence');
+const { validateSighting, recordSighting, listClusters, validateClusterEnrollment, enrollCluster, discardCluster } = require('./unknownFaces');
+const webhooks = require('./webhooks');
+const liveEvents = require('./liveEvents');
+const settings = require('./settings');
+const privacy = require('./privacy');
+
+const storage = getStorage();
+
+const notFound = message => ({ status: 404, body: { message } });
+const badRequest = message => ({ status: 400, body: { message } });
+
+// An evidence image, or 404 once it has passed the retention limit
+async function evidenceImage(collection, id, kind) {
+  if (!EVIDENCE_KINDS.includes(kind)) return notFound(`Evidence must be one of ${EVIDENCE_KINDS.join(', ')}`);
+
+  const image = await readEvidence(collection, id, kind);
+  if (!image) return notFound('No evidence for this record, or it has passed the retention limit');
+
+  return { status: 200, headers: { 'Content-Type': 'image/jpeg', 'Cache-Control': 'private, max-age=3600' }, raw: image };
+}
+
+// Registered users with legacy single-descriptor records upgraded
+async function readUsers() {
+  return (await storage.list('users')).map(normalizeUser);
+}
+
+// Close sessions whose end time has passed so their roll is finalized
+async function closeExpiredSessions() {
+  const now = new Date();
+  return storage.transaction(['sessions', 'attendance', 'users'], tx => {
+    const sessions = tx.list('sessions');
+    const expired = sessions.filter(session => !session.closedAt && Date.parse(session.endTime) < now.getTime());
+    if (expired.length === 0) return sessions;
+
+    const records = tx.list('attendance');
+    const users = tx.list('users').map(normalizeUser);
+    return sessions.map(session => {
+      if (!expired.includes(session)) return session;
+      const closed = closeSession(session, records, users, now);
+      return tx.update('sessions', session.id, closed);
+    });
+  });
+}
+
+// The routes, given how to run work that does not hold up the response. The Express server starts
+// it and moves on; a Netlify function is frozen once it returns, so it waits for the work first.
+function createRoutes({ later }) {
+  // Webhooks and live events never fail the request that caused them
+  const emitEvents = (type, dataList) => later(`sending ${type} webhooks`, () => webhooks.emitAll(storage, type, dataList));
+  const emitEvent = (type, data) => emitEvents(type, [data]);
+  const broadcastAll = events => later('publishing live events', () => liveEvents.publishAll(storage, events));
+  const broadcast = (type, data) => broadcastAll([{ type, data }]);
+
+  return [
+    // One page of the log: /attendance?from=&to=&userId=&sessionId=&deviceId=&q=&sort=newest|oldest&limit=&cursor=
+    // Responds with { records, nextCursor }; pass nextCursor back as `cursor` for the following page.
+    route('GET', '/attendance', 'attendance:read', async ({ query }) => {
+      const { filters, error } = parseAttendanceQuery(query);
+      if (error) return badRequest(error);
+
+      const records = await storage.list('attendance');
+      return { status: 200, body: queryAttendance(records, filters) };
+    }),
+
+    route('POST', '/attendance', 'attendance:write', async ({ body, headers, principal }) => {
+      const { id, name, userId, sessionId, type, timestamp, liveness, recognition, evidence } = body;
+      const invalid = validateRecord(body) || validateRecognition(recognition) || validateLiveness(liveness)
+        || validateEvidence(evidence);
+      if (invalid) return badRequest(invalid);
+      const date = new Date(timestamp).toLocaleDateString();
+      const time = new Date(timestamp).toLocaleTimeString();
+
+      // Retried deliveries from a kiosk's outbox carry the same key and get the original record back
+      const idempotencyKey = headers['idempotency-key'] || null;
+      const recordId = id || `${name}-${Date.now()}`;
+
+      const { record, duplicate, conflict } = await storage.transaction(['attendance', 'sessions', 'audit_log'], tx => {
+        const existing = idempotencyKey && tx.list('attendance').find(r => r.idempotencyKey === idempotencyKey);
+        if (existing) return { record: existing, duplicate: true };
+        if (tx.get('attendance', recordId)) return { conflict: true };
+
+        // Recognitions go to the session picked at the kiosk, else to whichever session is running
+        const session = sessionId ? null : findRunningSession(tx.list('sessions'), timestamp);
+
+        const record = tx.insert('attendance', {
+          id: recordId,
+          name,
+          userId: userId || null,
+          sessionId: sessionId || (session ? session.id : null),
+          // Shift mode: `auto` alternates check-in/check-out per person
+          type: type === 'auto' ? resolveEventType(tx.list('attendance'), userId || name, timestamp) : (type || null),
+          timestamp,
+          date,
+          time,
+          liveness: pickLiveness(liveness),
+          recognition: pickRecognition(recognition),
+          recordedBy: recordedBy(principal),
+          evidence: describeEvidence(evidence),
+          idempotencyKey
+        });
+        appendAudit(tx, record.id, 'create', principal);
+        return { record, duplicate: false };
+      });
+
+      if (conflict) return { status: 409, body: { message: 'A record with this id already exists' } };
+
+      // Images are written once the record is stored as a new one, never over another record's
+      if (!duplicate) {
+        await saveEvidence('attendance', record.id, evidence);
+        emitEvent('attendance.created', { record });
+        broadcast('attendance.created', { record });
+      }
+      return { status: duplicate ? 200 : 201, body: record };
+    }),
+
+    // Mark someone present whom the camera missed
+    route('POST', '/attendance/manual', 'attendance:edit', async ({ body, principal }) => {
+      const validationError = validateCorrection(body, { creating: true });
+      if (validationError) return badRequest(validationError);
+
+      const result = await storage.transaction(['attendance', 'sessions', 'users', 'audit_log'], tx =>
+        createManualRecord(tx, body, principal)
+      );
+      if (result.status === 201) {
+        emitEvent('attendance.created', { record: result.body });
+        broadcast('attendance.created', { record: result.body });
+      }
+      return result;
+    }),
+
+    route('PATCH', '/attendance/:id', 'attendance:edit', async ({ params, body, principal }) => {
+      const validationError = validateCorrection(body);
+      if (validationError) return badRequest(validationError);
+
+      const result = await storage.transaction(['attendance', 'sessions', 'users', 'audit_log'], tx =>
+        correctRecord(tx, params.id, body, principal)
+      );
+      if (result.status === 200) broadcast('attendance.updated', { record: result.body });
+      return result;
+    }),
+
+    // Records are voided with a reason rather than deleted
+    route('DELETE', '/attendance/:id', 'attendance:edit', async ({ params, body, principal }) => {
+      const result = await storage.transaction(['attendance', 'audit_log'], tx =>
+        voidRecord(tx, params.id, body.reason, principal)
+      );
+      if (result.status === 200) broadcast('attendance.updated', { record: result.body });
+      return result;
+    }),
+
+    // Who changed a record, what and when, oldest first
+    route('GET', '/attendance/:id/history', 'attendance:read', async ({ params }) => {
+      const entries = await storage.list('audit_log');
+      return { status: 200, body: recordHistory(entries, params.id) };
+    }),
+
+    // Evidence images for a record. Thumbnails are shown in the log; full frames are for admins only.
+    route('GET', '/attendance/:id/evidence/:kind', ({ params }) => (params.kind === 'thumbnail' ? 'attendance:read' : 'evidence:read'),
+      ({ params }) => evidenceImage('attendance', params.id, params.kind)),
+
+    // Kiosks report faces that matched nobody enrolled
+    route('POST', '/unknown-faces', 'attendance:write', async ({ body, principal }) => {
+      const validationError = validateSighting(body);
+      if (validationError) return badRequest(validationError);
+
+      const { sighting, duplicate } = await recordSighting(storage, body, principal);
+      if (!duplicate) emitEvent('unknown.face.seen', { sighting });
+      return { status: duplicate ? 200 : 201, body: sighting };
+    }),
+
+    // Unknown faces grouped by person, for admins to enroll or discard
+    route('GET', '/unknown-faces/clusters', 'users:write', async () => ({
+      status: 200,
+      body: await storage.transaction(['unknown_faces', 'unknown_clusters'], listClusters)
+    })),
+
+    // Enroll the person behind a cluster, optionally logging attendance for the times they were seen
+    route('POST', '/unknown-faces/clusters/:id/enroll', 'users:write', async ({ params, body, principal }) => {
+      const validationError = validateClusterEnrollment(body);
+      if (validationError) return badRequest(validationError);
+      const denied = body.backfill && auth.accessError(principal, 'attendance:edit');
+      if (denied) return { status: denied.status, body: { message: denied.message } };
+
+      const result = await storage.transaction(['unknown_faces', 'unknown_clusters', 'users', 'attendance', 'sessions', 'audit_log'], tx =>
+        enrollCluster(tx, params.id, body, principal)
+      );
+      if (result.status < 300) {
+        const { user, created, records } = result.body;
+        if (created) emitEvent('person.enrolled', webhooks.personEnrolled(user));
+        emitEvents('attendance.created', records.map(record => ({ record })));
+        broadcastAll([
+          { type: created ? 'person.created' : 'person.updated', data: { ids: [user.id] } },
+          ...records.map(record => ({ type: 'attendance.created', data: { record } }))
+        ]);
+        await Promise.all([
+          ...records.map(record => moveEvidence(record.id, 'unknown_faces', 'attendance')),
+          ...result.discardedSightingIds.map(id => removeEvidence('unknown_faces', id))
+        ]);
+      }
+      return { status: result.status, body: result.body };
+    }),
+
+    // Forget a cluster, including its images
+    route('DELETE', '/unknown-faces/clusters/:id', 'users:write', async ({ params }) => {
+      const removed = await storage.transaction(['unknown_faces', 'unknown_clusters'], tx => discardCluster(tx, params.id));
+      if (!removed) return notFound('Cluster not found');
+
+      await Promise.all(removed.map(id => removeEvidence('unknown_faces', id)));
+      return { status: 204 };
+    }),
+
+    // Faces of people who are not enrolled are only shown to admins
+    route('GET', '/unknown-faces/:id/evidence/:kind', 'evidence:read', ({ params }) => evidenceImage('unknown_faces', params.id, params.kind)),
+
+    // Paired check-in/check-out intervals and daily hours per person
+    route('GET', '/shifts', 'reports:read', async ({ query }) => {
+      const records = await storage.list('attendance');
+      return { status: 200, body: computeShifts(records, { from: query.from, to: query.to }) };
+    }),
+
+    // Reports over a date range: /reports/<name>?from=YYYY-MM-DD&to=YYYY-MM-DD&format=csv|json|xlsx
+    route('GET', '/reports/:name', 'reports:read', async ({ params, query }) => {
+      const { from, to, format = 'csv' } = query;
+      if (!REPORT_NAMES.includes(params.name)) return notFound(`Unknown report; available reports: ${REPORT_NAMES.join(', ')}`);
+      if (!FORMATS[format]) return badRequest(`Format must be one of ${Object.keys(FORMATS).join(', ')}`);
+      // The dates end up in the download's file name, so nothing else may pass
+      if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) return badRequest('Dates must be YYYY-MM-DD');
+
+      const [records, users, sessions] = await Promise.all([
+        storage.list('attendance'),
+        readUsers(),
+        storage.list('sessions')
+      ]);
+      const report = buildReport(params.name, { records, users, sessions }, { from, to });
+      const raw = await renderReport(report, format);
+
+      const range = [from, to].filter(Boolean).join('_to_') || new Date().toISOString().split('T')[0];
+      return {
+        status: 200,
+        headers: {
+          'Content-Type': FORMATS[format].contentType,
+          'Content-Disposition': `attachment; filename="${params.name}_${range}.${FORMATS[format].extension}"`
+        },
+        raw
+      };
+    }),
+
+    route('GET', '/users', 'users:read', async () => ({ status: 200, body: await readUsers() })),
+
+    route('POST', '/users', 'users:write', async ({ body }) => {
+      const { name, descriptors } = body;
+      if (typeof name !== 'string' || !name.trim()) return badRequest('Name is required');
+      if (!isValidDescriptorSet(descriptors)) return badRequest('At least one face descriptor is required');
+
+      const user = await storage.insert('users', newUser(body));
+      emitEvent('person.enrolled', webhooks.personEnrolled(user));
+      broadcast('person.created', { ids: [user.id] });
+      return { status: 201, body: user };
+    }),
+
+    // Bulk enrollment from a roster import; descriptors are computed in the browser
+    route('POST', '/users/import', 'users:write', async ({ body }) => {
+      const { users } = body;
+      if (!Array.isArray(users) || users.length === 0) return badRequest('At least one user is required');
+      const invalid = users.map(validateImportEntry).findIndex(Boolean);
+      if (invalid !== -1) return badRequest(`Entry ${invalid + 1}: ${validateImportEntry(users[invalid])}`);
+
+      const result = await storage.transaction(['users'], tx => importUsers(tx, users));
+      emitEvents('person.enrolled', result.created.map(webhooks.personEnrolled));
+      broadcastAll([
+        { type: 'person.created', data: { ids: result.created.map(user => user.id) } },
+        { type: 'person.updated', data: { ids: result.updated.map(user => user.id) } }
+      ].filter(event => event.data.ids.length > 0));
+      return { status: 201, body: result };
+    }),
+
+    route('PATCH', '/users/:id', 'users:write', async ({ params, body }) => {
+      const { name } = body;
+      if (typeof name !== 'string' || !name.trim()) return badRequest('Name is required');
+
+      const user = await storage.update('users', params.id, { name: name.trim() });
+      if (!user) return notFound('User not found');
+
+      broadcast('person.updated', { ids: [user.id] });
+      return { status: 200, body: normalizeUser(user) };
+    }),
+
+    // Add more enrollment samples to an existing person
+    route('POST', '/users/:id/descriptors', 'users:write', async ({ params, body }) => {
+      const { descriptors } = body;
+      if (!isValidDescriptorSet(descriptors)) return badRequest('At least one face descriptor is required');
+
+      const user = await storage.transaction(['users'], tx => {
+        const existing = tx.get('users', params.id);
+        if (!existing) return null;
+        return tx.update('users', existing.id, {
+          descriptors: mergeDescriptors(normalizeUser(existing).descriptors, descriptors)
+        });
+      });
+      if (!user) return notFound('User not found');
+
+      broadcast('person.updated', { ids: [user.id] });
+      return { status: 200, body: normalizeUser(user) };
+    }),
+
+    route('DELETE', '/users/:id', 'users:write', async ({ params }) => {
+      const removed = await storage.remove('users', params.id);
+      if (!removed) return notFound('User not found');
+
+      broadcast('person.deleted', { id: params.id });
+      return { status: 204 };
+    }),
+
+    route('GET', '/sessions', 'sessions:read', async () => ({ status: 200, body: await closeExpiredSessions() })),
+
+    route('POST', '/sessions', 'sessions:write', async ({ body }) => {
+      const result = await storage.transaction(['sessions', 'users'], tx => {
+        const validationError = validateSession(body, tx.list('users').map(user => user.id));
+        if (validationError) return badRequest(validationError);
+
+        const { name, startTime, endTime, gracePeriodMinutes, expectedUserIds } = body;
+        return {
+          status: 201,
+          body: tx.insert('sessions', {
+            id: crypto.randomUUID(),
+            name: name.trim(),
+            startTime: new Date(startTime).toISOString(),
+            endTime: new Date(endTime).toISOString(),
+            gracePeriodMinutes: gracePeriodMinutes || 0,
+            expectedUserIds: expectedUserIds || [],
+            closedAt: null,
+            roll: null
+          })
+        };
+      });
+
+      if (result.status === 201) broadcast('session.created', { session: result.body });
+      return result;
+    }),
+
+    // Roll call for a session: final statuses once closed, live statuses while it is open
+    route('GET', '/sessions/:id/roll', 'sessions:read', async ({ params }) => {
+      const sessions = await closeExpiredSessions();
+      const session = sessions.find(s => s.id === params.id);
+      if (!session) return notFound('Session not found');
+      if (session.closedAt) return { status: 200, body: session.roll };
+
+      const [records, users] = await Promise.all([storage.list('attendance'), readUsers()]);
+      return { status: 200, body: computeRoll(session, records, users, false) };
+    }),
+
+    route('POST', '/sessions/:id/close', 'sessions:write', async ({ params }) => {
+      const result = await storage.transaction(['sessions', 'attendance', 'users'], tx => {
+        const session = tx.get('sessions', params.id);
+        if (!session) return notFound('Session not found');
+        if (session.closedAt) return { status: 409, body: { message: 'Session is already closed' } };
+
+        const closed = closeSession(session, tx.list('attendance'), tx.list('users').map(normalizeUser));
+        return { status: 200, body: tx.update('sessions', session.id, closed) };
+      });
+      if (result.status === 200) broadcast('session.updated', { session: result.body });
+      return result;
+    }),
+
+    route('DELETE', '/sessions/:id', 'sessions:write', async ({ params }) => {
+      const removed = await storage.remove('sessions', params.id);
+      if (!removed) return notFound('Session not found');
+
+      broadcast('session.deleted', { id: params.id });
+      return { status: 204 };
+    }),
+
+    route('POST', '/auth/login', null, async ({ body }) => {
+      const result = await storage.transaction(['accounts', 'auth_sessions'], tx => auth.login(tx, body));
+      if (!result) return { status: 401, body: { message: 'Invalid username or password' } };
+
+      return { status: 200, headers: { 'Set-Cookie': auth.sessionCookie(result.token, result.expiresAt) }, body: result.principal };
+    }),
+
+    route('POST', '/auth/logout', null, async ({ headers }) => {
+      await storage.transaction(['auth_sessions'], tx => auth.logout(tx, headers));
+      return { status: 204, headers: { 'Set-Cookie': auth.clearedSessionCookie() } };
+    }),
+
+    // The signed-in person or kiosk and what it may do
+    route('GET', '/auth/me', null, async ({ principal }) => (principal
+      ? { status: 200, body: principal }
+      : { status: 401, body: { message: 'Sign in required' } })),
+
+    route('GET', '/accounts', 'access:manage', async () => {
+      const accounts = await storage.list('accounts');
+      return { status: 200, body: accounts.map(auth.publicAccount) };
+    }),
+
+    route('POST', '/accounts', 'access:manage', async ({ body }) => {
+      const validationError = auth.validateAccount(body);
+      if (validationError) return badRequest(validationError);
+
+      const account = await storage.transaction(['accounts'], tx => auth.createAccount(tx, body));
+      if (!account) return { status: 409, body: { message: 'Username is already taken' } };
+
+      return { status: 201, body: account };
+    }),
+
+    // Change an account's password or role; changing the password signs it out everywhere
+    route('PATCH', '/accounts/:id', 'access:manage', async ({ params, body, principal }) => {
+      const { password, role } = body;
+      if (role !== undefined && !auth.ACCOUNT_ROLES.includes(role)) {
+        return badRequest(`Role must be one of ${auth.ACCOUNT_ROLES.join(', ')}`);
+      }
+      if (role !== undefined && role !== 'admin' && params.id === principal.id) {
+        return badRequest('You cannot remove your own admin role');
+      }
+      const passwordError = password !== undefined && auth.validatePassword(password);
+      if (passwordError) return badRequest(passwordError);
+
+      const account = await storage.transaction(['accounts', 'auth_sessions'], tx => {
+        const changes = {};
+        if (role !== undefined) changes.role = role;
+        if (password !== undefined) {
+          changes.passwordHash = auth.hashPassword(password);
+          tx.removeWhere('auth_sessions', session => session.accountId === params.id);
+        }
+        return tx.update('accounts', params.id, changes);
+      });
+      if (!account) return notFound('Account not found');
+
+      return { status: 200, body: auth.publicAccount(account) };
+    }),
+
+    route('DELETE', '/accounts/:id', 'access:manage', async ({ params, principal }) => {
+      if (params.id === principal.id) return badRequest('You cannot delete your own account');
+
+      const removed = await storage.transaction(['accounts', 'auth_sessions'], tx => {
+        tx.removeWhere('auth_sessions', session => session.accountId === params.id);
+        return tx.remove('accounts', params.id);
+      });
+      if (!removed) return notFound('Account not found');
+
+      return { status: 204 };
+    }),
+
+    // Kiosk API tokens
+    route('GET', '/tokens', 'access:manage', async () => {
+      const tokens = await storage.list('api_tokens');
+      return { status: 200, body: tokens.map(auth.publicToken) };
+    }),
+
+    route('POST', '/tokens', 'access:manage', async ({ body, principal }) => {
+      const { name } = body;
+      if (typeof name !== 'string' || !name.trim()) return badRequest('Name is required');
+
+      const token = await storage.transaction(['api_tokens'], tx => auth.createApiToken(tx, body, principal.name));
+      return { status: 201, body: token };
+    }),
+
+    route('DELETE', '/tokens/:id', 'access:manage', async ({ params }) => {
+      const removed = await storage.remove('api_tokens', params.id);
+      if (!removed) return notFound('Token not found');
+
+      return { status: 204 };
+    }),
+
+    route('GET', '/webhooks', 'webhooks:manage', async () => {
+      const list = await storage.list('webhooks');
+      return { status: 200, body: list.map(webhooks.publicWebhook) };
+    }),
+
+    // The response includes the signing secret; it is not shown again
+    route('POST', '/webhooks', 'webhooks:manage', async ({ body, principal }) => {
+      const validationError = webhooks.validateWebhook(body);
+      if (validationError) return badRequest(validationError);
+
+      const webhook = await storage.transaction(['webhooks'], tx => webhooks.createWebhook(tx, body, principal.name));
+      return { status: 201, body: webhook };
+    }),
+
+    route('PATCH', '/webhooks/:id', 'webhooks:manage', async ({ params, body }) => {
+      const validationError = webhooks.validateWebhook(body, { partial: true });
+      if (validationError) return badRequest(validationError);
+
+      const webhook = await storage.transaction(['webhooks'], tx => webhooks.updateWebhook(tx, params.id, body));
+      if (!webhook) return notFound('Webhook not found');
+
+      return { status: 200, body: webhook };
+    }),
+
+    route('DELETE', '/webhooks/:id', 'webhooks:manage', async ({ params }) => {
+      const removed = await storage.transaction(['webhooks', 'webhook_deliveries'], tx => webhooks.removeWebhook(tx, params.id));
+      if (!removed) return notFound('Webhook not found');
+
+      return { status: 204 };
+    }),
+
+    // Delivery log of a webhook, newest first
+    route('GET', '/webhooks/:id/deliveries', 'webhooks:manage', async ({ params }) => {
+      const deliveries = await storage.list('webhook_deliveries');
+      return { status: 200, body: webhooks.deliveryLog(deliveries, params.id) };
+    }),
+
+    // Send a `webhook.test` event right away and respond with how the delivery went
+    route('POST', '/webhooks/:id/test', 'webhooks:manage', async ({ params, principal }) => {
+      const queued = await storage.transaction(['webhooks', 'webhook_deliveries'], tx =>
+        webhooks.enqueueEvent(tx, 'webhook.test', { message: `Test event sent by ${principal.name}` }, { webhookIds: [params.id] })
+      );
+      if (!queued) return notFound('Webhook not found');
+
+      await webhooks.processDeliveries(storage);
+      const [delivery] = webhooks.deliveryLog(await storage.list('webhook_deliveries'), params.id, 1);
+      return { status: 200, body: delivery };
+    }),
+
+    route('POST', '/webhooks/:id/deliveries/:deliveryId/redeliver', 'webhooks:manage', async ({ params }) => {
+      const delivery = await storage.transaction(['webhook_deliveries'], tx =>
+        webhooks.redeliver(tx, params.id, params.deliveryId)
+      );
+      if (!delivery) return notFound('Delivery not found');
+
+      later('sending webhooks', () => webhooks.processDeliveries(storage));
+      return { status: 202, body: delivery };
+    }),
+
+    // Settings a kiosk runs with: /settings/effective?deviceId=
+    route('GET', '/settings/effective', 'settings:read', async ({ query }) => {
+      const deviceId = query.deviceId ? String(query.deviceId) : null;
+      return { status: 200, body: await storage.transaction(['settings'], tx => settings.effectiveSettings(tx, deviceId)) };
+    }),
+
+    route('GET', '/settings', 'settings:manage', async () => ({
+      status: 200,
+      body: await storage.transaction(['settings', 'attendance'], tx => settings.describeSettings(tx))
+    })),
+
+    // Replace the deployment's overrides; a null value falls back to the default
+    route('PUT', '/settings/deployment', 'settings:manage', async ({ body, principal }) => {
+      const validationError = settings.validateSettings(body.values);
+      if (validationError) return badRequest(validationError);
+
+      const saved = await storage.transaction(['settings'], tx => settings.saveSettings(tx, null, body.values, principal));
+      broadcast('settings.updated', { deviceId: null });
+      return { status: 200, body: saved };
+    }),
+
+    // Replace one kiosk's overrides; a kiosk left without any follows the deployment again
+    route('PUT', '/settings/kiosks/:deviceId', 'settings:manage', async ({ params, body, principal }) => {
+      const validationError = settings.validateSettings(body.values);
+      if (validationError) return badRequest(validationError);
+
+      const saved = await storage.transaction(['settings'], tx => settings.saveSettings(tx, params.deviceId, body.values, principal));
+      broadcast('settings.updated', { deviceId: params.deviceId });
+      return saved ? { status: 200, body: saved } : { status: 204 };
+    }),
+
+    // Genuine and impostor distances over the enrolled samples, and the match threshold that keeps
+    // false accepts at the target: /settings/calibration?targetFar=0.001
+    route('GET', '/settings/calibration', 'settings:manage', async ({ query }) => {
+      const targetFar = query.targetFar === undefined ? 0.001 : Number(query.targetFar);
+      const validationError = settings.validateTargetFar(targetFar);
+      if (validationError) return badRequest(validationError);
+
+      const current = await storage.transaction(['settings'], tx => settings.effectiveSettings(tx, null));
+      return settings.calibrate(await readUsers(), targetFar, current.matchThreshold);
+    }),
+
+    // Retention limits and how face descriptors are protected
+    route('GET', '/privacy', 'privacy:manage', async () => ({ status: 200, body: privacy.describePolicy(storage) })),
+
+    // Apply the attendance retention limit now rather than at the next scheduled run
+    route('POST', '/privacy/purge', 'privacy:manage', async () => {
+      const purged = await privacy.purgeExpired(storage);
+      if (!purged) return { status: 409, body: { message: 'No attendance retention limit is set' } };
+
+      return { status: 200, body: purged };
+    }),
+
+    // Everything held about one person, for an access request
+    route('GET', '/privacy/people/:id/export', 'privacy:manage', async ({ params }) => {
+      const data = await privacy.exportPerson(storage, params.id);
+      if (!data) return notFound('User not found');
+
+      return {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="person_${params.id.replace(/[^\w-]/g, '_')}_${data.exportedAt.split('T')[0]}.json"`
+        },
+        raw: JSON.stringify(data, null, 2)
+      };
+    }),
+
+    // Erase everything held about one person; responds with the erasure receipt
+    route('DELETE', '/privacy/people/:id', 'privacy:manage', async ({ params, principal }) => {
+      const result = await privacy.erasePerson(storage, params.id, principal);
+      if (!result) return notFound('User not found');
+
+      broadcastAll([
+        { type: 'person.deleted', data: { id: params.id } },
+        { type: 'attendance.deleted', data: { ids: result.recordIds } },
+        ...result.sessions.map(session => ({ type: 'session.updated', data: { session } }))
+      ]);
+      return { status: 200, body: result.receipt };
+    }),
+
+    route('GET', '/privacy/receipts', 'privacy:manage', async () => ({
+      status: 200,
+      body: privacy.listReceipts(await storage.list('erasure_receipts'))
+    }))
+  ];
+}
+
+module.exports = { createRoutes };
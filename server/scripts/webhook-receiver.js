@@ -0,0 +1,43 @@
+// Local endpoint for trying out webhooks: prints every delivery and checks its signature.
+//
+//   WEBHOOK_SECRET=whsec_... PORT=4000 npm run webhook-receiver
+//
+// Register http://localhost:4000/ as the webhook URL. Set FAIL_STATUS=500 to answer with an
+// error instead, which makes the server retry.
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.PORT) || 4000;
+const SECRET = process.env.WEBHOOK_SECRET || '';
+const FAIL_STATUS = Number(process.env.FAIL_STATUS) || 0;
+// Deliveries signed longer ago than this are rejected as possible replays
+const TOLERANCE_SECONDS = 5 * 60;
+
+// Check an X-Webhook-Signature header against the raw request body
+function verify(header, body) {
+  const parts = Object.fromEntries((header || '').split(',').map(part => part.split('=')));
+  const timestamp = Number(parts.t);
+  if (!timestamp || !parts.v1) return 'missing signature';
+  if (Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) return 'timestamp outside tolerance';
+
+  const expected = crypto.createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+  const matches = expected.length === parts.v1.length
+    && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1));
+  return matches ? null : 'signature mismatch';
+}
+
+http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const problem = SECRET ? verify(req.headers['x-webhook-signature'], body) : 'not checked (WEBHOOK_SECRET is not set)';
+    console.log(`${new Date().toISOString()} ${req.headers['x-webhook-event']} delivery ${req.headers['x-webhook-delivery']}`);
+    console.log(`  signature: ${problem || 'valid'}`);
+    console.log(`  ${body}`);
+
+    const status = FAIL_STATUS || (SECRET && problem ? 401 : 200);
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(status === 200 ? 'ok' : 'rejected');
+  });
+}).listen(PORT, () => console.log(`Webhook receiver listening on http://localhost:${PORT}/`));
@@ -0,0 +1,73 @@
+// Session scheduling: which session a recognition belongs to, and who was present, late or absent
+
+const MINUTE_MS = 60 * 1000;
+
+// Validate the body of a create-session request against the enrolled user ids, returning an error
+// message or null
+function validateSession({ name, startTime, endTime, gracePeriodMinutes, expectedUserIds }, userIds) {
+  if (typeof name !== 'string' || !name.trim()) return 'Name is required';
+  if (isNaN(Date.parse(startTime)) || isNaN(Date.parse(endTime))) return 'Valid start and end times are required';
+  if (Date.parse(endTime) <= Date.parse(startTime)) return 'End time must be after start time';
+  if (gracePeriodMinutes !== undefined && (typeof gracePeriodMinutes !== 'number' || gracePeriodMinutes < 0)) {
+    return 'Grace period must be a non-negative number of minutes';
+  }
+  if (expectedUserIds !== undefined) {
+    if (!Array.isArray(expectedUserIds) || !expectedUserIds.every(id => typeof id === 'string')) {
+      return 'Expected roster must be a list of user ids';
+    }
+    const unknown = expectedUserIds.find(id => !userIds.includes(id));
+    if (unknown !== undefined) return `Unknown user id in expected roster: ${unknown}`;
+  }
+  return null;
+}
+
+// The open session whose start/end window contains the given time
+function findRunningSession(sessions, timestamp) {
+  const time = Date.parse(timestamp);
+  return sessions.find(session =>
+    !session.closedAt && Date.parse(session.startTime) <= time && time <= Date.parse(session.endTime)
+  ) || null;
+}
+
+// Status for every expected person. Open sessions report people not yet seen as `pending`;
+// once a session is closed they become `absent`.
+function computeRoll(session, records, users, closed) {
+  const lateAfter = Date.parse(session.startTime) + (session.gracePeriodMinutes || 0) * MINUTE_MS;
+  const sessionRecords = records.filter(record => record.sessionId === session.id && !record.voidedAt);
+
+  return session.expectedUserIds.map(userId => {
+    const user = users.find(u => u.id === userId);
+    const firstSeen = sessionRecords
+      .filter(record => record.userId === userId)
+      .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))[0];
+
+    let status = closed ? 'absent' : 'pending';
+    if (firstSeen) {
+      status = Date.parse(firstSeen.timestamp) <= lateAfter ? 'present' : 'late';
+    }
+
+    return {
+      userId,
+      name: user ? user.name : 'Unknown',
+      status,
+      recordId: firstSeen ? firstSeen.id : null,
+      checkedInAt: firstSeen ? firstSeen.timestamp : null
+    };
+  });
+}
+
+// Freeze the roll of a session; absentees are final from here on
+function closeSession(session, records, users, now = new Date()) {
+  return {
+    ...session,
+    closedAt: now.toISOString(),
+    roll: computeRoll(session, records, users, true)
+  };
+}
+
+module.exports = {
+  validateSession,
+  findRunningSession,
+  computeRoll,
+  closeSession
+};
@@ -0,0 +1,212 @@
+// Recognition settings that admins tune at runtime instead of rebuilding the app. Defaults can be
+// overridden for the whole deployment and again for a single kiosk, identified by the device id it
+// reports with its recognitions. Kiosks fetch their effective settings and follow live changes.
+//
+// Documents in `settings` are { id: 'deployment' | 'kiosk:<deviceId>', deviceId, values, updatedAt, updatedBy },
+// where `values` only holds the overridden fields.
+
+const DEPLOYMENT_ID = 'deployment';
+const kioskId = deviceId => `kiosk:${deviceId}`;
+
+// Every setting with its default and allowed range. The client keeps the same defaults for kiosks
+// that have not reached the server yet.
+const SETTINGS = {
+  // Faces detected with a lower score are ignored
+  minConfidence: { default: 0.6, min: 0.1, max: 0.99 },
+  // Mobile kiosks detect on half-size frames, where faces score lower; their minimum is scaled by this
+  mobileConfidenceScale: { default: 0.8, min: 0.5, max: 1 },
+  // A face closer than this to an enrolled person's samples is taken to be them
+  matchThreshold: { default: 0.5, min: 0.2, max: 1 },
+  // The same person is logged at most once per this many minutes on a kiosk
+  attendanceCooldownMinutes: { default: 5, min: 0, max: 24 * 60 }
+};
+
+const DEFAULTS = Object.fromEntries(Object.entries(SETTINGS).map(([key, { default: value }]) => [key, value]));
+
+// Validate overridden values, returning an error message or null. Null clears an override.
+function validateSettings(values) {
+  if (!values || typeof values !== 'object' || Array.isArray(values)) return 'Settings must be an object';
+  for (const [key, value] of Object.entries(values)) {
+    const setting = SETTINGS[key];
+    if (!setting) return `Unknown setting ${key}; settings are ${Object.keys(SETTINGS).join(', ')}`;
+    if (value === null) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < setting.min || value > setting.max) {
+      return `${key} must be a number from ${setting.min} to ${setting.max}`;
+    }
+  }
+  return null;
+}
+
+const overridesOf = values => Object.fromEntries(Object.entries(values).filter(([, value]) => value !== null));
+
+// Settings a kiosk runs with: defaults, then deployment overrides, then its own
+function effectiveSettings(tx, deviceId) {
+  const deployment = tx.get('settings', DEPLOYMENT_ID);
+  const kiosk = deviceId ? tx.get('settings', kioskId(deviceId)) : null;
+  return { ...DEFAULTS, ...(deployment && deployment.values), ...(kiosk && kiosk.values) };
+}
+
+// Replace the overrides of the deployment (no device id) or of one kiosk. A kiosk left without
+// overrides is removed, so it follows the deployment again. Returns the stored document, if any.
+function saveSettings(tx, deviceId, values, principal) {
+  const id = deviceId ? kioskId(deviceId) : DEPLOYMENT_ID;
+  const overrides = overridesOf(values);
+  if (deviceId && Object.keys(overrides).length === 0) {
+    tx.remove('settings', id);
+    return null;
+  }
+
+  const document = { deviceId: deviceId || null, values: overrides, updatedAt: new Date().toISOString(), updatedBy: principal.name };
+  return tx.get('settings', id) ? tx.update('settings', id, document) : tx.insert('settings', { id, ...document });
+}
+
+// Kiosks an admin can tune: every device that has logged attendance, plus any with overrides
+function listKiosks(tx) {
+  const kiosks = new Map();
+  tx.list('attendance').forEach(record => {
+    const recognition = record.recognition;
+    if (!recognition || !recognition.deviceId) return;
+    const kiosk = kiosks.get(recognition.deviceId) || { deviceId: recognition.deviceId, name: null, locations: [], lastSeenAt: null };
+    if (!kiosk.lastSeenAt || record.timestamp > kiosk.lastSeenAt) {
+      kiosk.lastSeenAt = record.timestamp;
+      kiosk.name = record.recordedBy ? record.recordedBy.name : null;
+    }
+    if (recognition.location && !kiosk.locations.includes(recognition.location)) kiosk.locations.push(recognition.location);
+    kiosks.set(recognition.deviceId, kiosk);
+  });
+
+  tx.list('settings').filter(document => document.id !== DEPLOYMENT_ID).forEach(document => {
+    if (!kiosks.has(document.deviceId)) {
+      kiosks.set(document.deviceId, { deviceId: document.deviceId, name: null, locations: [], lastSeenAt: null });
+    }
+  });
+
+  return [...kiosks.values()]
+    .map(kiosk => {
+      const document = tx.get('settings', kioskId(kiosk.deviceId));
+      return {
+        ...kiosk,
+        values: document ? document.values : {},
+        updatedAt: document ? document.updatedAt : null,
+        updatedBy: document ? document.updatedBy : null
+      };
+    })
+    .sort((a, b) => (b.lastSeenAt || '').localeCompare(a.lastSeenAt || ''));
+}
+
+// Everything the admin panel shows: the allowed ranges, the deployment overrides and every kiosk
+function describeSettings(tx) {
+  const deployment = tx.get('settings', DEPLOYMENT_ID);
+  return {
+    fields: SETTINGS,
+    deployment: {
+      values: deployment ? deployment.values : {},
+      updatedAt: deployment ? deployment.updatedAt : null,
+      updatedBy: deployment ? deployment.updatedBy : null
+    },
+    kiosks: listKiosks(tx)
+  };
+}
+
+// Calibration: how far enrolled samples are from their own person (genuine) and from everybody
+// else (impostor), measured the way kiosks match faces, by the mean distance to a person's samples.
+const HISTOGRAM_BIN = 0.05;
+const HISTOGRAM_MAX = 1.5;
+// Every sample is compared with every other one, so the work grows with the square of the samples.
+// It runs on the request path, so larger rosters are calibrated on the first people up to this many
+// samples, which keeps a run to a fraction of a second.
+const MAX_CALIBRATION_SAMPLES = 1000;
+
+// Enrolled people, in roster order, until the next one would go over MAX_CALIBRATION_SAMPLES
+function calibrationPeople(users) {
+  const people = [];
+  let samples = 0;
+  for (const user of users.filter(candidate => candidate.descriptors.length > 0)) {
+    if (samples + user.descriptors.length > MAX_CALIBRATION_SAMPLES) break;
+    people.push(user);
+    samples += user.descriptors.length;
+  }
+  return people;
+}
+
+const distance = (a, b) => Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0));
+
+// Validate a target false-accept rate, returning an error message or null
+function validateTargetFar(targetFar) {
+  if (!Number.isFinite(targetFar) || targetFar <= 0 || targetFar >= 0.5) return 'Target false-accept rate must be between 0 and 0.5';
+  return null;
+}
+
+function histogram(scores) {
+  const bins = new Array(Math.round(HISTOGRAM_MAX / HISTOGRAM_BIN)).fill(0);
+  scores.forEach(score => {
+    bins[Math.min(bins.length - 1, Math.floor(score / HISTOGRAM_BIN))] += 1;
+  });
+  return bins;
+}
+
+// Share of impostor scores a threshold accepts and of genuine scores it rejects; kiosks accept
+// distances strictly below the threshold
+const errorRates = (genuine, impostor, threshold) => ({
+  threshold,
+  far: impostor.filter(score => score < threshold).length / impostor.length,
+  frr: genuine.filter(score => score >= threshold).length / genuine.length
+});
+
+// Genuine and impostor distance distributions over the enrolled samples, and the highest threshold
+// whose measured false-accept rate stays at or under `targetFar`. Returns { status, body }.
+function calibrate(users, targetFar, currentThreshold) {
+  const people = calibrationPeople(users);
+  if (people.length < 2 || !people.some(user => user.descriptors.length >= 2)) {
+    return { status: 400, body: { message: 'Calibration needs at least two enrolled people, one of them with two or more samples' } };
+  }
+
+  const genuine = [];
+  const impostor = [];
+  people.forEach(person => {
+    person.descriptors.forEach((sample, index) => {
+      // A sample against the rest of its own person, as if it were a new face of them
+      if (person.descriptors.length >= 2) {
+        const others = person.descriptors.filter((_, i) => i !== index);
+        genuine.push(others.reduce((sum, other) => sum + distance(sample, other), 0) / others.length);
+      }
+      people.forEach(other => {
+        if (other === person) return;
+        impostor.push(other.descriptors.reduce((sum, descriptor) => sum + distance(sample, descriptor), 0) / other.descriptors.length);
+      });
+    });
+  });
+  impostor.sort((a, b) => a - b);
+
+  // At most this many impostor scores may fall under the threshold; rounded down to two decimals
+  // so the recommendation never accepts more than measured. It is kept within the range the settings
+  // accept so it can be applied; at the minimum the measured rates show how far it misses the target.
+  const allowed = Math.floor(targetFar * impostor.length);
+  const { min, max } = SETTINGS.matchThreshold;
+  const recommended = Math.min(max, Math.max(min, Math.floor(impostor[Math.min(allowed, impostor.length - 1)] * 100) / 100));
+
+  return {
+    status: 200,
+    body: {
+      people: people.length,
+      enrolledPeople: users.filter(user => user.descriptors.length > 0).length,
+      samples: people.reduce((sum, person) => sum + person.descriptors.length, 0),
+      targetFar,
+      // Rates below one impostor comparison cannot be told apart from zero
+      minMeasurableFar: 1 / impostor.length,
+      recommended: errorRates(genuine, impostor, recommended),
+      current: errorRates(genuine, impostor, currentThreshold),
+      histogram: { binWidth: HISTOGRAM_BIN, genuine: histogram(genuine), impostor: histogram(impostor) }
+    }
+  };
+}
+
+module.exports = {
+  SETTINGS,
+  validateSettings,
+  effectiveSettings,
+  saveSettings,
+  describeSettings,
+  validateTargetFar,
+  calibrate
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { calibrate } from './settings';
+
+// Two-dimensional samples keep the distances easy to work out by hand
+const person = (id, ...descriptors) => ({ id, descriptors });
+const pair = (id, x, y = 0) => person(id, [x, y], [x, y + 0.2]);
+
+describe('calibrate', () => {
+  it('recommends the highest threshold that keeps false accepts under the target, in hundredths', () => {
+    // Every impostor score is the mean of 0.6 and √0.4 ≈ 0.632, so 0.616; genuine scores are 0.2
+    const { status, body } = calibrate([pair('a', 0), pair('b', 0.6)], 0.1, 0.5);
+
+    expect(status).toBe(200);
+    expect(body.recommended).toEqual({ threshold: 0.61, far: 0, frr: 0 });
+    expect(body.current).toEqual({ threshold: 0.5, far: 0, frr: 0 });
+    expect(body.minMeasurableFar).toBe(1 / 4);
+  });
+
+  it('allows as many impostor scores under the threshold as the target permits', () => {
+    // Impostor scores, sorted: 0.2 twice (b and c), √0.1 ≈ 0.316 three times (a and b), √0.26 ≈ 0.51 three times
+    const users = [pair('a', 0), person('b', [0.3, 0.1]), person('c', [0.5, 0.1])];
+
+    expect(calibrate(users, 0.25, 0.5).body.recommended).toMatchObject({ threshold: 0.31, far: 0.25 });
+    expect(calibrate(users, 0.01, 0.5).body.recommended).toMatchObject({ threshold: 0.2, far: 0 });
+  });
+
+  it('keeps the recommendation within the range the settings accept', () => {
+    expect(calibrate([pair('a', 0), pair('b', 5)], 0.1, 0.5).body.recommended.threshold).toBe(1);
+
+    const tooClose = calibrate([pair('a', 0), pair('b', 0.05)], 0.1, 0.5).body.recommended;
+    expect(tooClose.threshold).toBe(0.2);
+    expect(tooClose.far).toBe(1);
+  });
+
+  it('needs two people, one of them with two samples', () => {
+    expect(calibrate([pair('a', 0)], 0.1, 0.5).status).toBe(400);
+    expect(calibrate([person('a', [0, 0]), person('b', [1, 0])], 0.1, 0.5).status).toBe(400);
+  });
+
+  it('calibrates large rosters on the first people up to the sample limit', () => {
+    const users = Array.from({ length: 60 }, (_, i) =>
+      person(`u${i}`, ...Array.from({ length: 20 }, (_, j) => [i, j / 100]))
+    );
+    const { body } = calibrate([person('empty'), ...users], 0.001, 0.5);
+
+    expect(body).toMatchObject({ people: 50, enrolledPeople: 60, samples: 1000 });
+  });
+});
@@ -0,0 +1,108 @@
+// Shift tracking: pairs check-in/check-out records into intervals and totals hours per person per day
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A check-in older than this is treated as forgotten, so the next scan starts a new shift
+const MAX_SHIFT_HOURS = 16;
+
+const EVENT_TYPES = ['check-in', 'check-out'];
+
+// Local calendar day (YYYY-MM-DD) a timestamp falls on
+function dayOf(timestamp) {
+  return new Date(timestamp).toLocaleDateString('en-CA');
+}
+
+// Typed records of one person, oldest first; voided records are ignored
+function shiftEventsFor(records, userKey) {
+  return records
+    .filter(record => !record.voidedAt && EVENT_TYPES.includes(record.type) && (record.userId || record.name) === userKey)
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
+// Alternate per person: check out if their last event is a recent check-in, otherwise check in
+function resolveEventType(records, userKey, timestamp) {
+  const time = Date.parse(timestamp);
+  const previous = shiftEventsFor(records, userKey).filter(record => Date.parse(record.timestamp) <= time);
+  const last = previous[previous.length - 1];
+  if (last && last.type === 'check-in' && time - Date.parse(last.timestamp) < MAX_SHIFT_HOURS * HOUR_MS) {
+    return 'check-out';
+  }
+  return 'check-in';
+}
+
+function interval(checkIn, checkOut) {
+  return {
+    checkIn,
+    checkOut,
+    durationMs: checkIn && checkOut ? Date.parse(checkOut) - Date.parse(checkIn) : 0,
+    missingCheckIn: !checkIn,
+    missingCheckOut: !checkOut
+  };
+}
+
+// Pair one person's events into intervals. A check-in followed by another check-in, or never
+// followed by a check-out, is missing its check-out; a check-out with nothing open is missing its check-in.
+function pairEvents(events) {
+  const intervals = [];
+  let open = null;
+
+  events.forEach(event => {
+    if (event.type === 'check-in') {
+      if (open) intervals.push(interval(open.timestamp, null));
+      open = event;
+    } else if (open && Date.parse(event.timestamp) - Date.parse(open.timestamp) < MAX_SHIFT_HOURS * HOUR_MS) {
+      intervals.push(interval(open.timestamp, event.timestamp));
+      open = null;
+    } else {
+      if (open) intervals.push(interval(open.timestamp, null));
+      intervals.push(interval(null, event.timestamp));
+      open = null;
+    }
+  });
+
+  if (open) intervals.push(interval(open.timestamp, null));
+  return intervals;
+}
+
+// Daily summaries for every person with check-in/check-out records, optionally limited to a date range
+function computeShifts(records, { from, to } = {}) {
+  const people = new Map();
+  records.forEach(record => {
+    if (!EVENT_TYPES.includes(record.type)) return;
+    const key = record.userId || record.name;
+    if (!people.has(key)) people.set(key, record.name);
+  });
+
+  const days = [];
+  people.forEach((name, userKey) => {
+    const byDay = new Map();
+    pairEvents(shiftEventsFor(records, userKey)).forEach(shift => {
+      const date = dayOf(shift.checkIn || shift.checkOut);
+      if ((from && date < from) || (to && date > to)) return;
+      if (!byDay.has(date)) byDay.set(date, []);
+      byDay.get(date).push(shift);
+    });
+
+    byDay.forEach((intervals, date) => {
+      const totalMs = intervals.reduce((sum, shift) => sum + shift.durationMs, 0);
+      days.push({
+        userId: userKey,
+        name,
+        date,
+        intervals,
+        totalHours: Math.round((totalMs / HOUR_MS) * 100) / 100,
+        missingCheckOut: intervals.some(shift => shift.missingCheckOut),
+        missingCheckIn: intervals.some(shift => shift.missingCheckIn)
+      });
+    });
+  });
+
+  return days.sort((a, b) => b.date.localeCompare(a.date) || (a.name || '').localeCompare(b.name || ''));
+}
+
+module.exports = {
+  EVENT_TYPES,
+  dayOf,
+  resolveEventType,
+  computeShifts
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { computeShifts, resolveEventType } from './shifts';
+
+// Local times, so dates come out the same in every time zone
+const at = (day, hour, minute = 0) => new Date(2026, 0, day, hour, minute).toISOString();
+let nextId = 0;
+const event = (type, timestamp, fields = {}) => ({ id: `r${++nextId}`, userId: 'u1', name: 'Ada', type, timestamp, ...fields });
+
+describe('computeShifts', () => {
+  it('pairs check-ins with check-outs and totals the hours of each day', () => {
+    const days = computeShifts([
+      event('check-in', at(5, 9)),
+      event('check-out', at(5, 12)),
+      event('check-in', at(5, 13)),
+      event('check-out', at(5, 17, 30))
+    ]);
+
+    expect(days).toHaveLength(1);
+    expect(days[0]).toMatchObject({ userId: 'u1', name: 'Ada', date: '2026-01-05', totalHours: 7.5, missingCheckIn: false, missingCheckOut: false });
+    expect(days[0].intervals).toEqual([
+      { checkIn: at(5, 9), checkOut: at(5, 12), durationMs: 3 * 3600000, missingCheckIn: false, missingCheckOut: false },
+      { checkIn: at(5, 13), checkOut: at(5, 17, 30), durationMs: 4.5 * 3600000, missingCheckIn: false, missingCheckOut: false }
+    ]);
+  });
+
+  it('marks a check-in followed by another check-in, or by nothing, as missing its check-out', () => {
+    const [day] = computeShifts([
+      event('check-in', at(5, 9)),
+      event('check-in', at(5, 13)),
+      event('check-out', at(5, 17)),
+      event('check-in', at(5, 18))
+    ]);
+
+    expect(day.intervals.map(({ checkIn, checkOut }) => [checkIn, checkOut])).toEqual([
+      [at(5, 9), null],
+      [at(5, 13), at(5, 17)],
+      [at(5, 18), null]
+    ]);
+    expect(day).toMatchObject({ totalHours: 4, missingCheckOut: true, missingCheckIn: false });
+  });
+
+  it('marks a check-out with nothing open as missing its check-in', () => {
+    const [day] = computeShifts([event('check-out', at(5, 17))]);
+
+    expect(day.intervals).toEqual([{ checkIn: null, checkOut: at(5, 17), durationMs: 0, missingCheckIn: true, missingCheckOut: false }]);
+    expect(day).toMatchObject({ totalHours: 0, missingCheckIn: true });
+  });
+
+  it('does not pair a check-out with a check-in from more than 16 hours before', () => {
+    const days = computeShifts([event('check-in', at(5, 8)), event('check-out', at(6, 9))]);
+
+    expect(days.map(day => [day.date, day.missingCheckIn, day.missingCheckOut])).toEqual([
+      ['2026-01-06', true, false],
+      ['2026-01-05', false, true]
+    ]);
+  });
+
+  it('ignores voided and untyped records, and keeps people apart', () => {
+    const days = computeShifts([
+      event('check-in', at(5, 9)),
+      event('check-out', at(5, 10), { voidedAt: at(5, 11) }),
+      event(undefined, at(5, 10, 30)),
+      event('check-out', at(5, 11)),
+      event('check-in', at(5, 9), { userId: 'u2', name: 'Bea' }),
+      event('check-out', at(5, 10), { userId: 'u2', name: 'Bea' })
+    ]);
+
+    expect(days.map(day => [day.name, day.totalHours])).toEqual([['Ada', 2], ['Bea', 1]]);
+  });
+
+  it('limits days to the date range, newest first', () => {
+    const records = [5, 6, 7].flatMap(day => [event('check-in', at(day, 9)), event('check-out', at(day, 17))]);
+
+    expect(computeShifts(records).map(day => day.date)).toEqual(['2026-01-07', '2026-01-06', '2026-01-05']);
+    expect(computeShifts(records, { from: '2026-01-06', to: '2026-01-06' }).map(day => day.date)).toEqual(['2026-01-06']);
+  });
+});
+
+describe('resolveEventType', () => {
+  it('checks out after a recent check-in, and in otherwise', () => {
+    const checkedIn = [event('check-in', at(5, 9))];
+
+    expect(resolveEventType([], 'u1', at(5, 9))).toBe('check-in');
+    expect(resolveEventType(checkedIn, 'u1', at(5, 17))).toBe('check-out');
+    expect(resolveEventType(checkedIn, 'u2', at(5, 17))).toBe('check-in');
+    expect(resolveEventType(checkedIn, 'u1', at(6, 9))).toBe('check-in');
+    expect(resolveEventType([...checkedIn, event('check-out', at(5, 17))], 'u1', at(5, 18))).toBe('check-in');
+  });
+});
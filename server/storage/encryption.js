@@ -0,0 +1,117 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+// Face descriptors are biometric data, so the fields that hold them are encrypted before either
+// driver writes a document and decrypted as it is read; the rest of the server never sees the
+// difference. Each value is sealed on its own with AES-256-GCM and stored as
+// "enc:v1:<iv>:<auth tag>:<ciphertext>" (base64 parts).
+
+const ENCRYPTED_FIELDS = {
+  // `descriptor` is the single sample of people enrolled before multi-sample support
+  users: ['descriptors', 'descriptor'],
+  unknown_faces: ['descriptor'],
+  unknown_clusters: ['centroid']
+};
+
+const PREFIX = 'enc:v1:';
+const KEY_BYTES = 32;
+
+// The key comes from DESCRIPTOR_KEY. Without it one is generated on first start and kept in the
+// data directory, which keeps descriptors out of copies of the collections but not out of a copy of
+// the whole directory. Returns { key, source }.
+function loadKey({ descriptorKey, descriptorKeyPath }) {
+  if (descriptorKey) {
+    const key = Buffer.from(descriptorKey, 'base64');
+    if (key.length !== KEY_BYTES) throw new Error(`DESCRIPTOR_KEY must be ${KEY_BYTES} bytes, base64 encoded`);
+    return { key, source: 'environment' };
+  }
+
+  const read = () => Buffer.from(fs.readFileSync(descriptorKeyPath, 'utf8').trim(), 'base64');
+  try {
+    return { key: read(), source: 'file' };
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+  fs.mkdirSync(path.dirname(descriptorKeyPath), { recursive: true });
+  try {
+    fs.writeFileSync(descriptorKeyPath, crypto.randomBytes(KEY_BYTES).toString('base64'), { mode: 0o600, flag: 'wx' });
+    console.warn(`Generated a face descriptor key in ${descriptorKeyPath}. Set DESCRIPTOR_KEY to keep the key apart from the data.`);
+  } catch (error) {
+    // Another process created it first
+    if (error.code !== 'EEXIST') throw error;
+  }
+  return { key: read(), source: 'file' };
+}
+
+function createFieldCipher(key) {
+  const isEncrypted = value => typeof value === 'string' && value.startsWith(PREFIX);
+
+  const encrypt = value => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+    return PREFIX + [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+  };
+
+  // Values written before encryption was turned on are returned as they are
+  const decrypt = value => {
+    if (!isEncrypted(value)) return value;
+    const [iv, tag, ciphertext] = value.slice(PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+      decipher.setAuthTag(tag);
+      return JSON.parse(Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8'));
+    } catch (error) {
+      throw new Error('Face descriptors could not be decrypted; is DESCRIPTOR_KEY the key they were written with?');
+    }
+  };
+
+  return { isEncrypted, encrypt, decrypt };
+}
+
+// A copy of `doc` with its encrypted fields passed through `fn`
+function mapFields(collection, doc, fn) {
+  const fields = ENCRYPTED_FIELDS[collection];
+  if (!fields || !doc) return doc;
+  const mapped = { ...doc };
+  fields.forEach(field => {
+    if (mapped[field] !== undefined && mapped[field] !== null) mapped[field] = fn(mapped[field]);
+  });
+  return mapped;
+}
+
+// Transaction helpers that encrypt on the way into a driver's `tx` and decrypt on the way out
+function encryptedTransaction(tx, cipher) {
+  const seal = (collection, doc) => mapFields(collection, doc, cipher.encrypt);
+  const open = (collection, doc) => mapFields(collection, doc, cipher.decrypt);
+
+  return {
+    list: collection => tx.list(collection).map(doc => open(collection, doc)),
+    get: (collection, id) => open(collection, tx.get(collection, id)),
+    insert: (collection, doc) => {
+      tx.insert(collection, seal(collection, doc));
+      return doc;
+    },
+    update: (collection, id, changes) => open(collection, tx.update(collection, id, seal(collection, changes))),
+    removeWhere: (collection, predicate) => tx.removeWhere(collection, doc => predicate(open(collection, doc))),
+    remove: (collection, id) => tx.remove(collection, id)
+  };
+}
+
+// Encrypt values still stored in the clear, e.g. after upgrading; returns how many documents changed
+function encryptPlaintext(store, cipher) {
+  const collections = Object.keys(ENCRYPTED_FIELDS);
+  return store.transaction(collections, tx => collections.reduce((count, collection) => {
+    tx.list(collection).forEach(doc => {
+      const plain = ENCRYPTED_FIELDS[collection]
+        .filter(field => doc[field] !== undefined && doc[field] !== null && !cipher.isEncrypted(doc[field]));
+      if (plain.length === 0) return;
+      tx.update(collection, doc.id, Object.fromEntries(plain.map(field => [field, cipher.encrypt(doc[field])])));
+      count += 1;
+    });
+    return count;
+  }, 0));
+}
+
+module.exports = { ENCRYPTED_FIELDS, loadKey, createFieldCipher, encryptedTransaction, encryptPlaintext };
@@ -0,0 +1,59 @@
+const config = require('../config');
+const { createJsonStore } = require('./jsonStore');
+const { createSqliteStore } = require('./sqliteStore');
+const { loadKey, createFieldCipher, encryptedTransaction, encryptPlaintext } = require('./encryption');
+
+// Netlify runs each function as many short-lived instances over a read-only copy of the code, so
+// storage there has to be a database in a writable directory every instance mounts, with the
+// descriptor key kept out of it. Returns what is missing, or null.
+function configurationError(options = config) {
+  if (!options.serverless) return null;
+  if (options.storageDriver !== 'sqlite') return 'Serverless functions need STORAGE_DRIVER=sqlite, the default there';
+  if (!options.dataDirConfigured) return 'Serverless functions need DATA_DIR, a writable directory shared by every function instance';
+  if (!options.descriptorKey) return 'Serverless functions need DESCRIPTOR_KEY';
+  return null;
+}
+
+// Storage interface shared by the Express server and the Netlify functions.
+//
+// Collections are lists of documents with a string `id`. All reads and writes go through
+// transaction(collections, fn), where `fn` receives synchronous helpers:
+//   list(c), get(c, id), insert(c, doc), update(c, id, changes), remove(c, id), removeWhere(c, predicate)
+// The single-operation methods below are shorthands for one-step transactions.
+// Face descriptors are encrypted and decrypted on the way through (see ./encryption).
+function createStorage(options = config) {
+  const misconfigured = configurationError(options);
+  if (misconfigured) throw new Error(misconfigured);
+  const store = options.storageDriver === 'sqlite'
+    ? createSqliteStore(options)
+    : createJsonStore(options);
+  const { key, source } = loadKey(options);
+  const cipher = createFieldCipher(key);
+  const transaction = (collections, fn) => store.transaction(collections, tx => fn(encryptedTransaction(tx, cipher)));
+
+  return {
+    driver: store.driver,
+    // Where the descriptor key came from: `environment` (DESCRIPTOR_KEY) or `file`
+    descriptorKeySource: source,
+    transaction,
+    list: collection => transaction([collection], tx => tx.list(collection)),
+    get: (collection, id) => transaction([collection], tx => tx.get(collection, id)),
+    insert: (collection, doc) => transaction([collection], tx => tx.insert(collection, doc)),
+    update: (collection, id, changes) => transaction([collection], tx => tx.update(collection, id, changes)),
+    remove: (collection, id) => transaction([collection], tx => tx.remove(collection, id)),
+    encryptPlaintext: () => encryptPlaintext(store, cipher),
+    close: () => store.close()
+  };
+}
+
+let defaultStorage = null;
+
+// Storage configured from the environment, created on first use
+function getStorage() {
+  if (!defaultStorage) {
+    defaultStorage = createStorage(config);
+  }
+  return defaultStorage;
+}
+
+module.exports = { configurationError, createStorage, getStorage };
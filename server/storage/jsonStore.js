@@ -0,0 +1,137 @@
+const fs = require('fs').promises;
+const fsSync = require('fs');
+const path = require('path');
+
+const LOCK_FILE = 'json-store.lock';
+
+const isRunning = pid => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return error.code === 'EPERM';
+  }
+};
+
+// Claim the data directory for this process. The queue below only orders this process's
+// transactions, and a transaction that changes several collections writes them one file at a time,
+// so a second process writing the same files could lose updates or see half a transaction.
+// Opening fails while another running process holds the directory; a lock left by a process that
+// stopped is taken over.
+function claimDataDir(dataDir) {
+  const lockPath = path.join(dataDir, LOCK_FILE);
+  fsSync.mkdirSync(dataDir, { recursive: true });
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      fsSync.writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+      process.on('exit', () => fsSync.rmSync(lockPath, { force: true }));
+      return;
+    } catch (error) {
+      if (error.code !== 'EEXIST') throw error;
+    }
+    const owner = Number.parseInt(fsSync.readFileSync(lockPath, 'utf8'), 10);
+    if (owner === process.pid) return;
+    if (isRunning(owner)) {
+      throw new Error(`Process ${owner} is already using the JSON storage in ${dataDir}. ` +
+        `Processes that share data need STORAGE_DRIVER=sqlite; if that process is not this app, delete ${lockPath}.`);
+    }
+    fsSync.rmSync(lockPath, { force: true });
+  }
+  throw new Error(`Could not claim the JSON storage in ${dataDir}`);
+}
+
+// One JSON file per collection (attendance.json, users.json, ...), for a single server process.
+// Every transaction runs through a single queue so read-modify-write cycles never interleave, and
+// files are replaced with an atomic rename so a crash mid-write never leaves a truncated file behind.
+function createJsonStore({ dataDir }) {
+  claimDataDir(dataDir);
+  let queue = Promise.resolve();
+
+  const fileFor = collection => path.join(dataDir, `${collection}.json`);
+
+  async function readCollection(collection) {
+    try {
+      const data = await fs.readFile(fileFor(collection), 'utf8');
+      return JSON.parse(data);
+    } catch (error) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async function writeCollection(collection, docs) {
+    const file = fileFor(collection);
+    const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.mkdir(dataDir, { recursive: true });
+    await fs.writeFile(tempFile, JSON.stringify(docs, null, 2));
+    await fs.rename(tempFile, file);
+  }
+
+  // Load the collections a transaction declares, run it, then persist whatever it changed
+  async function runTransaction(collections, fn) {
+    const loaded = new Map();
+    const dirty = new Set();
+    for (const collection of collections) {
+      loaded.set(collection, await readCollection(collection));
+    }
+
+    const docsOf = collection => {
+      if (!loaded.has(collection)) {
+        throw new Error(`Collection "${collection}" is not part of this transaction`);
+      }
+      return loaded.get(collection);
+    };
+    const save = (collection, docs) => {
+      loaded.set(collection, docs);
+      dirty.add(collection);
+    };
+
+    const tx = {
+      list: collection => docsOf(collection).slice(),
+      get: (collection, id) => docsOf(collection).find(doc => doc.id === id) || null,
+      insert: (collection, doc) => {
+        if (docsOf(collection).some(existing => existing.id === doc.id)) {
+          throw new Error(`Duplicate id "${doc.id}" in ${collection}`);
+        }
+        save(collection, [...docsOf(collection), doc]);
+        return doc;
+      },
+      update: (collection, id, changes) => {
+        const docs = docsOf(collection);
+        const index = docs.findIndex(doc => doc.id === id);
+        if (index === -1) return null;
+        const updated = { ...docs[index], ...changes, id };
+        save(collection, docs.map((doc, i) => i === index ? updated : doc));
+        return updated;
+      },
+      removeWhere: (collection, predicate) => {
+        const docs = docsOf(collection);
+        const remaining = docs.filter(doc => !predicate(doc));
+        if (remaining.length !== docs.length) save(collection, remaining);
+        return docs.length - remaining.length;
+      }
+    };
+    tx.remove = (collection, id) => tx.removeWhere(collection, doc => doc.id === id) > 0;
+
+    const result = fn(tx);
+    for (const collection of dirty) {
+      await writeCollection(collection, loaded.get(collection));
+    }
+    return result;
+  }
+
+  return {
+    driver: 'json',
+    transaction(collections, fn) {
+      const run = queue.then(() => runTransaction(collections, fn));
+      // Keep the queue going even if this transaction fails
+      queue = run.catch(() => {});
+      return run;
+    },
+    async close() {
+      await queue;
+    }
+  };
+}
+
+module.exports = { createJsonStore };
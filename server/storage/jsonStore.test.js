@@ -0,0 +1,101 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createJsonStore } from './jsonStore';
+
+let dataDir;
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-store-'));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+const lockPath = () => path.join(dataDir, 'json-store.lock');
+const readFile = collection => JSON.parse(fs.readFileSync(path.join(dataDir, `${collection}.json`), 'utf8'));
+
+describe('data directory lock', () => {
+  it('claims the directory for this process', () => {
+    createJsonStore({ dataDir });
+    expect(fs.readFileSync(lockPath(), 'utf8')).toBe(String(process.pid));
+  });
+
+  it('refuses a directory held by another running process', () => {
+    fs.writeFileSync(lockPath(), String(process.ppid));
+    expect(() => createJsonStore({ dataDir })).toThrow(`Process ${process.ppid} is already using the JSON storage`);
+  });
+
+  it('takes over a lock left by a process that stopped', () => {
+    const { pid } = spawnSync(process.execPath, ['-e', '']);
+    fs.writeFileSync(lockPath(), String(pid));
+    createJsonStore({ dataDir });
+    expect(fs.readFileSync(lockPath(), 'utf8')).toBe(String(process.pid));
+  });
+});
+
+describe('transactions', () => {
+  it('runs concurrent read-modify-write transactions one at a time', async () => {
+    const store = createJsonStore({ dataDir });
+    await store.transaction(['counters'], tx => tx.insert('counters', { id: 'visits', count: 0 }));
+
+    await Promise.all(Array.from({ length: 20 }, () => store.transaction(['counters'], tx => {
+      const { count } = tx.get('counters', 'visits');
+      return tx.update('counters', 'visits', { count: count + 1 });
+    })));
+
+    expect(readFile('counters')).toEqual([{ id: 'visits', count: 20 }]);
+  });
+
+  it('keeps the queue going after a transaction fails, without writing its changes', async () => {
+    const store = createJsonStore({ dataDir });
+    const failed = store.transaction(['users'], tx => {
+      tx.insert('users', { id: 'a' });
+      throw new Error('boom');
+    });
+    const next = store.transaction(['users'], tx => tx.insert('users', { id: 'b' }));
+
+    await expect(failed).rejects.toThrow('boom');
+    await next;
+    expect(readFile('users')).toEqual([{ id: 'b' }]);
+  });
+
+  it('writes every collection a transaction changed', async () => {
+    const store = createJsonStore({ dataDir });
+    await store.transaction(['users', 'sessions'], tx => {
+      tx.insert('users', { id: 'u1' });
+      tx.insert('sessions', { id: 's1' });
+    });
+    expect(readFile('users')).toEqual([{ id: 'u1' }]);
+    expect(readFile('sessions')).toEqual([{ id: 's1' }]);
+  });
+
+  it('rejects collections the transaction did not declare', async () => {
+    const store = createJsonStore({ dataDir });
+    await expect(store.transaction(['users'], tx => tx.list('sessions'))).rejects.toThrow('not part of this transaction');
+  });
+});
+
+describe('writes', () => {
+  it('replaces files with a rename and leaves no temporary files', async () => {
+    const store = createJsonStore({ dataDir });
+    const rename = vi.spyOn(fs.promises, 'rename');
+    await store.transaction(['users'], tx => tx.insert('users', { id: 'u1' }));
+
+    expect(rename).toHaveBeenCalledWith(expect.stringMatching(/users\.json\..*\.tmp$/), path.join(dataDir, 'users.json'));
+    expect(fs.readdirSync(dataDir).filter(file => file.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('leaves the previous file whole when a write fails before the rename', async () => {
+    const store = createJsonStore({ dataDir });
+    await store.transaction(['users'], tx => tx.insert('users', { id: 'u1' }));
+    vi.spyOn(fs.promises, 'rename').mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(store.transaction(['users'], tx => tx.insert('users', { id: 'u2' }))).rejects.toThrow('disk full');
+    expect(readFile('users')).toEqual([{ id: 'u1' }]);
+  });
+});
@@ -0,0 +1,93 @@
+// SQLite schema migrations, applied in order and recorded in schema_migrations.
+// Never edit a released migration; append a new one instead.
+// Each collection is a table of JSON documents keyed by id, so the storage interface stays
+// the same as the JSON-file driver; frequently filtered fields get expression indexes.
+
+const collectionTable = name => `
+  CREATE TABLE ${name} (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+`;
+
+module.exports = [
+  {
+    version: 1,
+    name: 'create attendance, users and sessions',
+    up: db => db.exec([
+      collectionTable('attendance'),
+      collectionTable('users'),
+      collectionTable('sessions')
+    ].join('\n'))
+  },
+  {
+    version: 2,
+    name: 'index attendance by timestamp, person and session',
+    up: db => db.exec(`
+      CREATE INDEX attendance_timestamp ON attendance (json_extract(data, '$.timestamp'));
+      CREATE INDEX attendance_user ON attendance (json_extract(data, '$.userId'));
+      CREATE INDEX attendance_session ON attendance (json_extract(data, '$.sessionId'));
+    `)
+  },
+  {
+    version: 3,
+    name: 'index attendance by idempotency key',
+    up: db => db.exec(`
+      CREATE INDEX attendance_idempotency_key ON attendance (json_extract(data, '$.idempotencyKey'));
+    `)
+  },
+  {
+    version: 4,
+    name: 'create accounts, auth sessions and api tokens',
+    up: db => db.exec([
+      collectionTable('accounts'),
+      collectionTable('auth_sessions'),
+      collectionTable('api_tokens')
+    ].join('\n'))
+  },
+  {
+    version: 5,
+    name: 'create audit log',
+    up: db => db.exec(`
+      ${collectionTable('audit_log')}
+      CREATE INDEX audit_log_record ON audit_log (json_extract(data, '$.recordId'));
+    `)
+  },
+  {
+    version: 6,
+    name: 'create webhooks, webhook deliveries and unknown faces',
+    up: db => db.exec(`
+      ${collectionTable('webhooks')}
+      ${collectionTable('webhook_deliveries')}
+      ${collectionTable('unknown_faces')}
+      CREATE INDEX webhook_deliveries_status ON webhook_deliveries (json_extract(data, '$.status'));
+      CREATE INDEX webhook_deliveries_webhook ON webhook_deliveries (json_extract(data, '$.webhookId'));
+    `)
+  },
+  {
+    version: 7,
+    name: 'create live events',
+    up: db => db.exec(`
+      ${collectionTable('live_events')}
+      CREATE INDEX live_events_seq ON live_events (json_extract(data, '$.seq'));
+    `)
+  },
+  {
+    version: 8,
+    name: 'create unknown face clusters',
+    up: db => db.exec(`
+      ${collectionTable('unknown_clusters')}
+      CREATE INDEX unknown_faces_cluster ON unknown_faces (json_extract(data, '$.clusterId'));
+    `)
+  },
+  {
+    version: 9,
+    name: 'create settings',
+    up: db => db.exec(collectionTable('settings'))
+  },
+  {
+    version: 10,
+    name: 'create erasure receipts',
+    up: db => db.exec(collectionTable('erasure_receipts'))
+  }
+];
@@ -0,0 +1,92 @@
+const fs = require('fs');
+const path = require('path');
+const migrations = require('./migrations');
+
+// Apply any migrations newer than the database's recorded version
+function migrate(db) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+  const { version: current } = db.prepare('SELECT COALESCE(MAX(version), 0) AS version FROM schema_migrations').get();
+
+  migrations
+    .filter(migration => migration.version > current)
+    .sort((a, b) => a.version - b.version)
+    .forEach(migration => {
+      db.transaction(() => {
+        migration.up(db);
+        db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, new Date().toISOString());
+      })();
+    });
+}
+
+// All collections live in one database file. WAL mode plus a busy timeout lets several
+// processes (e.g. the Express server and a Netlify function) write without corrupting it,
+// and every transaction takes the write lock up front so read-modify-write cycles are atomic.
+function createSqliteStore({ sqlitePath }) {
+  // Only required when this driver is selected, so the JSON driver has no native dependency
+  const Database = require('better-sqlite3');
+
+  fs.mkdirSync(path.dirname(sqlitePath), { recursive: true });
+  const db = new Database(sqlitePath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('busy_timeout = 5000');
+  migrate(db);
+
+  const tables = new Set(
+    db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all().map(row => row.name)
+  );
+  const table = collection => {
+    if (!tables.has(collection) || collection === 'schema_migrations') {
+      throw new Error(`Unknown collection "${collection}"`);
+    }
+    return collection;
+  };
+
+  const tx = {
+    list: collection => db.prepare(`SELECT data FROM ${table(collection)} ORDER BY rowid`).all()
+      .map(row => JSON.parse(row.data)),
+    get: (collection, id) => {
+      const row = db.prepare(`SELECT data FROM ${table(collection)} WHERE id = ?`).get(id);
+      return row ? JSON.parse(row.data) : null;
+    },
+    insert: (collection, doc) => {
+      db.prepare(`INSERT INTO ${table(collection)} (id, data) VALUES (?, ?)`).run(doc.id, JSON.stringify(doc));
+      return doc;
+    },
+    update: (collection, id, changes) => {
+      const existing = tx.get(collection, id);
+      if (!existing) return null;
+      const updated = { ...existing, ...changes, id };
+      db.prepare(`UPDATE ${table(collection)} SET data = ? WHERE id = ?`).run(JSON.stringify(updated), id);
+      return updated;
+    },
+    removeWhere: (collection, predicate) => {
+      const remove = db.prepare(`DELETE FROM ${table(collection)} WHERE id = ?`);
+      return tx.list(collection).filter(predicate).reduce((count, doc) => count + remove.run(doc.id).changes, 0);
+    },
+    remove: (collection, id) => db.prepare(`DELETE FROM ${table(collection)} WHERE id = ?`).run(id).changes > 0
+  };
+
+  return {
+    driver: 'sqlite',
+    // `collections` is only needed by the JSON driver; SQLite locks the whole database
+    transaction(collections, fn) {
+      try {
+        return Promise.resolve(db.transaction(() => fn(tx)).immediate());
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    },
+    async close() {
+      db.close();
+    }
+  };
+}
+
+module.exports = { createSqliteStore };
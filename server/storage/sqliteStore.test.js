@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createSqliteStore } from './sqliteStore';
+import migrations from './migrations';
+
+let dataDir;
+let sqlitePath;
+const stores = [];
+
+const open = () => {
+  const store = createSqliteStore({ sqlitePath });
+  stores.push(store);
+  return store;
+};
+const appliedVersions = () => {
+  const db = new Database(sqlitePath, { readonly: true });
+  try {
+    return db.prepare('SELECT version FROM schema_migrations ORDER BY version').all().map(row => row.version);
+  } finally {
+    db.close();
+  }
+};
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-store-'));
+  sqlitePath = path.join(dataDir, 'attendance.db');
+});
+
+afterEach(async () => {
+  await Promise.all(stores.splice(0).map(store => store.close()));
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('migrations', () => {
+  it('have unique versions in ascending order', () => {
+    const versions = migrations.map(migration => migration.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+  });
+
+  it('bring a new database to the latest version', async () => {
+    const store = open();
+    expect(appliedVersions()).toEqual(migrations.map(migration => migration.version));
+    await expect(store.transaction([], tx => tx.list('erasure_receipts'))).resolves.toEqual([]);
+  });
+
+  it('run once when the database is opened again', () => {
+    open().close();
+    open();
+    expect(appliedVersions()).toEqual(migrations.map(migration => migration.version));
+  });
+
+  it('upgrade an older database and keep its documents', async () => {
+    const db = new Database(sqlitePath);
+    db.exec('CREATE TABLE schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)');
+    migrations.slice(0, 3).forEach(migration => {
+      migration.up(db);
+      db.prepare('INSERT INTO schema_migrations VALUES (?, ?, ?)').run(migration.version, migration.name, new Date().toISOString());
+    });
+    db.prepare('INSERT INTO attendance (id, data) VALUES (?, ?)').run('r1', JSON.stringify({ id: 'r1', userId: 'u1' }));
+    db.close();
+
+    const store = open();
+    expect(appliedVersions()).toEqual(migrations.map(migration => migration.version));
+    await expect(store.transaction([], tx => tx.list('attendance'))).resolves.toEqual([{ id: 'r1', userId: 'u1' }]);
+    await expect(store.transaction([], tx => tx.list('accounts'))).resolves.toEqual([]);
+  });
+});
+
+describe('transactions', () => {
+  it('roll back every change when the transaction throws', async () => {
+    const store = open();
+    await store.transaction([], tx => tx.insert('users', { id: 'u1' }));
+
+    await expect(store.transaction([], tx => {
+      tx.insert('users', { id: 'u2' });
+      tx.update('users', 'u1', { name: 'Changed' });
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    await expect(store.transaction([], tx => tx.list('users'))).resolves.toEqual([{ id: 'u1' }]);
+  });
+
+  it('reject unknown collections and the migrations table', async () => {
+    const store = open();
+    await expect(store.transaction([], tx => tx.list('nope'))).rejects.toThrow('Unknown collection "nope"');
+    await expect(store.transaction([], tx => tx.list('schema_migrations'))).rejects.toThrow('Unknown collection');
+  });
+});
@@ -0,0 +1,229 @@
+// Sightings of faces that matched nobody enrolled, reported by kiosks with the same recognition
+// metadata and evidence as attendance records. Sightings are grouped into clusters, one per
+// presumed person, by the distance of their face descriptors. An admin can later enroll the person
+// behind a cluster, optionally backfilling their attendance from the sightings, or discard it.
+
+const crypto = require('crypto');
+const { validateRecognition, pickRecognition, recordedBy, backfillRecord } = require('./attendance');
+const { validateEvidence, describeEvidence, saveEvidence } = require('./evidence');
+const { isValidDescriptor, normalizeUser, mergeDescriptors, newUser } = require('./users');
+
+// A sighting closer than this to a cluster's mean descriptor is taken to be the same person
+const CLUSTER_DISTANCE = 0.5;
+// Backfilled records are at least this far apart, like kiosk recognitions
+const BACKFILL_GAP_MS = 5 * 60 * 1000;
+// Sightings listed per cluster
+const SIGHTINGS_SHOWN = 12;
+
+// Validate the body of a sighting report, returning an error message or null
+function validateSighting({ timestamp, recognition, evidence, descriptor } = {}) {
+  if (isNaN(Date.parse(timestamp))) return 'Timestamp must be a valid date';
+  if (!isValidDescriptor(descriptor)) return 'A face descriptor is required';
+  return validateRecognition(recognition) || validateEvidence(evidence);
+}
+
+// Sighting as returned by the API and webhooks; face descriptors never leave the server
+const publicSighting = ({ descriptor, ...sighting }) => sighting;
+
+const distance = (a, b) => Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0));
+
+// Add a sighting to the closest cluster, or start a new one; returns the cluster id
+function assignCluster(tx, sighting) {
+  let closest = null;
+  let closestDistance = Infinity;
+  tx.list('unknown_clusters').forEach(cluster => {
+    const d = distance(cluster.centroid, sighting.descriptor);
+    if (d < closestDistance) {
+      closest = cluster;
+      closestDistance = d;
+    }
+  });
+
+  const score = sighting.recognition ? sighting.recognition.detectionScore : 0;
+  if (!closest || closestDistance >= CLUSTER_DISTANCE) {
+    return tx.insert('unknown_clusters', {
+      id: crypto.randomUUID(),
+      centroid: sighting.descriptor,
+      sightingCount: 1,
+      firstSeenAt: sighting.seenAt,
+      lastSeenAt: sighting.seenAt,
+      coverId: sighting.id,
+      coverScore: score
+    }).id;
+  }
+
+  // Running mean, so the centroid follows the cluster as it grows
+  const count = closest.sightingCount + 1;
+  tx.update('unknown_clusters', closest.id, {
+    centroid: closest.centroid.map((value, i) => value + (sighting.descriptor[i] - value) / count),
+    sightingCount: count,
+    firstSeenAt: sighting.seenAt < closest.firstSeenAt ? sighting.seenAt : closest.firstSeenAt,
+    lastSeenAt: sighting.seenAt > closest.lastSeenAt ? sighting.seenAt : closest.lastSeenAt,
+    // The clearest face is shown for the cluster
+    ...(score > closest.coverScore ? { coverId: sighting.id, coverScore: score } : {})
+  });
+  return closest.id;
+}
+
+// Store a sighting; returns { sighting, duplicate }. Kiosks send their own id, so a retried
+// report from the outbox gets the original back.
+async function recordSighting(storage, { id, timestamp, recognition, evidence, descriptor }, principal) {
+  const sightingId = id ? String(id) : `unknown-${crypto.randomUUID()}`;
+
+  const result = await storage.transaction(['unknown_faces', 'unknown_clusters'], tx => {
+    const existing = tx.get('unknown_faces', sightingId);
+    if (existing) return { sighting: publicSighting(existing), duplicate: true };
+
+    const sighting = {
+      id: sightingId,
+      seenAt: new Date(timestamp).toISOString(),
+      recognition: pickRecognition(recognition),
+      recordedBy: recordedBy(principal),
+      evidence: describeEvidence(evidence),
+      descriptor
+    };
+    sighting.clusterId = assignCluster(tx, sighting);
+    return { sighting: publicSighting(tx.insert('unknown_faces', sighting)), duplicate: false };
+  });
+  // A retried report keeps the images it was first stored with
+  if (!result.duplicate) await saveEvidence('unknown_faces', sightingId, evidence);
+  return result;
+}
+
+const sightingsOf = (tx, clusterId) => tx.list('unknown_faces').filter(sighting => sighting.clusterId === clusterId);
+
+// Clusters waiting for an admin, most recently seen first, with their latest sightings
+function listClusters(tx) {
+  const sightings = tx.list('unknown_faces').sort((a, b) => b.seenAt.localeCompare(a.seenAt));
+  return tx.list('unknown_clusters')
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+    .map(({ centroid, coverScore, ...cluster }) => {
+      const members = sightings.filter(sighting => sighting.clusterId === cluster.id);
+      return {
+        ...cluster,
+        locations: [...new Set(members.map(sighting => sighting.recognition && sighting.recognition.location).filter(Boolean))],
+        sightings: members.slice(0, SIGHTINGS_SHOWN).map(sighting => ({
+          id: sighting.id,
+          seenAt: sighting.seenAt,
+          location: sighting.recognition ? sighting.recognition.location : null,
+          thumbnail: Boolean(sighting.evidence && sighting.evidence.thumbnail)
+        }))
+      };
+    });
+}
+
+// Validate an enroll request, returning an error message or null
+function validateClusterEnrollment({ name, userId, backfill } = {}) {
+  if (!userId && !(typeof name === 'string' && name.trim())) return 'A name, or the person to add the samples to, is required';
+  if (backfill !== undefined && typeof backfill !== 'boolean') return 'Backfill must be true or false';
+  return null;
+}
+
+// Sightings that become attendance records: one per BACKFILL_GAP_MS, skipping times the person
+// already has a record
+function sightingsToBackfill(sightings, existingRecords) {
+  const taken = existingRecords.filter(record => !record.voidedAt).map(record => Date.parse(record.timestamp));
+  const chosen = [];
+  [...sightings].sort((a, b) => a.seenAt.localeCompare(b.seenAt)).forEach(sighting => {
+    const at = Date.parse(sighting.seenAt);
+    if (taken.some(time => Math.abs(time - at) < BACKFILL_GAP_MS)) return;
+    chosen.push(sighting);
+    taken.push(at);
+  });
+  return chosen;
+}
+
+// Enroll the person behind a cluster, as someone new or as more samples of an enrolled person.
+// The cluster and its sightings are removed; returns { status, body } with the person, the
+// backfilled records and the ids of sightings whose evidence is no longer needed.
+function enrollCluster(tx, clusterId, { name, externalId, group, userId, backfill }, principal) {
+  const cluster = tx.get('unknown_clusters', clusterId);
+  if (!cluster) return { status: 404, body: { message: 'Cluster not found' } };
+
+  const sightings = sightingsOf(tx, clusterId);
+  // Clearest faces last, so they are the ones kept under the per-person sample limit
+  const descriptors = [...sightings]
+    .sort((a, b) => (a.recognition ? a.recognition.detectionScore : 0) - (b.recognition ? b.recognition.detectionScore : 0))
+    .map(sighting => sighting.descriptor);
+
+  let user;
+  let created = false;
+  if (userId) {
+    const existing = tx.get('users', userId);
+    if (!existing) return { status: 404, body: { message: 'User not found' } };
+    user = normalizeUser(tx.update('users', userId, {
+      descriptors: mergeDescriptors(normalizeUser(existing).descriptors, descriptors)
+    }));
+  } else {
+    user = tx.insert('users', newUser({ name, descriptors, externalId, group }));
+    created = true;
+  }
+
+  // The distance a sighting was reported with was to somebody else. Each sighting is now one of the
+  // person's own samples, so the records get the distance to the cluster's mean face instead.
+  const asMatch = sighting => sighting.recognition ? {
+    ...sighting,
+    recognition: { ...sighting.recognition, distance: distance(cluster.centroid, sighting.descriptor) }
+  } : sighting;
+  const records = backfill
+    ? sightingsToBackfill(sightings, tx.list('attendance').filter(record => record.userId === user.id))
+      .map(sighting => backfillRecord(tx, user, asMatch(sighting), principal))
+    : [];
+
+  tx.removeWhere('unknown_faces', sighting => sighting.clusterId === clusterId);
+  tx.remove('unknown_clusters', clusterId);
+  const kept = new Set(records.map(record => record.id));
+  return {
+    status: created ? 201 : 200,
+    body: { user, created, records },
+    discardedSightingIds: sightings.map(sighting => sighting.id).filter(id => !kept.has(id))
+  };
+}
+
+// Remove sightings seen before `cutoff` (an ISO date) and rebuild the clusters they were in from the
+// sightings that are left; clusters left empty are removed. Returns the removed sighting ids.
+function pruneSightings(tx, cutoff) {
+  const expired = tx.list('unknown_faces').filter(sighting => sighting.seenAt < cutoff);
+  if (expired.length === 0) return [];
+  tx.removeWhere('unknown_faces', sighting => sighting.seenAt < cutoff);
+
+  new Set(expired.map(sighting => sighting.clusterId)).forEach(clusterId => {
+    const members = sightingsOf(tx, clusterId);
+    if (members.length === 0) {
+      tx.remove('unknown_clusters', clusterId);
+      return;
+    }
+    const score = sighting => sighting.recognition ? sighting.recognition.detectionScore : 0;
+    const cover = members.reduce((best, sighting) => score(sighting) > score(best) ? sighting : best);
+    const seenAt = members.map(sighting => sighting.seenAt).sort();
+    tx.update('unknown_clusters', clusterId, {
+      centroid: members[0].descriptor.map((_, i) => members.reduce((sum, sighting) => sum + sighting.descriptor[i], 0) / members.length),
+      sightingCount: members.length,
+      firstSeenAt: seenAt[0],
+      lastSeenAt: seenAt[seenAt.length - 1],
+      coverId: cover.id,
+      coverScore: score(cover)
+    });
+  });
+  return expired.map(sighting => sighting.id);
+}
+
+// Drop a cluster and its sightings; returns the removed sighting ids, or null if there is no such cluster
+function discardCluster(tx, clusterId) {
+  if (!tx.get('unknown_clusters', clusterId)) return null;
+  const ids = sightingsOf(tx, clusterId).map(sighting => sighting.id);
+  tx.removeWhere('unknown_faces', sighting => sighting.clusterId === clusterId);
+  tx.remove('unknown_clusters', clusterId);
+  return ids;
+}
+
+module.exports = {
+  validateSighting,
+  publicSighting,
+  recordSighting,
+  listClusters,
+  validateClusterEnrollment,
+  enrollCluster,
+  discardCluster,
+  pruneSightings
+};
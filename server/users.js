@@ -0,0 +1,79 @@
+// Registered people and their face descriptor sets
+
+const crypto = require('crypto');
+
+// Keep at most this many samples per person; the oldest are dropped first
+const MAX_DESCRIPTORS_PER_USER = 20;
+
+// Descriptors arrive as plain number arrays (128 values from face-api.js)
+function isValidDescriptor(descriptor) {
+  return Array.isArray(descriptor) && descriptor.length > 0 && descriptor.every(v => typeof v === 'number');
+}
+
+function isValidDescriptorSet(descriptors) {
+  return Array.isArray(descriptors) && descriptors.length > 0 && descriptors.every(isValidDescriptor);
+}
+
+// Users enrolled before multi-sample support stored a single `descriptor`
+function normalizeUser(user) {
+  if (user.descriptors) return user;
+  const { descriptor, ...rest } = user;
+  return { ...rest, descriptors: descriptor ? [descriptor] : [] };
+}
+
+// Append new samples, dropping the oldest beyond the per-person limit
+function mergeDescriptors(existing, added) {
+  return [...existing, ...added].slice(-MAX_DESCRIPTORS_PER_USER);
+}
+
+function newUser({ name, descriptors, externalId, group }) {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    externalId: externalId || null,
+    group: group || null,
+    descriptors: mergeDescriptors([], descriptors),
+    createdAt: new Date().toISOString()
+  };
+}
+
+// Validate one entry of a bulk import, returning an error message or null
+function validateImportEntry(entry) {
+  if (!entry || typeof entry.name !== 'string' || !entry.name.trim()) return 'Name is required';
+  if (!isValidDescriptorSet(entry.descriptors)) return 'At least one face descriptor is required';
+  return null;
+}
+
+// Create or update people from a roster import inside a storage transaction. Entries whose
+// roster id (`externalId`) is already enrolled get their samples appended instead of a duplicate.
+function importUsers(tx, entries) {
+  const created = [];
+  const updated = [];
+
+  entries.forEach(entry => {
+    const existing = entry.externalId
+      && tx.list('users').find(user => user.externalId === entry.externalId);
+
+    if (existing) {
+      updated.push(normalizeUser(tx.update('users', existing.id, {
+        name: entry.name.trim(),
+        group: entry.group || existing.group || null,
+        descriptors: mergeDescriptors(normalizeUser(existing).descriptors, entry.descriptors)
+      })));
+    } else {
+      created.push(tx.insert('users', newUser(entry)));
+    }
+  });
+
+  return { created, updated };
+}
+
+module.exports = {
+  isValidDescriptor,
+  isValidDescriptorSet,
+  normalizeUser,
+  mergeDescriptors,
+  newUser,
+  validateImportEntry,
+  importUsers
+};
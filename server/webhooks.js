@@ -0,0 +1,225 @@
+// Outgoing webhooks: admins register endpoints for some events, and every matching event is queued
+// as a delivery in `webhook_deliveries`. Deliveries are POSTed as signed JSON and retried with
+// backoff until the endpoint answers 2xx or the attempts run out; the queue doubles as the log.
+//
+// Each request carries
+//   X-Webhook-Event: <event type>
+//   X-Webhook-Delivery: <delivery id>
+//   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>" with the secret>
+
+const crypto = require('crypto');
+
+const WEBHOOK_EVENTS = ['attendance.created', 'person.enrolled', 'unknown.face.seen'];
+
+const MINUTE_MS = 60 * 1000;
+// Wait before each retry; a delivery is given up after the first attempt plus these
+const RETRY_DELAYS_MS = [1, 5, 30, 120, 720].map(minutes => minutes * MINUTE_MS);
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// A claimed delivery is not picked up again for this long, so overlapping runs do not send it twice
+const CLAIM_MS = MINUTE_MS;
+const BATCH_SIZE = 20;
+const LOG_RETENTION_MS = 30 * 24 * 60 * MINUTE_MS;
+const MAX_LOGGED_RESPONSE = 500;
+
+// Validate a create or update request, returning an error message or null
+function validateWebhook({ url, events, description, active }, { partial = false } = {}) {
+  if (!partial || url !== undefined) {
+    let parsed = null;
+    try {
+      parsed = new URL(url);
+    } catch {
+      // Reported below
+    }
+    if (!parsed || !['http:', 'https:'].includes(parsed.protocol)) return 'URL must be an http or https address';
+  }
+  if (!partial || events !== undefined) {
+    if (!Array.isArray(events) || events.length === 0) return 'Pick at least one event';
+    const unknown = events.find(event => !WEBHOOK_EVENTS.includes(event));
+    if (unknown) return `Unknown event ${unknown}; events are ${WEBHOOK_EVENTS.join(', ')}`;
+  }
+  if (description !== undefined && description !== null && typeof description !== 'string') return 'Description must be text';
+  if (active !== undefined && typeof active !== 'boolean') return 'Active must be true or false';
+  return null;
+}
+
+// Webhook as returned by the API; the signing secret is only shown when it is created
+const publicWebhook = ({ secret, ...webhook }) => ({ ...webhook, secretHint: secret.slice(-4) });
+
+function createWebhook(tx, { url, events, description }, createdBy) {
+  const webhook = tx.insert('webhooks', {
+    id: crypto.randomUUID(),
+    url,
+    events: [...new Set(events)],
+    description: description ? description.trim() : '',
+    active: true,
+    secret: `whsec_${crypto.randomBytes(24).toString('base64url')}`,
+    createdAt: new Date().toISOString(),
+    createdBy
+  });
+  return { ...publicWebhook(webhook), secret: webhook.secret };
+}
+
+function updateWebhook(tx, id, { url, events, description, active }) {
+  const changes = {};
+  if (url !== undefined) changes.url = url;
+  if (events !== undefined) changes.events = [...new Set(events)];
+  if (description !== undefined) changes.description = description ? description.trim() : '';
+  if (active !== undefined) changes.active = active;
+  const webhook = tx.update('webhooks', id, changes);
+  return webhook && publicWebhook(webhook);
+}
+
+function removeWebhook(tx, id) {
+  tx.removeWhere('webhook_deliveries', delivery => delivery.webhookId === id);
+  return tx.remove('webhooks', id);
+}
+
+const signature = (secret, timestamp, body) =>
+  `t=${timestamp},v1=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+function newDelivery(webhookId, payload, now) {
+  return {
+    id: crypto.randomUUID(),
+    webhookId,
+    event: payload.type,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    createdAt: now.toISOString(),
+    nextAttemptAt: now.toISOString(),
+    lastAttemptAt: null,
+    responseStatus: null,
+    responseBody: null,
+    error: null
+  };
+}
+
+// Queue one delivery per active webhook subscribed to the event; returns how many were queued.
+// `webhookIds` limits the event to particular webhooks, for test pings.
+function enqueueEvent(tx, type, data, { webhookIds = null, now = new Date() } = {}) {
+  const payload = { id: crypto.randomUUID(), type, createdAt: now.toISOString(), data };
+  const webhooks = tx.list('webhooks').filter(webhook => webhookIds
+    ? webhookIds.includes(webhook.id)
+    : webhook.active && webhook.events.includes(type));
+  webhooks.forEach(webhook => tx.insert('webhook_deliveries', newDelivery(webhook.id, payload, now)));
+  return webhooks.length;
+}
+
+// Queue a fresh copy of an earlier delivery, e.g. after fixing a receiver that was down
+function redeliver(tx, webhookId, deliveryId) {
+  const delivery = tx.get('webhook_deliveries', deliveryId);
+  if (!delivery || delivery.webhookId !== webhookId) return null;
+  return tx.insert('webhook_deliveries', newDelivery(webhookId, delivery.payload, new Date()));
+}
+
+async function send(webhook, delivery) {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'face-attendance-webhooks',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Signature': signature(webhook.secret, timestamp, body)
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    const text = await response.text().catch(() => '');
+    return {
+      ok: response.ok,
+      responseStatus: response.status,
+      responseBody: text.slice(0, MAX_LOGGED_RESPONSE),
+      error: response.ok ? null : `Endpoint answered ${response.status}`
+    };
+  } catch (error) {
+    return { ok: false, responseStatus: null, responseBody: null, error: error.message };
+  }
+}
+
+// The result of an attempt as changes to the delivery: delivered, scheduled for a retry, or failed
+function attemptResult(delivery, result, now) {
+  const attempts = delivery.attempts + 1;
+  const retryDelay = RETRY_DELAYS_MS[attempts - 1];
+  const status = result.ok ? 'delivered' : retryDelay === undefined ? 'failed' : 'pending';
+  return {
+    status,
+    attempts,
+    lastAttemptAt: now.toISOString(),
+    nextAttemptAt: status === 'pending' ? new Date(now.getTime() + retryDelay).toISOString() : null,
+    responseStatus: result.responseStatus,
+    responseBody: result.responseBody,
+    error: result.error
+  };
+}
+
+// Send every delivery that is due and record the outcome; returns how many were attempted.
+// Express runs this on a timer; Netlify functions run it after queueing events, which also
+// picks up retries that have come due since.
+async function processDeliveries(storage, now = new Date()) {
+  const claimed = await storage.transaction(['webhooks', 'webhook_deliveries'], tx => {
+    const cutoff = now.getTime() - LOG_RETENTION_MS;
+    tx.removeWhere('webhook_deliveries', delivery => delivery.status !== 'pending' && Date.parse(delivery.createdAt) < cutoff);
+
+    const due = tx.list('webhook_deliveries')
+      .filter(delivery => delivery.status === 'pending' && Date.parse(delivery.nextAttemptAt) <= now.getTime())
+      .sort((a, b) => Date.parse(a.nextAttemptAt) - Date.parse(b.nextAttemptAt))
+      .slice(0, BATCH_SIZE);
+
+    return due.map(delivery => {
+      tx.update('webhook_deliveries', delivery.id, { nextAttemptAt: new Date(now.getTime() + CLAIM_MS).toISOString() });
+      return { delivery, webhook: tx.get('webhooks', delivery.webhookId) };
+    });
+  });
+
+  // Sent side by side so one slow endpoint does not hold up the rest
+  await Promise.all(claimed.map(async ({ delivery, webhook }) => {
+    const changes = webhook
+      ? attemptResult(delivery, await send(webhook, delivery), new Date())
+      : { status: 'failed', nextAttemptAt: null, error: 'Webhook no longer exists' };
+    await storage.transaction(['webhook_deliveries'], tx => tx.update('webhook_deliveries', delivery.id, changes));
+  }));
+  return claimed.length;
+}
+
+// Queue one event per item of `dataList` and start sending them; the returned promise settles
+// once this batch has been attempted
+async function emitAll(storage, type, dataList) {
+  const queued = await storage.transaction(['webhooks', 'webhook_deliveries'], tx =>
+    dataList.reduce((count, data) => count + enqueueEvent(tx, type, data), 0)
+  );
+  if (queued > 0) await processDeliveries(storage);
+}
+
+const emit = (storage, type, data) => emitAll(storage, type, [data]);
+
+// Deliveries of one webhook, newest first
+const deliveryLog = (deliveries, webhookId, limit = 50) => deliveries
+  .filter(delivery => delivery.webhookId === webhookId)
+  .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+  .slice(0, limit);
+
+// Event payloads. Face descriptors are biometric data and never leave the server.
+const personEnrolled = user => ({
+  person: { id: user.id, name: user.name, externalId: user.externalId ?? null, group: user.group ?? null }
+});
+
+module.exports = {
+  WEBHOOK_EVENTS,
+  validateWebhook,
+  publicWebhook,
+  createWebhook,
+  updateWebhook,
+  removeWebhook,
+  signature,
+  enqueueEvent,
+  redeliver,
+  processDeliveries,
+  emit,
+  emitAll,
+  deliveryLog,
+  personEnrolled
+};
@@ -0,0 +1,258 @@
+// The one client for the server's API. Every read and write goes through `request`, so requests
+// carry the same credentials and fail the same way whichever server answers: the Express server
+// (server/index.js) and the Netlify function (netlify/functions/api.cjs) serve the same routes.
+//
+// The API lives at /api on the app's own origin unless configured otherwise: VITE_API_URL at build
+// time, or `window.APP_CONFIG.apiUrl` in public/app-config.js to point a built app elsewhere.
+
+import {
+  Account,
+  ApiToken,
+  AttendanceCorrection,
+  AttendancePage,
+  AttendanceQuery,
+  AttendanceRecord,
+  AuditEntry,
+  CalibrationResult,
+  ErasureReceipt,
+  Principal,
+  PrivacyPolicy,
+  PurgeResult,
+  RecognitionSettings,
+  RegisteredUser,
+  RollEntry,
+  Session,
+  SettingsOverview,
+  ShiftDay,
+  UnknownCluster,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+} from '../types';
+import { toAttendanceRecord } from '../utils/attendance';
+import { toRegisteredUser } from '../utils/users';
+
+export const API_URL = (window.APP_CONFIG?.apiUrl || __API_URL__).replace(/\/$/, '');
+
+const KIOSK_TOKEN_KEY = 'kiosk-api-token';
+const PAGE_SIZE = 50;
+
+type Query = Record<string, string | number | null | undefined>;
+
+// A request the server answered with an error; `message` is the server's explanation
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// An API path with its query string; empty values are left out
+const withQuery = (path: string, query: Query = {}) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== null && value !== undefined && value !== '') params.set(key, String(value));
+  });
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+};
+
+// Full URL of an API path, for links and images as well as requests
+export const apiUrl = (path: string, query?: Query) => `${API_URL}${withQuery(path, query)}`;
+
+const segment = encodeURIComponent;
+
+// People sign in with a password and the server keeps their login session in an HttpOnly cookie.
+// A kiosk device instead stores an API token locally and sends it with every request.
+export const getKioskToken = () => localStorage.getItem(KIOSK_TOKEN_KEY);
+
+export const setKioskToken = (token: string | null) => {
+  if (token) localStorage.setItem(KIOSK_TOKEN_KEY, token);
+  else localStorage.removeItem(KIOSK_TOKEN_KEY);
+};
+
+type UnauthorizedListener = () => void;
+const unauthorizedListeners = new Set<UnauthorizedListener>();
+
+export const onUnauthorized = (listener: UnauthorizedListener) => {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+};
+
+// fetch() of an API path with the caller's credentials attached. A 401 means the login session
+// expired or the kiosk token was revoked, so listeners can send the user back to the sign-in screen.
+export const apiFetch = async (path: string, init: RequestInit = {}) => {
+  const headers = new Headers(init.headers);
+  const token = getKioskToken();
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+
+  const response = await fetch(apiUrl(path), { ...init, headers, credentials: 'include' });
+  if (response.status === 401) unauthorizedListeners.forEach(listener => listener());
+  return response;
+};
+
+interface RequestOptions {
+  query?: Query;
+  body?: unknown;
+  headers?: Record<string, string>;
+  failure?: string; // Message when the server does not give one
+}
+
+// Send a request and return the JSON response, or undefined for an empty one. Throws ApiError
+// when the server answers with an error.
+export const request = async <T>(method: string, path: string, { query, body, headers, failure = 'Request failed' }: RequestOptions = {}): Promise<T> => {
+  const response = await apiFetch(withQuery(path, query), {
+    method,
+    headers: body === undefined ? headers : { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = response.status === 204 ? undefined : await response.json().catch(() => undefined);
+  if (!response.ok) throw new ApiError(data?.message || failure, response.status);
+  return data as T;
+};
+
+const descriptorLists = (descriptors: Float32Array[]) => descriptors.map(descriptor => Array.from(descriptor));
+
+interface ImportEntry {
+  externalId: string;
+  name: string;
+  group: string | null;
+  descriptors: number[][];
+}
+
+interface ClusterEnrollment {
+  name?: string;
+  userId?: string;
+  backfill: boolean;
+}
+
+export const api = {
+  auth: {
+    // The current person or kiosk, or null when not signed in
+    me: () => request<Principal>('GET', '/auth/me', { failure: 'Failed to check sign-in' })
+      .catch(error => {
+        if (error instanceof ApiError && error.status === 401) return null;
+        throw error;
+      }),
+    login: (username: string, password: string) =>
+      request<Principal>('POST', '/auth/login', { body: { username, password }, failure: 'Sign-in failed' }),
+    logout: () => request<void>('POST', '/auth/logout'),
+  },
+
+  attendance: {
+    // One page of records matching the query, starting after `cursor`
+    page: async (query: AttendanceQuery, cursor: string | null): Promise<AttendancePage> => {
+      const filters = Object.fromEntries((['from', 'to', 'q', 'userId', 'sessionId', 'deviceId'] as const).map(key => [key, query[key]?.trim()]));
+      const data = await request<{ records: any[]; nextCursor: string | null }>('GET', '/attendance', {
+        query: { sort: query.sort, limit: PAGE_SIZE, ...filters, cursor },
+        failure: 'Failed to fetch attendance records',
+      });
+      return { records: data.records.map(toAttendanceRecord), nextCursor: data.nextCursor };
+    },
+    // Mark someone present whom the camera missed
+    markPresent: async (correction: AttendanceCorrection) =>
+      toAttendanceRecord(await request('POST', '/attendance/manual', { body: correction, failure: 'Failed to add record' })),
+    correct: async (id: string, correction: AttendanceCorrection) =>
+      toAttendanceRecord(await request('PATCH', `/attendance/${segment(id)}`, { body: correction, failure: 'Failed to save correction' })),
+    // Records are never deleted, only voided with a reason
+    void: async (id: string, reason: string) =>
+      toAttendanceRecord(await request('DELETE', `/attendance/${segment(id)}`, { body: { reason }, failure: 'Failed to void record' })),
+    history: (id: string) => request<AuditEntry[]>('GET', `/attendance/${segment(id)}/history`, { failure: 'Failed to load history' }),
+    evidenceUrl: (record: AttendanceRecord, kind: 'thumbnail' | 'frame') =>
+      apiUrl(`/attendance/${segment(record.id)}/evidence/${kind}`),
+  },
+
+  unknownFaces: {
+    clusters: () => request<UnknownCluster[]>('GET', '/unknown-faces/clusters', { failure: 'Failed to fetch unknown faces' }),
+    enroll: async (clusterId: string, enrollment: ClusterEnrollment) => {
+      const result = await request<{ user: any; created: boolean; records: any[] }>(
+        'POST', `/unknown-faces/clusters/${segment(clusterId)}/enroll`, { body: enrollment }
+      );
+      return { created: result.created, user: toRegisteredUser(result.user), records: result.records.map(toAttendanceRecord) };
+    },
+    discard: (clusterId: string) => request<void>('DELETE', `/unknown-faces/clusters/${segment(clusterId)}`),
+    thumbnailUrl: (sightingId: string) => apiUrl(`/unknown-faces/${segment(sightingId)}/evidence/thumbnail`),
+  },
+
+  shifts: () => request<ShiftDay[]>('GET', '/shifts', { failure: 'Failed to fetch shifts' }),
+
+  // Reports download as files, so they are linked to rather than fetched
+  reportUrl: (name: string, query: { format: string; from?: string; to?: string }) => apiUrl(`/reports/${segment(name)}`, query),
+
+  users: {
+    list: async () => (await request<any[]>('GET', '/users', { failure: 'Failed to fetch registered users' })).map(toRegisteredUser),
+    create: async (name: string, descriptors: Float32Array[]): Promise<RegisteredUser> =>
+      toRegisteredUser(await request('POST', '/users', { body: { name, descriptors: descriptorLists(descriptors) }, failure: 'Failed to save registered user' })),
+    // Add more enrollment samples to an existing person
+    addSamples: async (id: string, descriptors: Float32Array[]): Promise<RegisteredUser> =>
+      toRegisteredUser(await request('POST', `/users/${segment(id)}/descriptors`, { body: { descriptors: descriptorLists(descriptors) }, failure: 'Failed to save enrollment samples' })),
+    rename: async (id: string, name: string): Promise<RegisteredUser> =>
+      toRegisteredUser(await request('PATCH', `/users/${segment(id)}`, { body: { name }, failure: 'Failed to rename user' })),
+    remove: (id: string) => request<void>('DELETE', `/users/${segment(id)}`, { failure: 'Failed to delete user' }),
+    import: async (users: ImportEntry[]) => {
+      const result = await request<{ created: any[]; updated: any[] }>('POST', '/users/import', { body: { users }, failure: 'Failed to import roster' });
+      return { created: result.created.map(toRegisteredUser), updated: result.updated.map(toRegisteredUser) };
+    },
+  },
+
+  sessions: {
+    list: () => request<Session[]>('GET', '/sessions', { failure: 'Failed to fetch sessions' }),
+    create: (session: Pick<Session, 'name' | 'startTime' | 'endTime' | 'gracePeriodMinutes' | 'expectedUserIds'>) =>
+      request<Session>('POST', '/sessions', { body: session, failure: 'Failed to create session' }),
+    close: (id: string) => request<Session>('POST', `/sessions/${segment(id)}/close`, { failure: 'Failed to close session' }),
+    roll: (id: string) => request<RollEntry[]>('GET', `/sessions/${segment(id)}/roll`, { failure: 'Failed to fetch session roll' }),
+  },
+
+  accounts: {
+    list: () => request<Account[]>('GET', '/accounts', { failure: 'Failed to fetch accounts' }),
+    create: (account: { username: string; password: string; role: Account['role'] }) =>
+      request<Account>('POST', '/accounts', { body: account }),
+    update: (id: string, changes: { password?: string; role?: Account['role'] }) =>
+      request<Account>('PATCH', `/accounts/${segment(id)}`, { body: changes }),
+    remove: (id: string) => request<void>('DELETE', `/accounts/${segment(id)}`),
+  },
+
+  // Kiosk API tokens
+  tokens: {
+    list: () => request<ApiToken[]>('GET', '/tokens', { failure: 'Failed to fetch tokens' }),
+    create: (name: string) => request<ApiToken>('POST', '/tokens', { body: { name } }),
+    remove: (id: string) => request<void>('DELETE', `/tokens/${segment(id)}`),
+  },
+
+  webhooks: {
+    list: () => request<Webhook[]>('GET', '/webhooks', { failure: 'Failed to fetch webhooks' }),
+    create: (webhook: { url: string; events: WebhookEvent[]; description: string }) =>
+      request<Webhook>('POST', '/webhooks', { body: webhook }),
+    update: (id: string, changes: Partial<Pick<Webhook, 'url' | 'events' | 'description' | 'active'>>) =>
+      request<Webhook>('PATCH', `/webhooks/${segment(id)}`, { body: changes }),
+    remove: (id: string) => request<void>('DELETE', `/webhooks/${segment(id)}`),
+    deliveries: (id: string) => request<WebhookDelivery[]>('GET', `/webhooks/${segment(id)}/deliveries`),
+    // Sends a `webhook.test` event right away and answers with how the delivery went
+    test: (id: string) => request<WebhookDelivery>('POST', `/webhooks/${segment(id)}/test`),
+    redeliver: (id: string, deliveryId: string) =>
+      request<WebhookDelivery>('POST', `/webhooks/${segment(id)}/deliveries/${segment(deliveryId)}/redeliver`),
+  },
+
+  settings: {
+    // Defaults, deployment overrides and one kiosk's own overrides, merged by the server
+    effective: (deviceId: string) =>
+      request<RecognitionSettings>('GET', '/settings/effective', { query: { deviceId }, failure: 'Failed to fetch settings' }),
+    overview: () => request<SettingsOverview>('GET', '/settings', { failure: 'Failed to fetch settings' }),
+    // A null value clears an override; a deviceId of null saves the settings for all kiosks
+    save: (deviceId: string | null, values: Record<string, number | null>) =>
+      request<unknown>('PUT', deviceId === null ? '/settings/deployment' : `/settings/kiosks/${segment(deviceId)}`, { body: { values } }),
+    calibrate: (targetFar: number) => request<CalibrationResult>('GET', '/settings/calibration', { query: { targetFar } }),
+  },
+
+  privacy: {
+    policy: () => request<PrivacyPolicy>('GET', '/privacy', { failure: 'Failed to fetch the privacy policy' }),
+    // Apply the attendance retention limit now
+    purge: () => request<PurgeResult>('POST', '/privacy/purge'),
+    // Everything held about a person downloads as one JSON file
+    exportUrl: (userId: string) => apiUrl(`/privacy/people/${segment(userId)}/export`),
+    erase: (userId: string) => request<ErasureReceipt>('DELETE', `/privacy/people/${segment(userId)}`, { failure: 'Failed to erase person' }),
+    receipts: () => request<ErasureReceipt[]>('GET', '/privacy/receipts', { failure: 'Failed to fetch erasure receipts' }),
+  },
+};
@@ -0,0 +1,30 @@
+import { Principal } from '../types';
+import { api, setKioskToken } from './api';
+
+// Signing in and out. People sign in with a password; a kiosk device is paired with an API token
+// instead (see getKioskToken in ./api).
+
+// The current person or kiosk, or null when not signed in
+export const fetchPrincipal = (): Promise<Principal | null> => api.auth.me();
+
+export const login = async (username: string, password: string): Promise<Principal> => {
+  const principal = await api.auth.login(username, password);
+  setKioskToken(null);
+  return principal;
+};
+
+// Pair this browser as a kiosk; the token is only kept if the server accepts it
+export const pairKiosk = async (token: string): Promise<Principal> => {
+  setKioskToken(token);
+  const principal = await fetchPrincipal().catch(() => null);
+  if (!principal) {
+    setKioskToken(null);
+    throw new Error('The kiosk token was not accepted');
+  }
+  return principal;
+};
+
+export const logout = async () => {
+  setKioskToken(null);
+  await api.auth.logout();
+};
@@ -0,0 +1,118 @@
+// Runs face detection, landmarks and descriptors off the main thread. Frames arrive as transferred
+// ImageBitmaps and results go back as plain data. face-api.js is loaded from the same place as the
+// page; it is a UMD script, which sets the global `faceapi` when imported into this module worker.
+// Only import modules without runtime imports of their own, so the page stays out of the worker.
+
+import type { DetectedFace, DetectorKind } from '../types';
+import { cachedModelFetch, toDetectedFace } from './faceApiShared';
+
+export type DetectionRequest =
+  | { type: 'init'; scriptUrls: string[]; modelUrls: string[]; modelCache: string; detector: DetectorKind; tinyInputSize: number }
+  | { type: 'detect'; id: number; frame: ImageBitmap; minConfidence: number };
+
+export type DetectionResponse =
+  | { type: 'ready' }
+  | { type: 'init-failed'; message: string }
+  | { type: 'result'; id: number; faces: DetectedFace[] }
+  | { type: 'error'; id: number; message: string };
+
+const reply = (message: DetectionResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+let detectorOptions: (minConfidence: number) => any = () => null;
+
+// Load face-api.js from the first URL that serves it
+const loadScript = async (scriptUrls: string[]) => {
+  let lastError: unknown = null;
+  for (const scriptUrl of scriptUrls) {
+    try {
+      await import(/* @vite-ignore */ scriptUrl);
+      if (typeof faceapi !== 'undefined') return;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError || new Error('face-api.js could not be loaded');
+};
+
+// Load one network from the first source that has it
+const loadNet = async (net: any, modelUrls: string[]) => {
+  let lastError: unknown = null;
+  for (const modelUrl of modelUrls) {
+    try {
+      await net.loadFromUri(modelUrl);
+      return;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+const init = async ({ scriptUrls, modelUrls, modelCache, detector, tinyInputSize }: Extract<DetectionRequest, { type: 'init' }>) => {
+  await loadScript(scriptUrls);
+  // face-api.js only sets itself up in a page or in Node. Frames are handed to it as tensors, so
+  // the image and video classes are never used here.
+  class Unavailable {}
+  faceapi.env.setEnv({
+    Canvas: OffscreenCanvas,
+    CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D,
+    Image: Unavailable,
+    ImageData,
+    Video: Unavailable,
+    createCanvasElement: () => new OffscreenCanvas(1, 1),
+    createImageElement: () => {
+      throw new Error('Images cannot be created in the detection worker');
+    },
+    fetch: (input: RequestInfo, init?: RequestInit) => cachedModelFetch(modelCache, input, init),
+    readFile: () => {
+      throw new Error('Files cannot be read in the detection worker');
+    },
+  });
+  await Promise.all([
+    loadNet(detector === 'tiny_face_detector' ? faceapi.nets.tinyFaceDetector : faceapi.nets.ssdMobilenetv1, modelUrls),
+    loadNet(faceapi.nets.faceLandmark68Net, modelUrls),
+    loadNet(faceapi.nets.faceRecognitionNet, modelUrls),
+  ]);
+  detectorOptions = minConfidence => detector === 'tiny_face_detector'
+    ? new faceapi.TinyFaceDetectorOptions({ inputSize: tinyInputSize, scoreThreshold: minConfidence })
+    : new faceapi.SsdMobilenetv1Options({ minConfidence });
+};
+
+const detect = async (frame: ImageBitmap, minConfidence: number): Promise<DetectedFace[]> => {
+  const canvas = new OffscreenCanvas(frame.width, frame.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not read the frame');
+  ctx.drawImage(frame, 0, 0);
+  frame.close();
+
+  const input = faceapi.tf.browser.fromPixels(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  try {
+    const results = await faceapi
+      .detectAllFaces(input, detectorOptions(minConfidence))
+      .withFaceLandmarks()
+      .withFaceDescriptors();
+    return results.map(toDetectedFace);
+  } finally {
+    input.dispose();
+  }
+};
+
+self.onmessage = async (event: MessageEvent<DetectionRequest>) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    try {
+      await init(message);
+      reply({ type: 'ready' });
+    } catch (error: any) {
+      reply({ type: 'init-failed', message: error.message || String(error) });
+    }
+    return;
+  }
+
+  try {
+    const faces = await detect(message.frame, message.minConfidence);
+    reply({ type: 'result', id: message.id, faces }, faces.map(face => face.descriptor.buffer));
+  } catch (error: any) {
+    reply({ type: 'error', id: message.id, message: error.message || String(error) });
+  }
+};
@@ -0,0 +1,115 @@
+// Face detection for the camera feeds. It runs in a Web Worker so the models do not stall the video
+// or the page. Browsers that cannot run it there (no OffscreenCanvas, or the worker failed to start)
+// fall back to detecting in the page with the models loaded for enrollment.
+
+import { DetectedFace, DetectorKind } from '../types';
+import { FACE_API_SCRIPT_URLS, MODEL_CACHE_NAME, TINY_FACE_DETECTOR_INPUT_SIZE } from '../constants';
+import { MODEL_SOURCES, detectorOptions } from './models';
+import { toDetectedFace } from './faceApiShared';
+import type { DetectionRequest, DetectionResponse } from './detection.worker';
+
+interface PendingDetection {
+  resolve: (faces: DetectedFace[]) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let starting: Promise<void> | null = null;
+let startedFor: DetectorKind | null = null;
+// Gives up on a worker that is still loading its models when another detector is picked
+let cancelStart: (() => void) | null = null;
+let nextId = 0;
+const pending = new Map<number, PendingDetection>();
+
+const send = (request: DetectionRequest, transfer: Transferable[] = []) => worker?.postMessage(request, transfer);
+
+const failPending = (error: Error) => {
+  pending.forEach(detection => detection.reject(error));
+  pending.clear();
+};
+
+const startWorker = (detector: DetectorKind) => new Promise<void>((resolve, reject) => {
+  if (typeof OffscreenCanvas === 'undefined') {
+    reject(new Error('OffscreenCanvas is not supported'));
+    return;
+  }
+  const created = new Worker(new URL('./detection.worker.ts', import.meta.url), { type: 'module' });
+  const fail = (error: Error) => {
+    created.terminate();
+    if (worker === created) worker = null;
+    failPending(error);
+    reject(error);
+  };
+
+  cancelStart = () => fail(new Error('Another detector was picked'));
+
+  created.onmessage = (event: MessageEvent<DetectionResponse>) => {
+    const message = event.data;
+    if (message.type === 'ready') {
+      cancelStart = null;
+      resolve();
+    } else if (message.type === 'init-failed') {
+      fail(new Error(message.message));
+    } else {
+      const detection = pending.get(message.id);
+      pending.delete(message.id);
+      if (message.type === 'result') detection?.resolve(message.faces);
+      else detection?.reject(new Error(message.message));
+    }
+  };
+  created.onerror = event => fail(new Error(event.message || 'The detection worker stopped'));
+
+  worker = created;
+  send({
+    type: 'init',
+    scriptUrls: FACE_API_SCRIPT_URLS,
+    modelUrls: MODEL_SOURCES,
+    modelCache: MODEL_CACHE_NAME,
+    detector,
+    tinyInputSize: TINY_FACE_DETECTOR_INPUT_SIZE,
+  });
+});
+
+// Load the models in the worker; resolves once detection can start, wherever it runs. Picking
+// another detector replaces the worker.
+export const startDetector = (detector: DetectorKind) => {
+  if (!starting || startedFor !== detector) {
+    cancelStart?.();
+    worker?.terminate();
+    worker = null;
+    failPending(new Error('Another detector was picked'));
+    startedFor = detector;
+    starting = startWorker(detector).catch(error => {
+      if (startedFor === detector) console.error('Face detection runs in the page instead of a worker:', error);
+    });
+  }
+  return starting;
+};
+
+export const detectorRunsInWorker = () => worker !== null;
+
+const detectInPage = async (frame: ImageBitmap, minConfidence: number): Promise<DetectedFace[]> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  canvas.getContext('2d')?.drawImage(frame, 0, 0);
+  frame.close();
+
+  const results = await faceapi
+    .detectAllFaces(canvas, detectorOptions(minConfidence))
+    .withFaceLandmarks()
+    .withFaceDescriptors();
+  return results.map(toDetectedFace);
+};
+
+// Find the faces in one frame. The frame is handed over and must not be used afterwards.
+export const detectFaces = async (frame: ImageBitmap, minConfidence: number): Promise<DetectedFace[]> => {
+  await starting;
+  if (!worker) return detectInPage(frame, minConfidence);
+
+  const id = ++nextId;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    send({ type: 'detect', id, frame, minConfidence }, [frame]);
+  });
+};
@@ -0,0 +1,46 @@
+// Identity, camera and detector setup of this kiosk device, kept in localStorage so they survive reloads
+
+import { CameraFeed, DetectorKind } from '../types';
+import { DEFAULT_DETECTOR, DETECTORS } from '../constants';
+
+const DEVICE_ID_KEY = 'kiosk-device-id';
+const CAMERAS_KEY = 'kiosk-cameras';
+const DETECTOR_KEY = 'kiosk-detector';
+
+// Random id generated the first time the app runs in this browser
+export const getDeviceId = () => {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+};
+
+export const newCameraFeed = (deviceId: string | null = null): CameraFeed =>
+  ({ id: crypto.randomUUID(), deviceId, location: '' });
+
+// The cameras picked on this kiosk; a fresh kiosk starts with the default camera
+export const getCameraFeeds = (): CameraFeed[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CAMERAS_KEY) || 'null');
+    if (Array.isArray(stored) && stored.length > 0) return stored;
+  } catch (error) {
+    console.error('Error reading camera settings:', error);
+  }
+  return [newCameraFeed()];
+};
+
+export const setCameraFeeds = (feeds: CameraFeed[]) => {
+  localStorage.setItem(CAMERAS_KEY, JSON.stringify(feeds));
+};
+
+// The face detector picked for this device; slow kiosks run the tiny one
+export const getDetector = (): DetectorKind => {
+  const stored = localStorage.getItem(DETECTOR_KEY);
+  return stored && stored in DETECTORS ? stored as DetectorKind : DEFAULT_DETECTOR;
+};
+
+export const setDetector = (detector: DetectorKind) => {
+  localStorage.setItem(DETECTOR_KEY, detector);
+};
@@ -0,0 +1,30 @@
+// Helpers for face-api.js shared by the page and the detection worker. The worker imports this
+// module too, so it has no runtime imports of its own and pulls nothing of the page into the worker.
+
+import type { DetectedFace } from '../types';
+
+// fetch() for model files: cached copies first, then the network, keeping what it returns. Hosts
+// that answer every unknown path with the app's index page would otherwise pass for a model file.
+export const cachedModelFetch = async (cacheName: string, input: RequestInfo, init?: RequestInit) => {
+  const cache = typeof caches === 'undefined' ? null : await caches.open(cacheName).catch(() => null);
+  const request = new Request(input, init);
+  const cached = await cache?.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (!response.ok) return response;
+  if (response.headers.get('Content-Type')?.includes('text/html')) return new Response(null, { status: 404 });
+  await cache?.put(request, response.clone());
+  return response;
+};
+
+// A face-api.js detection with landmarks and descriptor, as plain data
+export const toDetectedFace = (result: any): DetectedFace => {
+  const { x, y, width, height } = result.detection.box;
+  return {
+    box: { x, y, width, height },
+    score: result.detection.score,
+    landmarks: result.landmarks.positions.map((point: any) => ({ x: point.x, y: point.y })),
+    descriptor: result.descriptor,
+  };
+};
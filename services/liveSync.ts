@@ -0,0 +1,119 @@
+// Live updates from the server's event stream (Server-Sent Events). EventSource cannot send the
+// kiosk's Authorization header, so the stream is read with fetch instead. After a dropped
+// connection it reconnects with the id of the last event seen and the server replays what was missed.
+
+import { LiveEvent, LiveStatus } from '../types';
+import { apiFetch } from './api';
+import { toAttendanceRecord } from '../utils/attendance';
+
+const MAX_RETRY_MS = 30 * 1000;
+
+// Convert the event payload from JSON, or null for event types this client does not know
+const toLiveEvent = (type: string, data: any): LiveEvent | null => {
+  switch (type) {
+    case 'attendance.created':
+    case 'attendance.updated':
+      return { type, record: toAttendanceRecord(data.record) };
+    case 'attendance.deleted':
+    case 'person.created':
+    case 'person.updated':
+      return { type, ids: data.ids };
+    case 'person.deleted':
+    case 'session.deleted':
+      return { type, id: data.id };
+    case 'session.created':
+    case 'session.updated':
+      return { type, session: data.session };
+    case 'settings.updated':
+      return { type, deviceId: data.deviceId };
+    case 'reset':
+      return { type };
+    default:
+      return null;
+  }
+};
+
+// Stream events to `onEvent` until the returned function is called
+export const connectLiveSync = (onEvent: (event: LiveEvent) => void, onStatus: (status: LiveStatus) => void) => {
+  const controller = new AbortController();
+  let lastEventId: string | null = null;
+  // The server suggests a reconnect delay; failures in a row back off from there
+  let retryMs = 3000;
+  let failures = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  // Apply one `field: value` block of the stream
+  const dispatch = (block: string) => {
+    let id: string | null = null;
+    let type = 'message';
+    const data: string[] = [];
+    block.split('\n').forEach(line => {
+      if (!line || line.startsWith(':')) return; // Heartbeat comment
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'id') id = value;
+      else if (field === 'event') type = value;
+      else if (field === 'data') data.push(value);
+      else if (field === 'retry' && /^\d+$/.test(value)) retryMs = Number(value);
+    });
+    if (id !== null) lastEventId = id;
+    if (data.length === 0) return;
+
+    try {
+      const event = toLiveEvent(type, JSON.parse(data.join('\n')));
+      if (event) onEvent(event);
+    } catch (error) {
+      console.error('Error applying live event:', error);
+    }
+  };
+
+  const connect = async () => {
+    onStatus('connecting');
+    try {
+      const response = await apiFetch('/events', {
+        headers: lastEventId ? { 'Last-Event-ID': lastEventId, Accept: 'text/event-stream' } : { Accept: 'text/event-stream' },
+        signal: controller.signal,
+      });
+      // Signed out: the app returns to the sign-in screen and closes this connection
+      if (response.status === 401) return;
+      // This deployment cannot stream events (the Netlify function answers 501); retrying will not help
+      if (response.status === 501) {
+        onStatus('unavailable');
+        return;
+      }
+      if (!response.ok || !response.body) throw new Error(`Event stream answered ${response.status}`);
+      onStatus('live');
+      failures = 0;
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value.replace(/\r\n?/g, '\n');
+        let end = buffer.indexOf('\n\n');
+        while (end !== -1) {
+          dispatch(buffer.slice(0, end));
+          buffer = buffer.slice(end + 2);
+          end = buffer.indexOf('\n\n');
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Live updates disconnected:', error);
+      failures += 1;
+    }
+    if (controller.signal.aborted) return;
+
+    onStatus('offline');
+    retryTimer = setTimeout(connect, Math.min(retryMs * 2 ** failures, MAX_RETRY_MS));
+  };
+
+  connect();
+
+  return () => {
+    controller.abort();
+    clearTimeout(retryTimer);
+  };
+};
@@ -0,0 +1,90 @@
+// face-api.js models in the page, used for enrollment, bulk import, the detector benchmark and as the
+// fallback when the detection worker cannot run. Weights come from the copies bundled with the app
+// when they are there, else from the public repository, and every file is kept in Cache Storage so a
+// kiosk that has loaded them once starts again without a network. The worker loads them the same way.
+
+import { DetectorBenchmark, DetectorKind } from '../types';
+import {
+  DEFAULT_DETECTOR,
+  DETECTOR_BENCHMARK_RUNS,
+  DETECTORS,
+  FACE_API_VERSION,
+  LOCAL_MODEL_URL,
+  MODEL_CACHE_NAME,
+  MODEL_URL,
+  TINY_FACE_DETECTOR_INPUT_SIZE,
+} from '../constants';
+import { cachedModelFetch } from './faceApiShared';
+
+export const MODEL_SOURCES = [LOCAL_MODEL_URL, MODEL_URL];
+
+let activeDetector: DetectorKind = DEFAULT_DETECTOR;
+
+const modelFetch = (input: RequestInfo, init?: RequestInit) => cachedModelFetch(MODEL_CACHE_NAME, input, init);
+
+const detectorNet = (detector: DetectorKind) =>
+  detector === 'tiny_face_detector' ? faceapi.nets.tinyFaceDetector : faceapi.nets.ssdMobilenetv1;
+
+// Load one network from the first source that has it
+const loadNet = async (net: any) => {
+  if (net.isLoaded) return;
+  let lastError: unknown = null;
+  for (const source of MODEL_SOURCES) {
+    try {
+      await net.loadFromUri(source);
+      return;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+// Load the detector picked for this device, plus the landmark and recognition models
+export const loadModels = async (detector: DetectorKind) => {
+  faceapi.env.monkeyPatch({ fetch: modelFetch });
+  await Promise.all([loadNet(detectorNet(detector)), loadNet(faceapi.nets.faceLandmark68Net), loadNet(faceapi.nets.faceRecognitionNet)]);
+  activeDetector = detector;
+};
+
+export const modelsReady = () =>
+  detectorNet(activeDetector).isLoaded && faceapi.nets.faceLandmark68Net.isLoaded && faceapi.nets.faceRecognitionNet.isLoaded;
+
+// face-api.js options for a detection with the loaded detector, or another one
+export const detectorOptions = (minConfidence: number, detector: DetectorKind = activeDetector) =>
+  detector === 'tiny_face_detector'
+    ? new faceapi.TinyFaceDetectorOptions({ inputSize: TINY_FACE_DETECTOR_INPUT_SIZE, scoreThreshold: minConfidence })
+    : new faceapi.SsdMobilenetv1Options({ minConfidence });
+
+// Recorded with each attendance record, so matches can be traced to the models that made them
+export const recognitionModel = () => `${FACE_API_VERSION} ${activeDetector}+face_landmark_68+face_recognition`;
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+
+// Time the whole per-frame pipeline (detection, landmarks, descriptors) with every detector on one
+// frame. It runs in the page, so the figures include no worker messaging but compare fairly.
+export const benchmarkDetectors = async (frame: HTMLCanvasElement, minConfidence: number): Promise<DetectorBenchmark[]> => {
+  faceapi.env.monkeyPatch({ fetch: modelFetch });
+  const results: DetectorBenchmark[] = [];
+  for (const detector of Object.keys(DETECTORS) as DetectorKind[]) {
+    try {
+      await loadNet(detectorNet(detector));
+    } catch (error: any) {
+      results.push({ detector, medianMs: 0, p95Ms: 0, faces: 0, error: error?.message || 'Model could not be loaded' });
+      continue;
+    }
+
+    const run = () => faceapi.detectAllFaces(frame, detectorOptions(minConfidence, detector)).withFaceLandmarks().withFaceDescriptors();
+    // The first frame compiles the models for the GPU and would skew the figures
+    let faces = (await run()).length;
+    const timings: number[] = [];
+    for (let i = 0; i < DETECTOR_BENCHMARK_RUNS; i++) {
+      const startedAt = performance.now();
+      faces = (await run()).length;
+      timings.push(performance.now() - startedAt);
+    }
+    timings.sort((a, b) => a - b);
+    results.push({ detector, medianMs: Math.round(percentile(timings, 0.5)), p95Ms: Math.round(percentile(timings, 0.95)), faces, error: null });
+  }
+  return results;
+};
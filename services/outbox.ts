@@ -0,0 +1,161 @@
+import { OUTBOX_BASE_BACKOFF_MS, OUTBOX_MAX_BACKOFF_MS } from '../constants';
+import { apiFetch } from './api';
+
+// Persistent queue of writes to the server. Entries survive reloads (IndexedDB), are sent
+// strictly in order, and carry an idempotency key so a retry after a lost response never
+// creates a second record on the server.
+
+const DB_NAME = 'attendance-outbox';
+const DB_VERSION = 1;
+const STORE = 'requests';
+
+export interface OutboxEntry {
+  seq?: number;
+  idempotencyKey: string;
+  path: string; // Below the API's base URL, so queued writes follow the API if it moves
+  body: unknown;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+}
+
+type DeliveryHandler = (entry: OutboxEntry, response: any) => void;
+type PendingListener = (count: number) => void;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let flushing = false;
+let retryTimer: number | null = null;
+let deliveryHandler: DeliveryHandler | null = null;
+const pendingListeners = new Set<PendingListener>();
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE, { keyPath: 'seq', autoIncrement: true });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return request(fn(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+// Entries in the order they were queued (auto-increment keys preserve insertion order)
+const listEntries = () => withStore<OutboxEntry[]>('readonly', store => store.getAll());
+
+const notifyPending = async () => {
+  const count = await withStore<number>('readonly', store => store.count());
+  pendingListeners.forEach(listener => listener(count));
+};
+
+const backoff = (attempts: number) => Math.min(OUTBOX_MAX_BACKOFF_MS, OUTBOX_BASE_BACKOFF_MS * 2 ** attempts);
+
+const scheduleRetry = (at: number) => {
+  if (retryTimer !== null) clearTimeout(retryTimer);
+  retryTimer = window.setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, Math.max(0, at - Date.now()));
+};
+
+// Send queued entries oldest first, stopping at the first one that cannot be delivered yet
+// so later writes never overtake earlier ones.
+export const flushOutbox = async (ignoreBackoff = false) => {
+  if (flushing) return;
+  flushing = true;
+
+  try {
+    for (const entry of await listEntries()) {
+      if (!ignoreBackoff && entry.nextAttemptAt > Date.now()) {
+        scheduleRetry(entry.nextAttemptAt);
+        return;
+      }
+
+      let response: Response | null = null;
+      try {
+        response = await apiFetch(entry.path, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Idempotency-Key': entry.idempotencyKey,
+          },
+          body: JSON.stringify(entry.body),
+        });
+      } catch (error) {
+        console.error('Outbox delivery failed, will retry:', error);
+      }
+
+      // Network errors, server errors, timeouts and rate limits are worth retrying, and so is a
+      // missing sign-in: the entry waits until the kiosk is signed in again
+      if (!response || response.status >= 500 || [401, 408, 429].includes(response.status)) {
+        const nextAttemptAt = Date.now() + backoff(entry.attempts);
+        await withStore('readwrite', store => store.put({ ...entry, attempts: entry.attempts + 1, nextAttemptAt }));
+        scheduleRetry(nextAttemptAt);
+        return;
+      }
+
+      // Anything else is final: delivered, or rejected in a way a retry will not fix
+      await withStore('readwrite', store => store.delete(entry.seq!));
+      if (response.ok) {
+        deliveryHandler?.(entry, await response.json().catch(() => null));
+      } else {
+        console.error(`Outbox entry ${entry.idempotencyKey} rejected by server with status ${response.status}; dropping it.`);
+      }
+      await notifyPending();
+    }
+  } catch (error) {
+    console.error('Error flushing outbox:', error);
+  } finally {
+    flushing = false;
+  }
+};
+
+// Queue a POST for delivery and try to send it right away
+export const enqueue = async (path: string, body: unknown, idempotencyKey: string = crypto.randomUUID()) => {
+  const entry: OutboxEntry = {
+    idempotencyKey,
+    path,
+    body,
+    attempts: 0,
+    nextAttemptAt: 0,
+    createdAt: Date.now(),
+  };
+  await withStore('readwrite', store => store.add(entry));
+  await notifyPending();
+  flushOutbox();
+};
+
+// Start delivering queued entries (including ones left over from a previous page load).
+// Returns a function that stops listening.
+export const startOutbox = (onDelivered: DeliveryHandler) => {
+  deliveryHandler = onDelivered;
+  const handleOnline = () => flushOutbox(true);
+  window.addEventListener('online', handleOnline);
+  notifyPending();
+  flushOutbox();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    if (deliveryHandler === onDelivered) deliveryHandler = null;
+  };
+};
+
+export const subscribePending = (listener: PendingListener) => {
+  pendingListeners.add(listener);
+  notifyPending();
+  return () => {
+    pendingListeners.delete(listener);
+  };
+};
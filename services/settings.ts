@@ -0,0 +1,25 @@
+// Recognition settings of this kiosk. The last ones fetched are kept in localStorage, so a kiosk
+// that starts while the server is unreachable still runs with what an admin configured.
+
+import { RecognitionSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { api } from './api';
+import { getDeviceId } from './device';
+
+const SETTINGS_KEY = 'kiosk-settings';
+
+export const getCachedSettings = (): RecognitionSettings => {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch (error) {
+    console.error('Error reading cached settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Defaults, deployment overrides and this kiosk's own overrides, merged by the server
+export const fetchSettings = async (): Promise<RecognitionSettings> => {
+  const settings: RecognitionSettings = { ...DEFAULT_SETTINGS, ...await api.settings.effective(getDeviceId()) };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  return settings;
+};
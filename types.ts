@@ -3,21 +3,409 @@
 // This is necessary because face-api.js is loaded via a script tag
 declare global {
   const faceapi: any; 
+  const __APP_VERSION__: string;
+  const __API_URL__: string; // VITE_API_URL at build time, else /api
+
+  interface Window {
+    // Set by public/app-config.js to configure a built app without rebuilding it
+    APP_CONFIG?: { apiUrl?: string };
+  }
+}
+
+export type LivenessMethod = 'blink' | 'head-movement';
+
+export interface LivenessResult {
+  passed: boolean;
+  method: LivenessMethod;
+  verifiedAt: string;
 }
 
+export type AttendanceEventType = 'check-in' | 'check-out';
+
+// `attendance` logs plain presence; the others log shift events, `auto` alternating per person
+export type KioskMode = 'attendance' | 'auto' | AttendanceEventType;
+
 export interface AttendanceRecord {
   id: string;
   name: string;
+  userId?: string | null;
+  sessionId?: string | null;
+  type?: AttendanceEventType | null;
   timestamp: Date;
+  liveness?: LivenessResult;
+  evidence?: EvidenceInfo | null;
+  thumbnailUrl?: string; // Local data URL of the captured thumbnail, until the record is loaded from the server
+  recognition?: RecognitionMetadata | null;
+  recordedBy?: RecordedBy | null;
+  source?: 'manual' | 'backfill' | null; // Entered by an admin, or logged when an unknown face was enrolled, rather than recognized by a kiosk
+  voidedAt?: string | null;
+  voidedBy?: RecordedBy | null;
+  voidReason?: string | null;
 }
 
-export interface RegisteredUser {
+// Fields an admin may correct on a record, or set when marking someone present by hand
+export interface AttendanceCorrection {
+  userId?: string | null;
+  name?: string;
+  type?: AttendanceEventType | null;
+  sessionId?: string | null;
+  timestamp?: string;
+  reason: string;
+}
+
+// Filters for listing the log; dates are YYYY-MM-DD and inclusive
+export interface AttendanceQuery {
+  from?: string;
+  to?: string;
+  q?: string; // Name search
+  userId?: string;
+  sessionId?: string;
+  deviceId?: string;
+  sort: 'newest' | 'oldest';
+}
+
+// One page of the log; pass nextCursor back to get the following page
+export interface AttendancePage {
+  records: AttendanceRecord[];
+  nextCursor: string | null;
+}
+
+// One entry of a record's append-only audit history
+export interface AuditEntry {
+  id: string;
+  recordId: string;
+  action: 'create' | 'edit' | 'void';
+  actor: RecordedBy | null;
+  at: string;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  reason: string | null;
+}
+
+// What the recognizer measured for a matched face
+export interface FaceMatch {
+  distance: number; // Euclidean distance to the closest enrolled sample, averaged over the frames that confirmed the match; lower is more similar
+  detectionScore: number; // Face detector confidence
+  camera: string | null; // Camera label reported by the browser
+  location: string | null; // Label of the camera feed, e.g. "Main entrance"
+}
+
+// Everything needed to audit a recognition later: the match itself, the threshold it was judged
+// against, and which device and software produced it
+export interface RecognitionMetadata extends FaceMatch {
+  threshold: number;
+  deviceId: string;
+  appVersion: string;
+  model: string;
+}
+
+// The signed-in account or kiosk token that posted a record, stamped by the server
+export interface RecordedBy {
+  kind: Principal['kind'];
+  id: string;
+  name: string;
+}
+
+// Evidence images captured at recognition time, as JPEG data URLs
+export interface EvidenceSnapshot {
+  thumbnail: string;
+  frame: string | null;
+}
+
+// Which evidence images the server keeps for a record
+export interface EvidenceInfo {
+  thumbnail: boolean;
+  frame: boolean;
+  capturedAt: string;
+}
+
+export type RollStatus = 'present' | 'late' | 'absent' | 'pending';
+
+export interface RollEntry {
+  userId: string;
+  name: string;
+  status: RollStatus;
+  recordId: string | null;
+  checkedInAt: string | null;
+}
+
+export interface Session {
+  id: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  gracePeriodMinutes: number;
+  expectedUserIds: string[];
+  closedAt: string | null;
+  roll: RollEntry[] | null;
+}
+
+export type Role = 'admin' | 'viewer' | 'kiosk';
+
+export type Permission =
+  | 'attendance:read'
+  | 'attendance:write'
+  | 'attendance:edit'
+  | 'users:read'
+  | 'users:write'
+  | 'sessions:read'
+  | 'sessions:write'
+  | 'reports:read'
+  | 'evidence:read'
+  | 'access:manage'
+  | 'webhooks:manage'
+  | 'settings:read'
+  | 'settings:manage'
+  | 'privacy:manage';
+
+// Who is using the app: a signed-in person (`account`) or a kiosk device (`token`)
+export interface Principal {
+  kind: 'account' | 'token';
+  id: string;
   name: string;
+  role: Role;
+  permissions: Permission[];
+}
+
+export interface Account {
+  id: string;
+  username: string;
+  role: Exclude<Role, 'kiosk'>;
+  createdAt: string;
+}
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  role: 'kiosk';
+  hint: string;
+  createdBy: string;
+  createdAt: string;
+  token?: string; // Only present in the response that creates the token
+}
+
+export type WebhookEvent = 'attendance.created' | 'person.enrolled' | 'unknown.face.seen';
+
+// An endpoint notified of events; payloads are signed with its secret
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  description: string;
+  active: boolean;
+  secretHint: string;
+  createdBy: string;
+  createdAt: string;
+  secret?: string; // Only present in the response that creates the webhook
+}
+
+// One attempt, or series of retries, to send an event to a webhook
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent | 'webhook.test';
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+}
+
+// A detected face that matched nobody enrolled
+export interface UnknownFace {
+  detectionScore: number;
+  distance: number | null; // To the closest enrolled sample, if anyone is enrolled
+  camera: string | null;
+  location: string | null;
+}
+
+// Face detector a kiosk runs; see DETECTORS in constants.ts
+export type DetectorKind = 'ssd_mobilenetv1' | 'tiny_face_detector';
+
+// Per-frame latency of detection, landmarks and descriptors with one detector on this device
+export interface DetectorBenchmark {
+  detector: DetectorKind;
+  medianMs: number;
+  p95Ms: number;
+  faces: number; // Found in the benchmark frame
+  error: string | null; // Set when the detector's model could not be loaded
+}
+
+// A face found by the detector, in pixels of the frame it was found in
+export interface DetectedFace {
+  box: { x: number; y: number; width: number; height: number };
+  score: number;
+  landmarks: { x: number; y: number }[]; // The 68 landmark points
   descriptor: Float32Array;
 }
 
+// One face found in an uploaded photo or video, waiting for the user to confirm who it is. In a video
+// the face is followed across frames, and the clearest frame is kept.
+export interface UploadedFace {
+  id: number;
+  userId: string | null; // Proposed match: the person most frames matched, or null for nobody enrolled
+  distance: number | null; // Mean distance of those frames, or to the closest sample when nobody matched
+  detectionScore: number; // Of the clearest frame
+  descriptor: Float32Array; // From the clearest frame, for matching it by hand
+  offsetMs: number; // When the face first appears in the video; 0 for photos
+  frames: number; // Analyzed frames the face was found in
+  evidence: EvidenceSnapshot;
+}
+
+// A face from an upload that the user confirmed as an enrolled person
+export interface ConfirmedFace {
+  user: RegisteredUser;
+  match: FaceMatch;
+  timestamp: Date;
+  evidence: EvidenceSnapshot;
+}
+
+// Sightings of one presumed person who is not enrolled, grouped by the server
+export interface UnknownCluster {
+  id: string;
+  sightingCount: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  coverId: string; // The sighting with the clearest face
+  locations: string[];
+  sightings: { id: string; seenAt: string; location: string | null; thumbnail: boolean }[]; // Latest first
+}
+
+// One camera a kiosk runs recognition on. `deviceId` is null for the browser's default camera.
+export interface CameraFeed {
+  id: string;
+  deviceId: string | null;
+  location: string;
+}
+
+// Recognition settings a kiosk runs with, tuned by admins at runtime
+export interface RecognitionSettings {
+  minConfidence: number; // Faces detected with a lower score are ignored
+  mobileConfidenceScale: number; // Mobile kiosks detect on half-size frames, so their minimum confidence is scaled by this
+  matchThreshold: number; // A face closer than this to someone's samples is taken to be them
+  attendanceCooldownMinutes: number; // The same person is logged at most once per this many minutes
+}
+
+export type SettingKey = keyof RecognitionSettings;
+
+// Settings overridden at one level; anything missing is inherited
+export type SettingsOverrides = Partial<RecognitionSettings>;
+
+export interface KioskSettings {
+  deviceId: string;
+  name: string | null; // Kiosk token that last logged attendance from the device
+  locations: string[];
+  lastSeenAt: string | null;
+  values: SettingsOverrides;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+// What the admin settings panel edits
+export interface SettingsOverview {
+  fields: Record<SettingKey, { default: number; min: number; max: number }>;
+  deployment: { values: SettingsOverrides; updatedAt: string | null; updatedBy: string | null };
+  kiosks: KioskSettings[];
+}
+
+export interface ThresholdErrorRates {
+  threshold: number;
+  far: number; // Share of other people's samples accepted
+  frr: number; // Share of a person's own samples rejected
+}
+
+// Distances between enrolled samples, and the threshold recommended for a target false-accept rate
+export interface CalibrationResult {
+  people: number; // Calibrated on; large rosters are calibrated on a subset
+  enrolledPeople: number;
+  samples: number;
+  targetFar: number;
+  minMeasurableFar: number;
+  recommended: ThresholdErrorRates;
+  current: ThresholdErrorRates;
+  histogram: { binWidth: number; genuine: number[]; impostor: number[] };
+}
+
+// Retention limits in days (null keeps attendance forever) and where the descriptor key comes from
+export interface PrivacyPolicy {
+  attendanceRetentionDays: number | null;
+  evidenceRetentionDays: number;
+  descriptorKeySource: 'environment' | 'file';
+}
+
+// What one run of the attendance retention limit removed
+export interface PurgeResult {
+  cutoff: string;
+  attendanceRecords: number;
+  auditEntries: number;
+  sessions: number;
+  unknownSightings: number;
+  liveEvents: number;
+}
+
+// Proof that everything held about a person was erased; it does not name them
+export interface ErasureReceipt {
+  id: string;
+  personId: string;
+  erasedAt: string;
+  erasedBy: { kind: string; id: string; name: string } | null;
+  erased: {
+    descriptors: number;
+    attendanceRecords: number;
+    evidenceImages: number;
+    auditEntries: number;
+    auditEntriesRedacted: number; // Other people's history entries that named them
+    sessions: number;
+    webhookDeliveries: number;
+    liveEvents: number;
+  };
+}
+
+export interface RegisteredUser {
+  id: string;
+  name: string;
+  descriptors: Float32Array[];
+  externalId?: string | null; // Roster id (student/employee number) from a bulk import
+  group?: string | null;
+}
+
+// A change made on another client, pushed by the server. `reset` means changes were missed and
+// everything should be reloaded.
+export type LiveEvent =
+  | { type: 'attendance.created' | 'attendance.updated'; record: AttendanceRecord }
+  | { type: 'attendance.deleted'; ids: string[] }
+  | { type: 'person.created' | 'person.updated'; ids: string[] } // Only ids; the people are fetched again
+  | { type: 'person.deleted'; id: string }
+  | { type: 'session.created' | 'session.updated'; session: Session }
+  | { type: 'session.deleted'; id: string }
+  | { type: 'settings.updated'; deviceId: string | null } // Null when the deployment-wide settings changed
+  | { type: 'reset' };
+
+// `unavailable` when the server cannot stream events, as on Netlify; changes then show on reload
+export type LiveStatus = 'connecting' | 'live' | 'offline' | 'unavailable';
+
 // Minimal type for face-api.js LabeledFaceDescriptors if needed
 export interface LabeledFaceDescriptor {
   label: string;
   descriptors: Float32Array[];
 }
+
+export interface ShiftInterval {
+  checkIn: string | null;
+  checkOut: string | null;
+  durationMs: number;
+  missingCheckIn: boolean;
+  missingCheckOut: boolean;
+}
+
+export interface ShiftDay {
+  userId: string;
+  name: string;
+  date: string;
+  intervals: ShiftInterval[];
+  totalHours: number;
+  missingCheckIn: boolean;
+  missingCheckOut: boolean;
+}
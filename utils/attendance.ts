@@ -0,0 +1,66 @@
+import { AttendanceQuery, AttendanceRecord } from '../types';
+
+// Convert a record from the API; timestamps are ISO strings in JSON
+export const toAttendanceRecord = (record: any): AttendanceRecord => ({
+  id: record.id,
+  name: record.name,
+  userId: record.userId,
+  sessionId: record.sessionId,
+  type: record.type,
+  timestamp: new Date(record.timestamp),
+  liveness: record.liveness,
+  evidence: record.evidence,
+  recognition: record.recognition,
+  recordedBy: record.recordedBy,
+  source: record.source ?? null,
+  voidedAt: record.voidedAt ?? null,
+  voidedBy: record.voidedBy ?? null,
+  voidReason: record.voidReason ?? null
+});
+
+// Value for a datetime-local input, in local time
+export const toLocalInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+// Same order as the server's pagination: by time, ties broken by id
+export const compareRecords = (a: AttendanceRecord, b: AttendanceRecord, sort: AttendanceQuery['sort']) => {
+  const order = a.timestamp.getTime() - b.timestamp.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+  return sort === 'oldest' ? order : -order;
+};
+
+// Client-side version of the server's filters, for records that have not been fetched from it
+export const matchesQuery = (record: AttendanceRecord, query: AttendanceQuery) => {
+  const date = record.timestamp.toLocaleDateString('en-CA');
+  const search = query.q?.trim().toLowerCase();
+  return (!query.from || date >= query.from)
+    && (!query.to || date <= query.to)
+    && (!search || record.name.toLowerCase().includes(search))
+    && (!query.userId || record.userId === query.userId)
+    && (!query.sessionId || record.sessionId === query.sessionId)
+    && (!query.deviceId || record.recognition?.deviceId === query.deviceId);
+};
+
+// Fetched pages combined with records logged or corrected in this browser since. Local copies win,
+// and local records past the last loaded row wait until the page that covers them is loaded.
+export const mergeRecords = (
+  loaded: AttendanceRecord[],
+  local: AttendanceRecord[],
+  query: AttendanceQuery,
+  hasMore: boolean
+) => {
+  const last = loaded[loaded.length - 1];
+  const byId = new Map(loaded.map(record => [record.id, record]));
+  local.forEach(record => {
+    if (!matchesQuery(record, query)) {
+      // A correction may have moved a loaded record out of the current filters
+      byId.delete(record.id);
+      return;
+    }
+    if (byId.has(record.id) || !hasMore || !last || compareRecords(record, last, query.sort) <= 0) {
+      byId.set(record.id, record);
+    }
+  });
+  return [...byId.values()].sort((a, b) => compareRecords(a, b, query.sort));
+};
@@ -0,0 +1,205 @@
+import { unzipSync } from 'fflate';
+import { RegisteredUser } from '../types';
+import { BULK_DUPLICATE_THRESHOLD } from '../constants';
+import { parseCSV } from './csv';
+import { detectorOptions } from '../services/models';
+
+export interface RosterEntry {
+  externalId: string;
+  name: string;
+  group: string;
+  photo: string; // Optional file name from the roster; empty when photos are matched by id
+}
+
+export interface PhotoFile {
+  fileName: string;
+  blob: Blob;
+}
+
+export type ImportStatus = 'ok' | 'no-face' | 'multiple-faces' | 'duplicate' | 'missing-photo' | 'unreadable';
+
+export interface ImportRow {
+  entry: RosterEntry;
+  fileName: string | null;
+  status: ImportStatus;
+  detail: string;
+  descriptor: Float32Array | null;
+}
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp', 'bmp', 'gif'];
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  gif: 'image/gif',
+};
+
+const extensionOf = (fileName: string) => fileName.split('.').pop()!.toLowerCase();
+const baseName = (fileName: string) => fileName.split('/').pop()!.replace(/\.[^.]+$/, '');
+const isImage = (fileName: string) => IMAGE_EXTENSIONS.includes(extensionOf(fileName));
+
+// Read the roster CSV. The header row names the columns; `id` and `name` are required,
+// `group` and `photo` are optional.
+export const parseRoster = (text: string): { entries: RosterEntry[]; errors: string[] } => {
+  const [header, ...rows] = parseCSV(text);
+  if (!header) return { entries: [], errors: ['The roster file is empty.'] };
+
+  const columns = header.map(cell => cell.trim().toLowerCase());
+  const column = (...names: string[]) => columns.findIndex(name => names.includes(name));
+  const idColumn = column('id', 'external id', 'student id', 'employee id');
+  const nameColumn = column('name', 'full name');
+  const groupColumn = column('group', 'class', 'department');
+  const photoColumn = column('photo', 'file', 'filename');
+
+  if (idColumn === -1 || nameColumn === -1) {
+    return { entries: [], errors: ['The roster needs an "id" and a "name" column.'] };
+  }
+
+  const entries: RosterEntry[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((cells, index) => {
+    const line = index + 2;
+    const externalId = (cells[idColumn] || '').trim();
+    const name = (cells[nameColumn] || '').trim();
+    if (!externalId || !name) {
+      errors.push(`Line ${line}: id and name are required.`);
+      return;
+    }
+    if (seen.has(externalId)) {
+      errors.push(`Line ${line}: id "${externalId}" appears more than once.`);
+      return;
+    }
+    seen.add(externalId);
+    entries.push({
+      externalId,
+      name,
+      group: groupColumn === -1 ? '' : (cells[groupColumn] || '').trim(),
+      photo: photoColumn === -1 ? '' : (cells[photoColumn] || '').trim(),
+    });
+  });
+
+  return { entries, errors };
+};
+
+// Flatten the selected files into individual photos, unpacking any zip archives.
+// A CSV found inside a zip is returned as the roster text.
+export const collectPhotos = async (files: File[]): Promise<{ photos: PhotoFile[]; rosterText: string | null }> => {
+  const photos: PhotoFile[] = [];
+  let rosterText: string | null = null;
+
+  for (const file of files) {
+    if (extensionOf(file.name) === 'zip') {
+      const archive = unzipSync(new Uint8Array(await file.arrayBuffer()));
+      Object.entries(archive).forEach(([path, data]) => {
+        // Skip directories and the metadata macOS adds to archives
+        if (path.endsWith('/') || path.startsWith('__MACOSX/')) return;
+        if (isImage(path)) {
+          photos.push({ fileName: path.split('/').pop()!, blob: new Blob([data], { type: MIME_TYPES[extensionOf(path)] }) });
+        } else if (extensionOf(path) === 'csv' && rosterText === null) {
+          rosterText = new TextDecoder().decode(data);
+        }
+      });
+    } else if (isImage(file.name)) {
+      photos.push({ fileName: file.name, blob: file });
+    }
+  }
+
+  return { photos, rosterText };
+};
+
+// A photo belongs to an entry when the roster names the file, or when the file name is the id
+// itself or starts with the id followed by "_" or "-" (e.g. "1042_jane.jpg").
+export const findPhoto = (entry: RosterEntry, photos: PhotoFile[]): PhotoFile | null => {
+  if (entry.photo) {
+    const wanted = entry.photo.toLowerCase();
+    return photos.find(photo => photo.fileName.toLowerCase() === wanted || baseName(photo.fileName).toLowerCase() === wanted) || null;
+  }
+  const id = entry.externalId.toLowerCase();
+  return photos.find(photo => {
+    const name = baseName(photo.fileName).toLowerCase();
+    return name === id || name.startsWith(`${id}_`) || name.startsWith(`${id}-`);
+  }) || null;
+};
+
+// Detect every face in a photo; a usable enrollment photo has exactly one
+const detectFaces = async (blob: Blob, minConfidence: number): Promise<Float32Array[]> => {
+  const image = await faceapi.bufferToImage(blob);
+  const detections = await faceapi
+    .detectAllFaces(image, detectorOptions(minConfidence))
+    .withFaceLandmarks()
+    .withFaceDescriptors();
+  return detections.map((detection: any) => detection.descriptor);
+};
+
+// Closest match among descriptor sets, if any is within the duplicate threshold
+const closestMatch = (descriptor: Float32Array, candidates: { label: string; descriptors: Float32Array[] }[]) => {
+  let best: { label: string; distance: number } | null = null;
+  for (const candidate of candidates) {
+    for (const other of candidate.descriptors) {
+      const distance: number = faceapi.euclideanDistance(descriptor, other);
+      if (distance < BULK_DUPLICATE_THRESHOLD && (!best || distance < best.distance)) {
+        best = { label: candidate.label, distance };
+      }
+    }
+  }
+  return best;
+};
+
+// Check every roster entry's photo and build the dry-run report. People already enrolled under the
+// same roster id are not flagged as duplicates of themselves, since importing adds samples to them.
+export const analyzeRoster = async (
+  entries: RosterEntry[],
+  photos: PhotoFile[],
+  registeredUsers: RegisteredUser[],
+  minConfidence: number,
+  onProgress: (done: number) => void
+): Promise<ImportRow[]> => {
+  const rows: ImportRow[] = [];
+  const accepted: { label: string; descriptors: Float32Array[] }[] = [];
+
+  for (const entry of entries) {
+    const photo = findPhoto(entry, photos);
+    const row: ImportRow = { entry, fileName: photo?.fileName || null, status: 'ok', detail: '', descriptor: null };
+
+    if (!photo) {
+      row.status = 'missing-photo';
+      row.detail = 'No photo matches this id';
+    } else {
+      try {
+        const faces = await detectFaces(photo.blob, minConfidence);
+        if (faces.length === 0) {
+          row.status = 'no-face';
+          row.detail = 'No face detected';
+        } else if (faces.length > 1) {
+          row.status = 'multiple-faces';
+          row.detail = `${faces.length} faces detected`;
+        } else {
+          const others = registeredUsers
+            .filter(user => user.externalId !== entry.externalId)
+            .map(user => ({ label: user.name, descriptors: user.descriptors }));
+          const match = closestMatch(faces[0], [...others, ...accepted]);
+          row.descriptor = faces[0];
+          if (match) {
+            row.status = 'duplicate';
+            row.detail = `Looks like ${match.label} (distance ${match.distance.toFixed(2)})`;
+          } else {
+            accepted.push({ label: entry.name, descriptors: [faces[0]] });
+          }
+        }
+      } catch (error) {
+        console.error(`Error analyzing photo ${photo.fileName}:`, error);
+        row.status = 'unreadable';
+        row.detail = 'The image could not be read';
+      }
+    }
+
+    rows.push(row);
+    onProgress(rows.length);
+  }
+
+  return rows;
+};
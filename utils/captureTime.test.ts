@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { readCaptureTime } from './captureTime';
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const MP4_EPOCH_OFFSET_S = 2082844800;
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+// A JPEG whose EXIF segment holds the given ASCII tags, in the main directory and the Exif sub-directory
+const jpeg = (main: Record<number, string>, exif: Record<number, string> = {}, little = true) => {
+  const tiff = new DataView(new ArrayBuffer(512));
+  tiff.setUint16(0, little ? 0x4949 : 0x4d4d);
+  tiff.setUint16(2, 42, little);
+  tiff.setUint32(4, 8, little);
+  // Directories at 8 and 100, their strings from 200 on
+  let data = 200;
+  const writeDirectory = (at: number, entries: [number, string | number][]) => {
+    tiff.setUint16(at, entries.length, little);
+    entries.forEach(([tag, value], i) => {
+      const entry = at + 2 + i * 12;
+      tiff.setUint16(entry, tag, little);
+      if (typeof value === 'number') {
+        tiff.setUint16(entry + 2, 4, little); // LONG
+        tiff.setUint32(entry + 4, 1, little);
+        tiff.setUint32(entry + 8, value, little);
+        return;
+      }
+      const bytes = ascii(`${value}\0`);
+      tiff.setUint16(entry + 2, 2, little); // ASCII
+      tiff.setUint32(entry + 4, bytes.length, little);
+      const start = bytes.length > 4 ? data : entry + 8;
+      if (bytes.length > 4) {
+        tiff.setUint32(entry + 8, data, little);
+        data += bytes.length;
+      }
+      bytes.forEach((byte, j) => tiff.setUint8(start + j, byte));
+    });
+  };
+  const tags = (values: Record<number, string>) => Object.entries(values).map(([tag, value]): [number, string] => [Number(tag), value]);
+  const hasExif = Object.keys(exif).length > 0;
+  writeDirectory(8, [...tags(main), ...(hasExif ? [[TAG_EXIF_IFD, 100] as [number, number]] : [])]);
+  if (hasExif) writeDirectory(100, tags(exif));
+
+  const segment = [...ascii('Exif\0\0'), ...new Uint8Array(tiff.buffer, 0, data)];
+  const length = segment.length + 2;
+  const bytes = [0xff, 0xd8, 0xff, 0xe1, length >> 8, length & 0xff, ...segment, 0xff, 0xda, 0x00, 0x02];
+  return new File([new Uint8Array(bytes)], 'photo.jpg', { type: 'image/jpeg' });
+};
+
+const box = (type: string, content: number[]) => {
+  const header = new DataView(new ArrayBuffer(8));
+  header.setUint32(0, 8 + content.length);
+  return [...new Uint8Array(header.buffer, 0, 4), ...ascii(type), ...content];
+};
+
+// A box with a 64-bit size
+const largeBox = (type: string, content: number[]) => {
+  const header = new DataView(new ArrayBuffer(16));
+  header.setUint32(0, 1);
+  header.setBigUint64(8, BigInt(16 + content.length));
+  return [...new Uint8Array(header.buffer, 0, 4), ...ascii(type), ...new Uint8Array(header.buffer, 8, 8), ...content];
+};
+
+// The start of a movie header: version, flags and creation time
+const mvhd = (seconds: number, version = 0) => {
+  const view = new DataView(new ArrayBuffer(version === 1 ? 12 : 8));
+  view.setUint8(0, version);
+  if (version === 1) view.setBigUint64(4, BigInt(seconds));
+  else view.setUint32(4, seconds);
+  return box('mvhd', [...new Uint8Array(view.buffer), ...new Array(88).fill(0)]);
+};
+
+const movie = (boxes: number[][], type = 'video/mp4') =>
+  new File([new Uint8Array(boxes.flat())], 'clip.mp4', { type });
+
+const movieSeconds = (iso: string) => Date.parse(iso) / 1000 + MP4_EPOCH_OFFSET_S;
+
+describe('readCaptureTime of a JPEG', () => {
+  it('reads the original date with its offset', async () => {
+    const file = jpeg({}, { [TAG_DATE_TIME_ORIGINAL]: '2024:03:18 09:05:12', [TAG_OFFSET_TIME_ORIGINAL]: '+01:00' });
+    expect(await readCaptureTime(file)).toEqual(new Date('2024-03-18T08:05:12Z'));
+  });
+
+  it('reads a date without an offset as local time', async () => {
+    const file = jpeg({}, { [TAG_DATE_TIME_ORIGINAL]: '2024:03:18 09:05:12' });
+    expect(await readCaptureTime(file)).toEqual(new Date(2024, 2, 18, 9, 5, 12));
+  });
+
+  it('prefers the original date to the modified one', async () => {
+    const file = jpeg({ [TAG_DATE_TIME]: '2025:01:01 00:00:00' }, { [TAG_DATE_TIME_ORIGINAL]: '2024:03:18 09:05:12' });
+    expect(await readCaptureTime(file)).toEqual(new Date(2024, 2, 18, 9, 5, 12));
+  });
+
+  it('falls back to the modified date', async () => {
+    expect(await readCaptureTime(jpeg({ [TAG_DATE_TIME]: '2024:03:18 09:05:12' }))).toEqual(new Date(2024, 2, 18, 9, 5, 12));
+  });
+
+  it('reads big-endian EXIF', async () => {
+    const file = jpeg({}, { [TAG_DATE_TIME_ORIGINAL]: '2024:03:18 09:05:12', [TAG_OFFSET_TIME_ORIGINAL]: '-05:00' }, false);
+    expect(await readCaptureTime(file)).toEqual(new Date('2024-03-18T14:05:12Z'));
+  });
+
+  it('gives null for zeroed dates, missing EXIF and files that are not JPEGs', async () => {
+    expect(await readCaptureTime(jpeg({ [TAG_DATE_TIME]: '0000:00:00 00:00:00' }))).toBeNull();
+    expect(await readCaptureTime(new File([new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02])], 'a.jpg', { type: 'image/jpeg' }))).toBeNull();
+    expect(await readCaptureTime(new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], 'a.jpg', { type: 'image/jpeg' }))).toBeNull();
+  });
+});
+
+describe('readCaptureTime of a movie', () => {
+  const ftyp = box('ftyp', ascii('isom\0\0\x02\0'));
+
+  it('reads the creation time of the movie header', async () => {
+    const file = movie([ftyp, box('moov', mvhd(movieSeconds('2024-03-18T09:05:12Z')))]);
+    expect(await readCaptureTime(file)).toEqual(new Date('2024-03-18T09:05:12Z'));
+  });
+
+  it('reads version 1 headers and skips boxes with 64-bit sizes', async () => {
+    const file = movie(
+      [ftyp, largeBox('mdat', new Array(32).fill(0)), box('moov', mvhd(movieSeconds('2024-03-18T09:05:12Z'), 1))],
+      'video/quicktime'
+    );
+    expect(await readCaptureTime(file)).toEqual(new Date('2024-03-18T09:05:12Z'));
+  });
+
+  it('gives null for a zero creation time or a missing movie header', async () => {
+    expect(await readCaptureTime(movie([ftyp, box('moov', mvhd(0))]))).toBeNull();
+    expect(await readCaptureTime(movie([ftyp, box('free', [0, 0, 0, 0])]))).toBeNull();
+  });
+});
+
+it('gives null for other file types', async () => {
+  expect(await readCaptureTime(new File(['text'], 'notes.txt', { type: 'text/plain' }))).toBeNull();
+});
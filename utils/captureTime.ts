@@ -0,0 +1,120 @@
+// When an uploaded photo or video was taken, from the file's own metadata: the EXIF date of a JPEG,
+// or the creation time in the movie header of an MP4 or QuickTime file. Files without either, and
+// cameras that write zeros, give null and the time is entered by hand.
+
+const EXIF_SEARCH_BYTES = 128 * 1024; // The EXIF segment sits at the start of a JPEG and is at most 64 KB
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+// Movie header times count seconds from 1904-01-01 UTC
+const MP4_EPOCH_OFFSET_S = 2082844800;
+
+const readBytes = async (file: Blob, start: number, length: number) =>
+  new DataView(await file.slice(start, start + length).arrayBuffer());
+
+// "2024:03:18 09:05:12", in the camera's local time unless an offset such as "+01:00" is given
+const parseExifDate = (value: string, offset: string | null) => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match || match[1] === '0000') return null;
+  const [, year, month, day, hour, minute, second] = match;
+  const date = offset && /^[+-]\d{2}:\d{2}$/.test(offset)
+    ? new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`)
+    : new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// ASCII tags of one EXIF directory, keyed by tag, plus the offset of the Exif sub-directory
+const readDirectory = (view: DataView, tiff: number, offset: number, little: boolean) => {
+  const values = new Map<number, string>();
+  let exifOffset: number | null = null;
+  const count = view.getUint16(tiff + offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = tiff + offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const length = view.getUint32(entry + 4, little);
+    if (tag === TAG_EXIF_IFD) exifOffset = view.getUint32(entry + 8, little);
+    if (type !== 2) continue; // ASCII
+    const start = length > 4 ? tiff + view.getUint32(entry + 8, little) : entry + 8;
+    if (start + length > view.byteLength) continue;
+    let text = '';
+    for (let j = 0; j < length; j++) {
+      const code = view.getUint8(start + j);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    values.set(tag, text);
+  }
+  return { values, exifOffset };
+};
+
+const jpegCaptureTime = async (file: Blob) => {
+  const view = await readBytes(file, 0, EXIF_SEARCH_BYTES);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 starting with "Exif\0\0"
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const main = readDirectory(view, tiff, view.getUint32(tiff + 4, little), little);
+      const exif = main.exifOffset !== null ? readDirectory(view, tiff, main.exifOffset, little).values : new Map<number, string>();
+      const original = exif.get(TAG_DATE_TIME_ORIGINAL);
+      if (original) return parseExifDate(original, exif.get(TAG_OFFSET_TIME_ORIGINAL) || null);
+      const modified = main.values.get(TAG_DATE_TIME);
+      return modified ? parseExifDate(modified, null) : null;
+    }
+    // Image data follows; there is no EXIF segment
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return null;
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// Find a box among the boxes between `start` and `end`; returns where its content starts and ends
+const findBox = async (file: Blob, type: string, start: number, end: number) => {
+  let offset = start;
+  while (offset + 8 <= end) {
+    const header = await readBytes(file, offset, 16);
+    if (header.byteLength < 8) return null;
+    let size = header.getUint32(0);
+    let headerSize = 8;
+    const name = String.fromCharCode(header.getUint8(4), header.getUint8(5), header.getUint8(6), header.getUint8(7));
+    if (size === 1) {
+      if (header.byteLength < 16) return null;
+      size = Number(header.getBigUint64(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset; // Runs to the end of the file
+    }
+    if (size < headerSize) return null;
+    if (name === type) return { start: offset + headerSize, end: Math.min(offset + size, end) };
+    offset += size;
+  }
+  return null;
+};
+
+const movieCaptureTime = async (file: Blob) => {
+  const moov = await findBox(file, 'moov', 0, file.size);
+  const mvhd = moov && await findBox(file, 'mvhd', moov.start, moov.end);
+  if (!mvhd) return null;
+  const view = await readBytes(file, mvhd.start, 12);
+  const seconds = view.getUint8(0) === 1 ? Number(view.getBigUint64(4)) : view.getUint32(4);
+  return seconds > MP4_EPOCH_OFFSET_S ? new Date((seconds - MP4_EPOCH_OFFSET_S) * 1000) : null;
+};
+
+// When the photo or video was taken, or null if the file does not say
+export const readCaptureTime = async (file: File): Promise<Date | null> => {
+  try {
+    if (file.type === 'image/jpeg') return await jpegCaptureTime(file);
+    if (file.type === 'video/mp4' || file.type === 'video/quicktime') return await movieCaptureTime(file);
+  } catch (error) {
+    console.error(`Error reading the capture time of ${file.name}:`, error);
+  }
+  return null;
+};
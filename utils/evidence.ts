@@ -0,0 +1,59 @@
+import { AttendanceRecord, EvidenceSnapshot } from '../types';
+import { api } from '../services/api';
+import {
+  EVIDENCE_THUMBNAIL_SIZE,
+  EVIDENCE_FACE_MARGIN,
+  EVIDENCE_CAPTURE_FRAME,
+  EVIDENCE_FRAME_MAX_WIDTH,
+  EVIDENCE_JPEG_QUALITY
+} from '../constants';
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const toJpeg = (canvas: HTMLCanvasElement) => canvas.toDataURL('image/jpeg', EVIDENCE_JPEG_QUALITY);
+
+// Snapshot the current video frame, or an uploaded photo drawn on a canvas: a square crop around
+// the face box (in source pixels), plus the whole frame when EVIDENCE_CAPTURE_FRAME is on
+export const captureEvidence = (source: HTMLVideoElement | HTMLCanvasElement, box: Box): EvidenceSnapshot => {
+  const [sourceWidth, sourceHeight] = source instanceof HTMLVideoElement
+    ? [source.videoWidth, source.videoHeight]
+    : [source.width, source.height];
+  const size = Math.min(
+    Math.max(box.width, box.height) * (1 + 2 * EVIDENCE_FACE_MARGIN),
+    sourceWidth,
+    sourceHeight
+  );
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+  const sx = clamp(box.x + box.width / 2 - size / 2, sourceWidth - size);
+  const sy = clamp(box.y + box.height / 2 - size / 2, sourceHeight - size);
+
+  const thumbnail = document.createElement('canvas');
+  thumbnail.width = EVIDENCE_THUMBNAIL_SIZE;
+  thumbnail.height = EVIDENCE_THUMBNAIL_SIZE;
+  thumbnail.getContext('2d')?.drawImage(source, sx, sy, size, size, 0, 0, EVIDENCE_THUMBNAIL_SIZE, EVIDENCE_THUMBNAIL_SIZE);
+
+  let frame: string | null = null;
+  if (EVIDENCE_CAPTURE_FRAME) {
+    const scale = Math.min(1, EVIDENCE_FRAME_MAX_WIDTH / sourceWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(sourceWidth * scale);
+    canvas.height = Math.round(sourceHeight * scale);
+    canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+    frame = toJpeg(canvas);
+  }
+
+  return { thumbnail: toJpeg(thumbnail), frame };
+};
+
+// Where to load a record's evidence image from: the local capture for a record logged on this
+// device, otherwise the server copy
+export const evidenceUrl = (record: AttendanceRecord, kind: 'thumbnail' | 'frame') => {
+  if (kind === 'thumbnail' && record.thumbnailUrl) return record.thumbnailUrl;
+  if (!record.evidence?.[kind]) return null;
+  return api.attendance.evidenceUrl(record, kind);
+};
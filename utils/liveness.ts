@@ -0,0 +1,79 @@
+import { LivenessMethod, LivenessResult } from '../types';
+import {
+  LIVENESS_EAR_CLOSED,
+  LIVENESS_EAR_OPEN,
+  LIVENESS_YAW_RANGE,
+  LIVENESS_STALE_MS,
+  LIVENESS_VERIFIED_TTL_MS
+} from '../constants';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface LivenessState {
+  lastSeen: number;
+  eyesClosed: boolean;
+  yawMin: number;
+  yawMax: number;
+  result: LivenessResult | null;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Eye aspect ratio (Soukupová & Čech): drops towards 0 when the eye closes
+const eyeAspectRatio = (eye: Point[]) =>
+  (distance(eye[1], eye[5]) + distance(eye[2], eye[4])) / (2 * distance(eye[0], eye[3]));
+
+// Horizontal nose position between the outer eye corners. A flat photo keeps this constant
+// when it is moved around, a real head changes it when it turns.
+const yawRatio = (landmarks: any) => {
+  const leftEye: Point[] = landmarks.getLeftEye();
+  const rightEye: Point[] = landmarks.getRightEye();
+  const noseTip: Point = landmarks.getNose()[3];
+  const eyeSpan = rightEye[3].x - leftEye[0].x;
+  return eyeSpan === 0 ? 0.5 : (noseTip.x - leftEye[0].x) / eyeSpan;
+};
+
+const createLivenessState = (now: number, yaw: number): LivenessState => ({
+  lastSeen: now,
+  eyesClosed: false,
+  yawMin: yaw,
+  yawMax: yaw,
+  result: null,
+});
+
+const pass = (state: LivenessState, method: LivenessMethod, now: number): LivenessState => ({
+  ...state,
+  result: { passed: true, method, verifiedAt: new Date(now).toISOString() },
+});
+
+// Advance the liveness check for one face using its 68-point landmarks.
+// `previous` is undefined for a face that has not been seen before.
+export const updateLiveness = (previous: LivenessState | undefined, landmarks: any, now: number): LivenessState => {
+  const yaw = yawRatio(landmarks);
+  const isStale = !previous
+    || now - previous.lastSeen > LIVENESS_STALE_MS
+    || (previous.result !== null && now - Date.parse(previous.result.verifiedAt) > LIVENESS_VERIFIED_TTL_MS);
+  const state = isStale ? createLivenessState(now, yaw) : { ...previous, lastSeen: now };
+
+  if (state.result) {
+    return state;
+  }
+
+  const ear = (eyeAspectRatio(landmarks.getLeftEye()) + eyeAspectRatio(landmarks.getRightEye())) / 2;
+  if (ear < LIVENESS_EAR_CLOSED) {
+    state.eyesClosed = true;
+  } else if (state.eyesClosed && ear > LIVENESS_EAR_OPEN) {
+    return pass(state, 'blink', now);
+  }
+
+  state.yawMin = Math.min(state.yawMin, yaw);
+  state.yawMax = Math.max(state.yawMax, yaw);
+  if (state.yawMax - state.yawMin > LIVENESS_YAW_RANGE) {
+    return pass(state, 'head-movement', now);
+  }
+
+  return state;
+};
@@ -0,0 +1,138 @@
+import {
+  TRACK_MIN_IOU,
+  TRACK_MAX_DESCRIPTOR_DISTANCE,
+  TRACK_STALE_MS,
+  TRACK_VOTE_WINDOW,
+  TRACK_CONFIRM_VOTES
+} from '../constants';
+import { LivenessState } from './liveness';
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// What one frame said about a face: the closest enrolled person under the threshold, or nobody
+export interface TrackVote {
+  userId: string | null;
+  distance: number | null;
+}
+
+// One face followed across frames. Its identity is only settled once enough recent frames agree.
+export interface Track {
+  id: number;
+  box: Box;
+  descriptor: Float32Array;
+  lastSeen: number;
+  votes: TrackVote[]; // Most recent last, at most TRACK_VOTE_WINDOW
+  // Settled identity: a user id, null for somebody not enrolled, undefined while still undecided
+  identity: string | null | undefined;
+  liveness: LivenessState | undefined;
+  reported: boolean; // Whether the face has been reported as unknown, which happens once per track
+}
+
+export interface Tracker {
+  tracks: Track[];
+  nextId: number;
+}
+
+export interface TrackObservation {
+  box: Box;
+  descriptor: Float32Array;
+  vote: TrackVote;
+}
+
+export const createTracker = (): Tracker => ({ tracks: [], nextId: 1 });
+
+const intersectionOverUnion = (a: Box, b: Box) => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+};
+
+const descriptorDistance = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+// The identity most recent frames agree on, if it has enough votes and a majority of them
+const settledIdentity = (votes: TrackVote[]): string | null | undefined => {
+  const counts = new Map<string | null, number>();
+  votes.forEach(vote => counts.set(vote.userId, (counts.get(vote.userId) || 0) + 1));
+  let leader: string | null | undefined;
+  let leaderVotes = 0;
+  counts.forEach((count, userId) => {
+    if (count > leaderVotes) {
+      leader = userId;
+      leaderVotes = count;
+    }
+  });
+  return leaderVotes >= TRACK_CONFIRM_VOTES && leaderVotes * 2 > votes.length ? leader : undefined;
+};
+
+// How many recent frames agree with the latest one, to show progress towards confirmation
+export const votesForLatest = (track: Track) => {
+  const latest = track.votes[track.votes.length - 1];
+  return latest ? track.votes.filter(vote => vote.userId === latest.userId).length : 0;
+};
+
+// Mean distance of the frames that voted for the settled identity
+export const identityDistance = (track: Track) => {
+  const distances = track.votes
+    .filter(vote => vote.userId === track.identity && vote.distance !== null)
+    .map(vote => vote.distance as number);
+  return distances.length > 0 ? distances.reduce((sum, distance) => sum + distance, 0) / distances.length : null;
+};
+
+// Assign the faces found in a frame to tracks, starting new tracks for faces that match none, and
+// drop tracks that have not been seen for a while. Updates the tracker in place and returns the
+// track of each face, in the order given.
+export const updateTracker = (tracker: Tracker, observations: TrackObservation[], now: number): Track[] => {
+  tracker.tracks = tracker.tracks.filter(track => now - track.lastSeen <= TRACK_STALE_MS);
+
+  // Greedy assignment: the closest pairs by position and appearance are matched first
+  const candidates: { track: Track; index: number; cost: number }[] = [];
+  tracker.tracks.forEach(track => {
+    observations.forEach((observation, index) => {
+      const overlap = intersectionOverUnion(track.box, observation.box);
+      const distance = descriptorDistance(track.descriptor, observation.descriptor);
+      if (overlap >= TRACK_MIN_IOU || distance <= TRACK_MAX_DESCRIPTOR_DISTANCE) {
+        candidates.push({ track, index, cost: (1 - overlap) + distance });
+      }
+    });
+  });
+  candidates.sort((a, b) => a.cost - b.cost);
+
+  const assigned: (Track | undefined)[] = observations.map(() => undefined);
+  const taken = new Set<Track>();
+  candidates.forEach(({ track, index }) => {
+    if (assigned[index] || taken.has(track)) return;
+    assigned[index] = track;
+    taken.add(track);
+  });
+
+  return observations.map((observation, index) => {
+    let track = assigned[index];
+    if (!track) {
+      track = { id: tracker.nextId++, box: observation.box, descriptor: observation.descriptor, lastSeen: now, votes: [], identity: undefined, liveness: undefined, reported: false };
+      tracker.tracks.push(track);
+    }
+    track.box = observation.box;
+    track.descriptor = observation.descriptor;
+    track.lastSeen = now;
+    track.votes = [...track.votes, observation.vote].slice(-TRACK_VOTE_WINDOW);
+    // A settled identity only changes when the recent frames settle on someone else, who then has
+    // to pass the liveness check afresh
+    const settled = settledIdentity(track.votes);
+    if (settled !== undefined && settled !== track.identity) {
+      track.identity = settled;
+      track.liveness = undefined;
+    }
+    return track;
+  });
+};
@@ -0,0 +1,147 @@
+import { DetectedFace, UploadedFace } from '../types';
+import { UPLOAD_MAX_FRAME_WIDTH, UPLOAD_MAX_VIDEO_SECONDS, UPLOAD_VIDEO_SAMPLE_MS } from '../constants';
+import { detectFaces } from '../services/detector';
+import { captureEvidence } from './evidence';
+import { TrackVote, createTracker, updateTracker } from './tracker';
+
+// A class photo or a short clip, run through the same detector, matcher and tracker as the live
+// cameras. Each face is proposed with its match for the user to confirm before anything is logged.
+
+// What the matcher says about one descriptor, as for a live camera frame
+export type FaceVote = (descriptor: Float32Array) => TrackVote;
+
+export const isVideoFile = (file: File) => file.type.startsWith('video/');
+
+// Draw a photo or video frame on a canvas, scaled down to at most UPLOAD_MAX_FRAME_WIDTH
+const drawFrame = (source: CanvasImageSource, width: number, height: number) => {
+  const scale = Math.min(1, UPLOAD_MAX_FRAME_WIDTH / width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// The detector takes over the bitmap it is given, so the canvas stays usable for evidence
+const detectOnCanvas = async (canvas: HTMLCanvasElement, minConfidence: number) =>
+  detectFaces(await createImageBitmap(canvas), minConfidence);
+
+const abortError = () => new DOMException('Analysis cancelled', 'AbortError');
+
+export const analyzePhoto = async (file: File, vote: FaceVote, minConfidence: number): Promise<UploadedFace[]> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch (error) {
+    throw new Error('The photo could not be read');
+  }
+  const canvas = drawFrame(bitmap, bitmap.width, bitmap.height);
+  bitmap.close();
+
+  const detected = await detectOnCanvas(canvas, minConfidence);
+  return detected.map((face, index) => ({
+    id: index + 1,
+    ...vote(face.descriptor),
+    detectionScore: face.score,
+    descriptor: face.descriptor,
+    offsetMs: 0,
+    frames: 1,
+    evidence: captureEvidence(canvas, face.box),
+  }));
+};
+
+const waitFor = (video: HTMLVideoElement, event: string) => new Promise<void>((resolve, reject) => {
+  const done = () => {
+    video.removeEventListener(event, done);
+    video.removeEventListener('error', failed);
+    resolve();
+  };
+  const failed = () => {
+    video.removeEventListener(event, done);
+    video.removeEventListener('error', failed);
+    reject(new Error('The video could not be read; the browser may not support its format'));
+  };
+  video.addEventListener(event, done);
+  video.addEventListener('error', failed);
+});
+
+// The person most of a face's frames matched, with the mean distance of those frames
+const leadingVote = (votes: TrackVote[]): TrackVote => {
+  const counts = new Map<string | null, number>();
+  votes.forEach(v => counts.set(v.userId, (counts.get(v.userId) || 0) + 1));
+  const [userId] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+  const distances = votes.filter(v => v.userId === userId && v.distance !== null).map(v => v.distance as number);
+  return { userId, distance: distances.length > 0 ? distances.reduce((sum, d) => sum + d, 0) / distances.length : null };
+};
+
+// Analyze one frame every UPLOAD_VIDEO_SAMPLE_MS, following faces from frame to frame. A person
+// who left and came back is proposed once. `onProgress` gets the share of the video done so far.
+export const analyzeVideo = async (
+  file: File,
+  vote: FaceVote,
+  minConfidence: number,
+  onProgress: (done: number) => void,
+  signal: AbortSignal
+): Promise<{ faces: UploadedFace[]; truncated: boolean }> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = URL.createObjectURL(file);
+
+  try {
+    await waitFor(video, 'loadeddata');
+    if (!Number.isFinite(video.duration)) throw new Error('The length of the video is unknown');
+    const endMs = Math.min(video.duration, UPLOAD_MAX_VIDEO_SECONDS) * 1000;
+
+    const tracker = createTracker();
+    const found = new Map<number, UploadedFace & { votes: TrackVote[] }>();
+    for (let atMs = 0; atMs < endMs; atMs += UPLOAD_VIDEO_SAMPLE_MS) {
+      if (signal.aborted) throw abortError();
+      const seeked = waitFor(video, 'seeked');
+      video.currentTime = atMs / 1000;
+      await seeked;
+
+      const canvas = drawFrame(video, video.videoWidth, video.videoHeight);
+      const detected: DetectedFace[] = await detectOnCanvas(canvas, minConfidence);
+      const votes = detected.map(face => vote(face.descriptor));
+      const tracks = updateTracker(tracker, detected.map((face, i) => ({ box: face.box, descriptor: face.descriptor, vote: votes[i] })), atMs);
+
+      tracks.forEach((track, i) => {
+        const face = detected[i];
+        const existing = found.get(track.id);
+        if (!existing) {
+          found.set(track.id, {
+            id: track.id, ...votes[i], detectionScore: face.score, descriptor: face.descriptor,
+            offsetMs: atMs, frames: 1, evidence: captureEvidence(canvas, face.box), votes: [votes[i]],
+          });
+          return;
+        }
+        existing.frames += 1;
+        existing.votes.push(votes[i]);
+        if (face.score > existing.detectionScore) {
+          existing.detectionScore = face.score;
+          existing.descriptor = face.descriptor;
+          existing.evidence = captureEvidence(canvas, face.box);
+        }
+      });
+      onProgress(Math.min(1, (atMs + UPLOAD_VIDEO_SAMPLE_MS) / endMs));
+    }
+
+    // Tracks of the same person are merged into the one seen longest, keeping the first appearance
+    const faces: UploadedFace[] = [];
+    [...found.values()].forEach(({ votes, ...face }) => {
+      const proposed = { ...face, ...leadingVote(votes) };
+      const same = proposed.userId !== null && faces.find(other => other.userId === proposed.userId);
+      if (!same) {
+        faces.push(proposed);
+        return;
+      }
+      const [kept, dropped] = proposed.frames > same.frames ? [proposed, same] : [same, proposed];
+      faces[faces.indexOf(same)] = { ...kept, frames: same.frames + proposed.frames, offsetMs: Math.min(kept.offsetMs, dropped.offsetMs) };
+    });
+    return { faces, truncated: video.duration > UPLOAD_MAX_VIDEO_SECONDS };
+  } finally {
+    URL.revokeObjectURL(video.src);
+  }
+};
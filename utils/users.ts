@@ -0,0 +1,10 @@
+import { RegisteredUser } from '../types';
+
+// Convert a user from the API; descriptors are plain arrays in JSON and become Float32Array again
+export const toRegisteredUser = (user: any): RegisteredUser => ({
+  id: user.id,
+  name: user.name,
+  externalId: user.externalId ?? null,
+  group: user.group ?? null,
+  descriptors: user.descriptors.map((descriptor: number[]) => new Float32Array(descriptor))
+});
@@ -1,12 +1,44 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+
+// Serve face-api.js from the installed package at /face-api.min.js, in development and in the build,
+// so a kiosk on a network without internet access can start. The page loads it as a classic script
+// and the detection worker imports it at runtime; Vite bundles it into neither.
+const faceApiScript = (): Plugin => {
+  const fileName = 'face-api.min.js';
+  const source = path.resolve(__dirname, 'node_modules/face-api.js/dist', fileName);
+  return {
+    name: 'face-api-script',
+    configureServer(server) {
+      server.middlewares.use(`/${fileName}`, (_req, res) => {
+        res.setHeader('Content-Type', 'text/javascript');
+        res.end(fs.readFileSync(source));
+      });
+    },
+    generateBundle() {
+      this.emitFile({ type: 'asset', fileName, source: fs.readFileSync(source) });
+    },
+  };
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [faceApiScript()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Recorded with each attendance record; npm sets this from package.json
+        '__APP_VERSION__': JSON.stringify(process.env.npm_package_version || 'dev'),
+        // Where the API is served; public/app-config.js can override it at runtime
+        '__API_URL__': JSON.stringify(env.VITE_API_URL || '/api')
+      },
+      server: {
+        // In development the app calls /api on the dev server, which passes it on to the Express server
+        proxy: {
+          '/api': env.API_PROXY_TARGET || 'http://localhost:5000'
+        }
       },
       resolve: {
         alias: {